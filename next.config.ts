@@ -3,6 +3,13 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
 	// Required for Azure Functions deployment (serverless)
 	output: "standalone",
+	// Loaded from node_modules rather than bundled: the instrumentations patch
+	// modules through require/import hooks
+	serverExternalPackages: ["@opentelemetry/sdk-node", "@prisma/instrumentation"],
+	experimental: {
+		// Enables forbidden() for role checks in src/lib/session.ts
+		authInterrupts: true,
+	},
 };
 
 export default nextConfig;
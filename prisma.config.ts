@@ -3,6 +3,10 @@ import { defineConfig, env } from "prisma/config";
 
 export default defineConfig({
 	schema: "prisma/schema.prisma",
+	migrations: {
+		// Options are environment variables, see prisma/seed.ts
+		seed: "tsx prisma/seed.ts",
+	},
 	datasource: {
 		url: env("DATABASE_URL"),
 	},
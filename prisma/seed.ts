@@ -0,0 +1,76 @@
+/**
+ * Fill the database with one of the scenarios in src/lib/seed: "empty",
+ * "demo" (default) or "load". Every seeded user's password is
+ * "Password123"; sign in as admin@example.com (demo) or
+ * admin@load.example.com (load) for the admin console.
+ *
+ * Run with: pnpm db:seed
+ * Or start over with: pnpm db:reset (recreates the schema, then seeds)
+ *
+ * Options (environment variables):
+ * - SEED_SCENARIO: "empty", "demo" or "load" (default "demo")
+ * - SEED_USERS: users generated by "load" (default 1000)
+ * - SEED_RESET=true: empty every table first, keeping the schema
+ */
+import { z } from "zod/v4";
+import { env } from "../src/lib/env";
+import { prisma } from "../src/lib/prisma";
+import { resetDatabase, SEED_SCENARIOS, seedDatabase } from "../src/lib/seed";
+
+const optionsSchema = z.object({
+	SEED_SCENARIO: z
+		.enum(SEED_SCENARIOS, {
+			error: `Must be one of: ${SEED_SCENARIOS.join(", ")}`,
+		})
+		.default("demo"),
+	SEED_USERS: z.preprocess(
+		(value) => (value === "" ? undefined : value),
+		z.coerce
+			.number()
+			.int({ error: "Must be a positive whole number" })
+			.positive({ error: "Must be a positive whole number" })
+			.optional(),
+	),
+	SEED_RESET: z
+		.enum(["true", "false"], { error: 'Must be "true" or "false"' })
+		.default("false")
+		.transform((value) => value === "true"),
+});
+
+/**
+ * The options above from process.env, or an error listing each problem
+ * the way src/lib/env.ts does.
+ */
+function parseOptions() {
+	const parsed = optionsSchema.safeParse(process.env);
+	if (parsed.success) return parsed.data;
+	const problems = parsed.error.issues
+		.map((issue) => `  ${issue.path.join(".")}: ${issue.message}`)
+		.join("\n");
+	throw new Error(`Invalid seed options:\n${problems}`);
+}
+
+async function main() {
+	if (env.NODE_ENV === "production") {
+		throw new Error("Refusing to seed a database with NODE_ENV=production");
+	}
+	const {
+		SEED_SCENARIO: scenario,
+		SEED_USERS: users,
+		SEED_RESET: reset,
+	} = parseOptions();
+
+	if (reset) {
+		await resetDatabase();
+		console.log("Emptied every table");
+	}
+	const created = await seedDatabase(scenario, { users });
+	console.log(`Seeded "${scenario}":`, created);
+}
+
+main()
+	.catch((error) => {
+		console.error(error instanceof Error ? error.message : error);
+		process.exitCode = 1;
+	})
+	.finally(() => prisma.$disconnect());
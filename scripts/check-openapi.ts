@@ -0,0 +1,96 @@
+/**
+ * Fails when API routes and the OpenAPI operations drift apart:
+ * - a route.ts exports a method that has no operation in OPERATIONS
+ * - an operation has no matching route.ts export
+ * - a route export isn't built with `apiRoute(<its operation>, ...)`, so its
+ *   schemas could differ from the spec
+ *
+ * Run with: pnpm openapi:check
+ */
+import { readdirSync, readFileSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import { AUTH_PATH_PREFIX, OPERATIONS } from "../src/lib/openapi";
+import * as operations from "../src/lib/openapi/operations";
+
+const API_DIR = join(process.cwd(), "src/app/api");
+
+/** Routes that are deliberately left out of the spec */
+const UNDOCUMENTED = new Set([
+	"/api/account/data-exports/{id}", // archive download for Account > Privacy
+	"/api/auth/{...all}", // better-auth; its main endpoints are documented
+	"/api/admin/auth-events", // CSV/JSON download for the admin console
+	"/api/dev/outbox", // development only
+	"/api/health", // Container Apps probes
+	"/api/metrics", // Prometheus scrape target
+	"/api/openapi.json", // the spec itself
+	"/api/ready", // Container Apps probes
+	"/api/uploads/{...key}", // stored files
+]);
+
+const METHOD_EXPORT =
+	/export\s+(?:const|async\s+function|function)\s+(GET|POST|PUT|PATCH|DELETE)\b(.*)/g;
+
+function routeFiles(dir: string): string[] {
+	return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+		const path = join(dir, entry.name);
+		if (entry.isDirectory()) return routeFiles(path);
+		return entry.name === "route.ts" ? [path] : [];
+	});
+}
+
+/** src/app/api/users/[id]/route.ts -> /api/users/{id} */
+function toApiPath(file: string) {
+	const segments = relative(API_DIR, file).split(sep).slice(0, -1);
+	return `/api/${segments.map((s) => s.replace(/^\[(.+)\]$/, "{$1}")).join("/")}`;
+}
+
+/** Exported name of each operation, e.g. listUsers */
+const operationNames = new Map<unknown, string>(
+	Object.entries(operations).map(([name, value]) => [value, name]),
+);
+
+const problems: string[] = [];
+const implemented = new Set<string>();
+
+for (const file of routeFiles(API_DIR)) {
+	const path = toApiPath(file);
+	if (UNDOCUMENTED.has(path)) continue;
+
+	const source = readFileSync(file, "utf8");
+	for (const [, method, rest] of source.matchAll(METHOD_EXPORT)) {
+		const key = `${method} ${path}`;
+		implemented.add(key);
+
+		const operation = OPERATIONS.find(
+			(op) => op.method === method && op.path === path,
+		);
+		if (!operation) {
+			problems.push(
+				`${key} (${relative(process.cwd(), file)}) is not in OPERATIONS`,
+			);
+			continue;
+		}
+
+		const name = operationNames.get(operation);
+		const bound = rest.match(/=\s*apiRoute\(\s*(\w+)/)?.[1];
+		if (bound !== name) {
+			problems.push(
+				`${key} should be \`apiRoute(${name}, ...)\`, found ${bound ? `apiRoute(${bound}, ...)` : "a plain handler"}`,
+			);
+		}
+	}
+}
+
+for (const operation of OPERATIONS) {
+	const key = `${operation.method} ${operation.path}`;
+	if (operation.path.startsWith(AUTH_PATH_PREFIX)) continue;
+	if (!implemented.has(key)) problems.push(`${key} has no route handler`);
+}
+
+if (problems.length > 0) {
+	console.error(
+		`OpenAPI drift:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+	);
+	process.exit(1);
+}
+console.log(`OpenAPI spec matches ${implemented.size} route handlers`);
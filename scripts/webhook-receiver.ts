@@ -0,0 +1,55 @@
+/**
+ * Local webhook receiver for trying out deliveries. Prints each event and
+ * whether its signature is valid.
+ *
+ * Run with: pnpm webhooks:listen
+ * Then add http://localhost:4000 as an endpoint at /admin/webhooks and set
+ * WEBHOOK_SECRET to its signing secret to check signatures.
+ *
+ * Options (environment variables):
+ * - PORT: port to listen on (default 4000)
+ * - WEBHOOK_SECRET: endpoint secret ("whsec_...")
+ * - WEBHOOK_FAIL=true: answer 500 to every request, to watch retries
+ */
+import { createServer } from "node:http";
+import { verifyWebhook } from "../src/lib/webhooks/signature";
+
+const port = Number(process.env.PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.WEBHOOK_FAIL === "true";
+
+const server = createServer(async (request, response) => {
+	let body = "";
+	for await (const chunk of request) body += chunk;
+
+	const headers = new Headers();
+	for (const [name, value] of Object.entries(request.headers)) {
+		if (typeof value === "string") headers.set(name, value);
+	}
+
+	const signature = !secret
+		? "not checked (set WEBHOOK_SECRET)"
+		: verifyWebhook(secret, headers, body)
+			? "valid"
+			: "INVALID";
+	console.log(
+		`\n${new Date().toISOString()} ${request.method} ${request.url}`,
+		`\n  id: ${headers.get("webhook-id")}`,
+		`\n  signature: ${signature}`,
+	);
+	try {
+		console.dir(JSON.parse(body), { depth: null });
+	} catch {
+		console.log(body);
+	}
+
+	if (fail || signature === "INVALID") {
+		response.writeHead(fail ? 500 : 401).end(fail ? "Failing on purpose" : "");
+		return;
+	}
+	response.writeHead(204).end();
+});
+
+server.listen(port, () => {
+	console.log(`Listening for webhooks on http://localhost:${port}`);
+});
@@ -0,0 +1,34 @@
+/**
+ * Standalone job worker. Runs queued jobs and cron schedules until it gets
+ * SIGINT or SIGTERM, then finishes the jobs in hand and exits.
+ *
+ * Run with: pnpm worker
+ * Set JOB_WORKER="external" on the app so it doesn't run jobs itself.
+ *
+ * Options (environment variables):
+ * - JOB_CONCURRENCY: jobs run at the same time (default 5)
+ */
+import { env } from "../src/lib/env";
+import { runWorker } from "../src/lib/jobs/worker";
+import { logger } from "../src/lib/logger";
+import { prisma } from "../src/lib/prisma";
+import { startTelemetry } from "../src/lib/telemetry";
+
+const telemetry = startTelemetry("next-template-worker");
+
+const controller = new AbortController();
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+	process.once(signal, () => {
+		logger.info(`Received ${signal}, finishing running jobs`);
+		controller.abort();
+	});
+}
+
+logger.info("Job worker started", { concurrency: env.JOB_CONCURRENCY });
+
+runWorker({ concurrency: env.JOB_CONCURRENCY, signal: controller.signal })
+	.then(() => Promise.all([prisma.$disconnect(), telemetry?.shutdown()]))
+	.catch((error) => {
+		logger.error("Job worker stopped", { err: error });
+		process.exit(1);
+	});
@@ -0,0 +1,39 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { cn } from "@/lib/utils";
+
+const items = [
+	{ href: "/account", label: "Profile" },
+	{ href: "/account/security", label: "Security" },
+	{ href: "/account/passkeys", label: "Passkeys" },
+	{ href: "/account/sessions", label: "Devices & Sessions" },
+	{ href: "/account/connections", label: "Sign-in Methods" },
+	{ href: "/account/api-keys", label: "API Keys" },
+	{ href: "/account/activity", label: "Recent Activity" },
+	{ href: "/account/privacy", label: "Privacy" },
+];
+
+export function AccountNav() {
+	const pathname = usePathname();
+
+	return (
+		<nav className="flex gap-1 md:flex-col">
+			{items.map((item) => (
+				<Link
+					key={item.href}
+					href={item.href}
+					className={cn(
+						"rounded-md px-3 py-2 text-sm hover:bg-accent",
+						pathname === item.href
+							? "bg-accent font-medium"
+							: "text-muted-foreground",
+					)}
+				>
+					{item.label}
+				</Link>
+			))}
+		</nav>
+	);
+}
@@ -0,0 +1,108 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { apiErrorResult, invalidResult } from "@/lib/action-result";
+import { auth } from "@/lib/auth";
+import { createAction } from "@/lib/create-action";
+import { requireUser } from "@/lib/session";
+import { getKeyFromUrl, getPublicUrl, getStorage } from "@/lib/storage";
+import {
+	type ActionResult,
+	avatarSchema,
+	changeEmailSchema,
+	changePasswordSchema,
+	updateProfileSchema,
+} from "@/lib/validations";
+
+const AVATAR_EXTENSIONS: Record<string, string> = {
+	"image/gif": "gif",
+	"image/jpeg": "jpg",
+	"image/png": "png",
+	"image/webp": "webp",
+};
+
+async function deleteStoredAvatar(image: string | null) {
+	const key = getKeyFromUrl(image);
+	if (key) await getStorage().delete(key);
+}
+
+export const updateProfile = createAction({
+	schema: updateProfileSchema,
+	handler: async ({ name }) => {
+		await auth.api.updateUser({ body: { name }, headers: await headers() });
+		revalidatePath("/account");
+	},
+	successMessage: "Profile updated",
+});
+
+export async function uploadAvatar(
+	_previous: ActionResult<string> | null,
+	formData: FormData,
+): Promise<ActionResult<string>> {
+	const user = await requireUser();
+
+	const parsed = avatarSchema.safeParse({ avatar: formData.get("avatar") });
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	const { avatar } = parsed.data;
+	const key = `avatars/${user.id}/${randomUUID()}.${AVATAR_EXTENSIONS[avatar.type]}`;
+	await getStorage().put(
+		key,
+		new Uint8Array(await avatar.arrayBuffer()),
+		avatar.type,
+	);
+
+	const image = getPublicUrl(key);
+	try {
+		await auth.api.updateUser({ body: { image }, headers: await headers() });
+	} catch (error) {
+		await getStorage().delete(key);
+		return apiErrorResult(error);
+	}
+
+	await deleteStoredAvatar(user.image);
+	revalidatePath("/account");
+	return { success: true, message: "Avatar updated", data: image };
+}
+
+export async function removeAvatar(): Promise<ActionResult> {
+	const user = await requireUser();
+
+	try {
+		await auth.api.updateUser({
+			body: { image: null },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	await deleteStoredAvatar(user.image);
+	revalidatePath("/account");
+	return { success: true, message: "Avatar removed" };
+}
+
+export const changeEmail = createAction({
+	schema: changeEmailSchema,
+	handler: async ({ newEmail }) => {
+		await auth.api.changeEmail({
+			body: { newEmail, callbackURL: "/account" },
+			headers: await headers(),
+		});
+	},
+	successMessage: ({ newEmail }) =>
+		`Check ${newEmail} for a link to confirm the change`,
+});
+
+export const changePassword = createAction({
+	schema: changePasswordSchema,
+	handler: async ({ currentPassword, newPassword }) => {
+		await auth.api.changePassword({
+			body: { currentPassword, newPassword, revokeOtherSessions: true },
+			headers: await headers(),
+		});
+	},
+	successMessage: "Password changed",
+});
@@ -0,0 +1,34 @@
+import { AuthEventList } from "@/components/auth-event-list";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { listRecentAuthEvents } from "@/lib/auth-events";
+import { requireUser } from "@/lib/session";
+
+export default async function AccountActivity() {
+	const user = await requireUser("/account/activity");
+	const events = await listRecentAuthEvents(user.id);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Recent Activity</CardTitle>
+				<CardDescription>
+					Sign-ins and security changes on your account. If something looks
+					unfamiliar, change your password and sign out other devices.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				{events.length === 0 ? (
+					<p className="text-sm text-muted-foreground">No activity yet.</p>
+				) : (
+					<AuthEventList events={events} />
+				)}
+			</CardContent>
+		</Card>
+	);
+}
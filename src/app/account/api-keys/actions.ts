@@ -0,0 +1,56 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { ActionError, apiErrorResult } from "@/lib/action-result";
+import { scopesToPermissions } from "@/lib/api-keys";
+import { auth } from "@/lib/auth";
+import { createAction } from "@/lib/create-action";
+import { getSession, hasRecentSignIn } from "@/lib/session";
+import { type ActionResult, createApiKeySchema } from "@/lib/validations";
+
+export const createApiKey = createAction({
+	schema: createApiKeySchema,
+	handler: async ({ name, scopes, expiresIn }, { user }) => {
+		// A key outlives the session, so an impersonating admin or a stolen
+		// session cookie mustn't be able to mint one
+		if ((await getSession())?.session.impersonatedBy) {
+			throw new ActionError("API keys can't be created while impersonating");
+		}
+		if (!(await hasRecentSignIn())) {
+			throw new ActionError(
+				"Sign in again to confirm it's you, then create the key",
+			);
+		}
+
+		// Called without headers so better-auth accepts the server-only
+		// `permissions` field; the user comes from our own session check
+		const created = await auth.api.createApiKey({
+			body: {
+				name,
+				userId: user.id,
+				permissions: scopesToPermissions(scopes),
+				expiresIn: expiresIn === "never" ? null : Number(expiresIn) * 86_400,
+			},
+		});
+
+		revalidatePath("/account/api-keys");
+		// The only time the full key is available
+		return created.key;
+	},
+	successMessage: "API key created",
+});
+
+export async function revokeApiKey(apiKeyId: string): Promise<ActionResult> {
+	try {
+		await auth.api.deleteApiKey({
+			body: { keyId: apiKeyId },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/account/api-keys");
+	return { success: true, message: "API key revoked" };
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fromActionResult, useZodForm } from "@/lib/hooks";
+import {
+	API_KEY_EXPIRY_OPTIONS,
+	API_KEY_SCOPES,
+	type CreateApiKeyInput,
+	createApiKeySchema,
+} from "@/lib/validations";
+import { SignInAgain } from "../sign-in-again";
+import { createApiKey } from "./actions";
+
+const expiryLabels: Record<CreateApiKeyInput["expiresIn"], string> = {
+	"30": "30 days",
+	"90": "90 days",
+	"365": "1 year",
+	never: "Never",
+};
+
+const initialData: CreateApiKeyInput = {
+	name: "",
+	scopes: [...API_KEY_SCOPES],
+	expiresIn: "90",
+};
+
+function NewKey({ apiKey, onDone }: { apiKey: string; onDone: () => void }) {
+	const [copied, setCopied] = useState(false);
+
+	return (
+		<div className="space-y-2">
+			<p className="text-sm">
+				Copy your new key now. You won&apos;t be able to see it again.
+			</p>
+			<div className="flex gap-2">
+				<Input readOnly value={apiKey} className="font-mono" />
+				<Button
+					type="button"
+					variant="outline"
+					onClick={async () => {
+						await navigator.clipboard.writeText(apiKey);
+						setCopied(true);
+					}}
+				>
+					{copied ? "Copied" : "Copy"}
+				</Button>
+			</div>
+			<Button type="button" variant="ghost" size="sm" onClick={onDone}>
+				Done
+			</Button>
+		</div>
+	);
+}
+
+export function CreateApiKeyForm({
+	signedInRecently,
+}: {
+	/** Keys can only be created shortly after signing in */
+	signedInRecently: boolean;
+}) {
+	const [newKey, setNewKey] = useState<string | null>(null);
+	const form = useZodForm({
+		schema: createApiKeySchema,
+		initialData,
+		onSubmit: async (data) => {
+			const result = await createApiKey(data);
+			if (result.data) setNewKey(result.data);
+			return fromActionResult(result);
+		},
+		onSuccess: () => form.reset(),
+	});
+	const { values, errors, submitError, submitting } = form;
+
+	function toggleScope(scope: CreateApiKeyInput["scopes"][number]) {
+		form.setValue(
+			"scopes",
+			values.scopes.includes(scope)
+				? values.scopes.filter((s) => s !== scope)
+				: [...values.scopes, scope],
+		);
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Create an API Key</CardTitle>
+				<CardDescription>
+					Keys act as you, limited to the scopes you choose.
+				</CardDescription>
+			</CardHeader>
+			{newKey ? (
+				<CardContent>
+					<NewKey apiKey={newKey} onDone={() => setNewKey(null)} />
+				</CardContent>
+			) : !signedInRecently ? (
+				<CardContent>
+					<SignInAgain callbackUrl="/account/api-keys" action="create a key" />
+				</CardContent>
+			) : (
+				<form onSubmit={form.handleSubmit}>
+					<CardContent className="space-y-4">
+						{submitError && (
+							<p className="text-sm text-red-500">{submitError}</p>
+						)}
+						<div className="space-y-2">
+							<Label htmlFor="api-key-name">Name</Label>
+							<Input
+								id="api-key-name"
+								placeholder="e.g. CI deploy"
+								{...form.register("name")}
+								aria-describedby={
+									errors.name ? "api-key-name-error" : undefined
+								}
+							/>
+							{errors.name && (
+								<p id="api-key-name-error" className="text-sm text-red-500">
+									{errors.name}
+								</p>
+							)}
+						</div>
+						<fieldset className="space-y-2">
+							<legend className="text-sm font-medium">Scopes</legend>
+							{API_KEY_SCOPES.map((scope) => (
+								<label key={scope} className="flex items-center gap-2 text-sm">
+									<input
+										type="checkbox"
+										checked={values.scopes.includes(scope)}
+										onChange={() => toggleScope(scope)}
+									/>
+									<code className="font-mono">{scope}</code>
+								</label>
+							))}
+							{errors.scopes && (
+								<p className="text-sm text-red-500">{errors.scopes}</p>
+							)}
+						</fieldset>
+						<div className="space-y-2">
+							<Label htmlFor="api-key-expires">Expires</Label>
+							<select
+								id="api-key-expires"
+								className="h-9 rounded-md border bg-transparent px-2 text-sm"
+								value={values.expiresIn}
+								onChange={(e) =>
+									form.setValue(
+										"expiresIn",
+										e.target.value as CreateApiKeyInput["expiresIn"],
+									)
+								}
+							>
+								{API_KEY_EXPIRY_OPTIONS.map((option) => (
+									<option key={option} value={option}>
+										{expiryLabels[option]}
+									</option>
+								))}
+							</select>
+						</div>
+					</CardContent>
+					<CardFooter className="mt-6">
+						<Button type="submit" disabled={submitting}>
+							{submitting ? "Creating..." : "Create Key"}
+						</Button>
+					</CardFooter>
+				</form>
+			)}
+		</Card>
+	);
+}
@@ -0,0 +1,82 @@
+import { ActionButton } from "@/components/action-button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { listApiKeys } from "@/lib/api-keys";
+import { hasRecentSignIn, requireUser } from "@/lib/session";
+import { revokeApiKey } from "./actions";
+import { CreateApiKeyForm } from "./create-api-key-form";
+
+export default async function AccountApiKeys() {
+	const user = await requireUser("/account/api-keys");
+	const [apiKeys, signedInRecently] = await Promise.all([
+		listApiKeys(user.id),
+		hasRecentSignIn(),
+	]);
+
+	return (
+		<>
+			<Card>
+				<CardHeader>
+					<CardTitle>API Keys</CardTitle>
+					<CardDescription>
+						Keys let scripts and CI jobs call the API as you. Send them as{" "}
+						<code className="font-mono">Authorization: Bearer &lt;key&gt;</code>
+						. See the{" "}
+						<a href="/docs/api" className="underline">
+							API reference
+						</a>
+						.
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{apiKeys.length === 0 ? (
+						<p className="text-sm text-muted-foreground">
+							You haven&apos;t created any API keys yet.
+						</p>
+					) : (
+						<ul className="divide-y">
+							{apiKeys.map((apiKey) => (
+								<li
+									key={apiKey.id}
+									className="flex items-center justify-between gap-4 py-4"
+								>
+									<div className="space-y-1">
+										<p className="text-sm font-medium">
+											{apiKey.name ?? "Unnamed key"}{" "}
+											<code className="font-mono text-muted-foreground">
+												{apiKey.start}…
+											</code>
+										</p>
+										<p className="text-sm text-muted-foreground">
+											{apiKey.scopes.join(", ") || "No scopes"} &middot; Created{" "}
+											{apiKey.createdAt.toLocaleDateString()} &middot;{" "}
+											{apiKey.expiresAt
+												? `Expires ${apiKey.expiresAt.toLocaleDateString()}`
+												: "Never expires"}{" "}
+											&middot;{" "}
+											{apiKey.lastRequest
+												? `Last used ${apiKey.lastRequest.toLocaleString()}`
+												: "Never used"}
+										</p>
+									</div>
+									<ActionButton
+										action={revokeApiKey.bind(null, apiKey.id)}
+										label="Revoke"
+										pendingLabel="Revoking..."
+										variant="destructive"
+									/>
+								</li>
+							))}
+						</ul>
+					)}
+				</CardContent>
+			</Card>
+			<CreateApiKeyForm signedInRecently={signedInRecently} />
+		</>
+	);
+}
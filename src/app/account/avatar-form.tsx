@@ -0,0 +1,84 @@
+"use client";
+
+import { useActionState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { removeAvatar, uploadAvatar } from "./actions";
+
+interface AvatarFormProps {
+	name: string;
+	image: string | null;
+}
+
+export function AvatarForm({ name, image }: AvatarFormProps) {
+	const [state, formAction, uploading] = useActionState(uploadAvatar, null);
+	const [removing, startRemoving] = useTransition();
+
+	const error = state?.success ? undefined : state?.errors?.avatar?.[0];
+	const busy = uploading || removing;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Avatar</CardTitle>
+				<CardDescription>PNG, JPEG, WebP or GIF, up to 2 MB</CardDescription>
+			</CardHeader>
+			<form action={formAction}>
+				<CardContent className="flex items-center gap-4">
+					<div className="flex size-16 shrink-0 items-center justify-center overflow-hidden rounded-full bg-muted text-xl font-semibold">
+						{image ? (
+							// biome-ignore lint/performance/noImgElement: user uploads are served by our own route, not next/image
+							<img src={image} alt="" className="size-full object-cover" />
+						) : (
+							name.charAt(0).toUpperCase()
+						)}
+					</div>
+					<div className="flex-1 space-y-2">
+						<Label htmlFor="avatar">New Image</Label>
+						<Input
+							id="avatar"
+							name="avatar"
+							type="file"
+							accept="image/png,image/jpeg,image/webp,image/gif"
+							aria-invalid={!!error}
+							aria-describedby={error ? "avatar-error" : undefined}
+						/>
+						{error && (
+							<p id="avatar-error" className="text-sm text-red-500">
+								{error}
+							</p>
+						)}
+					</div>
+				</CardContent>
+				<CardFooter className="mt-6 gap-2">
+					<Button type="submit" disabled={busy}>
+						{uploading ? "Uploading..." : "Upload"}
+					</Button>
+					{image && (
+						<Button
+							type="button"
+							variant="outline"
+							disabled={busy}
+							onClick={() =>
+								startRemoving(async () => {
+									await removeAvatar();
+								})
+							}
+						>
+							{removing ? "Removing..." : "Remove"}
+						</Button>
+					)}
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useActionForm } from "@/lib/hooks";
+import { type ChangeEmailInput, changeEmailSchema } from "@/lib/validations";
+import { changeEmail } from "./actions";
+
+export function ChangeEmailForm({ email }: { email: string }) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useActionForm({
+			schema: changeEmailSchema,
+			action: changeEmail,
+			initialData: { newEmail: "" } satisfies ChangeEmailInput,
+			redirectTo: "/account?saved=email",
+		});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Email</CardTitle>
+				<CardDescription>
+					Currently {email}. We&apos;ll send a confirmation link to the new
+					address.
+				</CardDescription>
+			</CardHeader>
+			<form onSubmit={handleSubmit}>
+				<CardContent className="space-y-4">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					<div className="space-y-2">
+						<Label htmlFor="newEmail">New Email</Label>
+						<Input
+							id="newEmail"
+							type="email"
+							value={formData.newEmail}
+							onChange={(e) => handleChange("newEmail", e.target.value)}
+							aria-invalid={!!errors.newEmail}
+							aria-describedby={errors.newEmail ? "newEmail-error" : undefined}
+						/>
+						{errors.newEmail && (
+							<p id="newEmail-error" className="text-sm text-red-500">
+								{errors.newEmail}
+							</p>
+						)}
+					</div>
+				</CardContent>
+				<CardFooter className="mt-6">
+					<Button type="submit" disabled={loading}>
+						{loading ? "Sending..." : "Change Email"}
+					</Button>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
@@ -0,0 +1,41 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { apiErrorResult } from "@/lib/action-result";
+import { auth } from "@/lib/auth";
+import type { ActionResult } from "@/lib/validations";
+
+export async function unlinkProvider(
+	providerId: string,
+): Promise<ActionResult> {
+	try {
+		const requestHeaders = await headers();
+		const [accounts, passkeys] = await Promise.all([
+			auth.api.listUserAccounts({ headers: requestHeaders }),
+			auth.api.listPasskeys({ headers: requestHeaders }),
+		]);
+
+		const account = accounts.find((item) => item.providerId === providerId);
+		if (!account) return { success: false, message: "Provider not linked" };
+
+		// Every account row (including "credential") and passkey is a way to sign in
+		if (accounts.length + passkeys.length <= 1) {
+			return {
+				success: false,
+				message:
+					"This is your only sign-in method. Link another provider before removing it.",
+			};
+		}
+
+		await auth.api.unlinkAccount({
+			body: { providerId, accountId: account.accountId },
+			headers: requestHeaders,
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/account/connections");
+	return { success: true, message: "Provider unlinked" };
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { authClient } from "@/lib/auth-client";
+import type { OAuthProviderInfo, SocialProviderId } from "@/lib/auth-providers";
+
+const CALLBACK_URL = "/account/connections";
+
+export function LinkButton({ provider }: { provider: OAuthProviderInfo }) {
+	const [pending, setPending] = useState(false);
+	const [error, setError] = useState("");
+
+	async function handleClick() {
+		setPending(true);
+		setError("");
+
+		// Both calls redirect the browser to the provider on success
+		const result =
+			provider.kind === "oidc"
+				? await authClient.oauth2.link({
+						providerId: provider.id,
+						callbackURL: CALLBACK_URL,
+					})
+				: await authClient.linkSocial({
+						provider: provider.id as SocialProviderId,
+						callbackURL: CALLBACK_URL,
+					});
+
+		if (result.error) {
+			setError(result.error.message ?? "Could not start linking");
+			setPending(false);
+		}
+	}
+
+	return (
+		<div className="flex flex-col items-end gap-1">
+			<Button size="sm" onClick={handleClick} disabled={pending}>
+				{pending ? "Redirecting..." : "Link"}
+			</Button>
+			{error && <p className="text-sm text-red-500">{error}</p>}
+		</div>
+	);
+}
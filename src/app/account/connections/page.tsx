@@ -0,0 +1,90 @@
+import { headers } from "next/headers";
+import { ActionButton } from "@/components/action-button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { describeOAuthError, getEnabledProviders } from "@/lib/auth-providers";
+import { unlinkProvider } from "./actions";
+import { LinkButton } from "./link-button";
+
+export default async function AccountConnections({
+	searchParams,
+}: {
+	searchParams: Promise<{ error?: string }>;
+}) {
+	const [{ error }, accounts] = await Promise.all([
+		searchParams,
+		auth.api.listUserAccounts({ headers: await headers() }),
+	]);
+	const providers = getEnabledProviders();
+	const hasPassword = accounts.some(
+		(account) => account.providerId === "credential",
+	);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Sign-in Methods</CardTitle>
+				<CardDescription>
+					Link providers to sign in without a password. You always need at least
+					one method.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{error && (
+					<p className="text-sm text-red-500">{describeOAuthError(error)}</p>
+				)}
+				<ul className="divide-y">
+					<li className="flex items-center justify-between gap-4 py-4">
+						<div>
+							<p className="text-sm font-medium">Email &amp; password</p>
+							<p className="text-sm text-muted-foreground">
+								{hasPassword ? "Enabled" : "Not set"}
+							</p>
+						</div>
+					</li>
+					{providers.map((provider) => {
+						const account = accounts.find(
+							(item) => item.providerId === provider.id,
+						);
+
+						return (
+							<li
+								key={provider.id}
+								className="flex items-center justify-between gap-4 py-4"
+							>
+								<div>
+									<p className="text-sm font-medium">{provider.name}</p>
+									<p className="text-sm text-muted-foreground">
+										{account
+											? `Linked ${account.createdAt.toLocaleDateString()}`
+											: "Not linked"}
+									</p>
+								</div>
+								{account ? (
+									<ActionButton
+										action={unlinkProvider.bind(null, provider.id)}
+										label="Unlink"
+										pendingLabel="Unlinking..."
+									/>
+								) : (
+									<LinkButton provider={provider} />
+								)}
+							</li>
+						);
+					})}
+				</ul>
+				{providers.length === 0 && (
+					<p className="text-sm text-muted-foreground">
+						No OAuth providers are configured for this app.
+					</p>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
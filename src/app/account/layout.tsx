@@ -0,0 +1,20 @@
+import { requireUser } from "@/lib/session";
+import { AccountNav } from "./account-nav";
+
+export default async function AccountLayout({
+	children,
+}: Readonly<{
+	children: React.ReactNode;
+}>) {
+	await requireUser("/account");
+
+	return (
+		<main className="container mx-auto px-4 py-8">
+			<h1 className="text-2xl font-bold">Account</h1>
+			<div className="mt-6 grid gap-8 md:grid-cols-[200px_1fr]">
+				<AccountNav />
+				<div className="space-y-6">{children}</div>
+			</div>
+		</main>
+	);
+}
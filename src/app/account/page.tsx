@@ -0,0 +1,25 @@
+import { requireUser } from "@/lib/session";
+import { AvatarForm } from "./avatar-form";
+import { ChangeEmailForm } from "./change-email-form";
+import { ProfileForm } from "./profile-form";
+import { SavedNotice } from "./saved-notice";
+
+export default async function AccountProfile({
+	searchParams,
+}: {
+	searchParams: Promise<{ saved?: string }>;
+}) {
+	const [user, { saved }] = await Promise.all([
+		requireUser("/account"),
+		searchParams,
+	]);
+
+	return (
+		<>
+			<SavedNotice saved={saved} />
+			<ProfileForm name={user.name} />
+			<AvatarForm name={user.name} image={user.image} />
+			<ChangeEmailForm email={user.email} />
+		</>
+	);
+}
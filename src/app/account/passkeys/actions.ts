@@ -0,0 +1,62 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { apiErrorResult, invalidResult } from "@/lib/action-result";
+import { auth } from "@/lib/auth";
+import {
+	type ActionResult,
+	type PasskeyNameInput,
+	passkeyNameSchema,
+} from "@/lib/validations";
+
+export async function renamePasskey(
+	passkeyId: string,
+	input: PasskeyNameInput,
+): Promise<ActionResult> {
+	const parsed = passkeyNameSchema.safeParse(input);
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	try {
+		await auth.api.updatePasskey({
+			body: { id: passkeyId, name: parsed.data.name },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/account/passkeys");
+	return { success: true, message: "Passkey renamed" };
+}
+
+export async function deletePasskey(passkeyId: string): Promise<ActionResult> {
+	try {
+		const requestHeaders = await headers();
+		const [accounts, passkeys] = await Promise.all([
+			auth.api.listUserAccounts({ headers: requestHeaders }),
+			auth.api.listPasskeys({ headers: requestHeaders }),
+		]);
+
+		if (!passkeys.some((passkey) => passkey.id === passkeyId)) {
+			return { success: false, message: "Passkey not found" };
+		}
+		if (accounts.length + passkeys.length <= 1) {
+			return {
+				success: false,
+				message:
+					"This is your only sign-in method. Add another before removing it.",
+			};
+		}
+
+		await auth.api.deletePasskey({
+			body: { id: passkeyId },
+			headers: requestHeaders,
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/account/passkeys");
+	return { success: true, message: "Passkey removed" };
+}
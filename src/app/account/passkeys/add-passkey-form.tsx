@@ -0,0 +1,65 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+import { useAuthForm } from "@/lib/hooks";
+import { type PasskeyNameInput, passkeyNameSchema } from "@/lib/validations";
+
+export function AddPasskeyForm() {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof passkeyNameSchema>({
+			schema: passkeyNameSchema,
+			initialData: { name: "" } satisfies PasskeyNameInput,
+			// Registration runs in the browser so it can reach the authenticator
+			onSubmit: async (data) => {
+				const result = await authClient.passkey.addPasskey({ name: data.name });
+				return { error: result?.error };
+			},
+			redirectTo: "/account/passkeys?saved=passkey-added",
+		});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Add a Passkey</CardTitle>
+				<CardDescription>
+					Use your device&apos;s screen lock, a security key, or a password
+					manager to sign in without a password.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={handleSubmit} className="space-y-2">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					<Label htmlFor="passkey-name">Name</Label>
+					<div className="flex gap-2">
+						<Input
+							id="passkey-name"
+							placeholder="e.g. Work laptop"
+							value={formData.name}
+							onChange={(e) => handleChange("name", e.target.value)}
+							aria-invalid={!!errors.name}
+							aria-describedby={errors.name ? "passkey-name-error" : undefined}
+						/>
+						<Button type="submit" disabled={loading}>
+							{loading ? "Waiting for device..." : "Add Passkey"}
+						</Button>
+					</div>
+					{errors.name && (
+						<p id="passkey-name-error" className="text-sm text-red-500">
+							{errors.name}
+						</p>
+					)}
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
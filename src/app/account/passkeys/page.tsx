@@ -0,0 +1,75 @@
+import { headers } from "next/headers";
+import { ActionButton } from "@/components/action-button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { SavedNotice } from "../saved-notice";
+import { deletePasskey } from "./actions";
+import { AddPasskeyForm } from "./add-passkey-form";
+import { RenamePasskeyForm } from "./rename-passkey-form";
+
+export default async function AccountPasskeys({
+	searchParams,
+}: {
+	searchParams: Promise<{ saved?: string }>;
+}) {
+	const [{ saved }, passkeys] = await Promise.all([
+		searchParams,
+		auth.api.listPasskeys({ headers: await headers() }),
+	]);
+
+	return (
+		<>
+			<SavedNotice saved={saved} />
+			<Card>
+				<CardHeader>
+					<CardTitle>Passkeys</CardTitle>
+					<CardDescription>Passkeys registered to your account</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{passkeys.length === 0 ? (
+						<p className="text-sm text-muted-foreground">
+							You haven&apos;t added any passkeys yet.
+						</p>
+					) : (
+						<ul className="divide-y">
+							{passkeys.map((passkey) => (
+								<li
+									key={passkey.id}
+									className="flex items-center justify-between gap-4 py-4"
+								>
+									<div className="space-y-1">
+										<p className="text-sm font-medium">
+											{passkey.name || "Unnamed passkey"}
+										</p>
+										<p className="text-sm text-muted-foreground">
+											{passkey.backedUp ? "Synced" : "This device only"}{" "}
+											&middot; Added {passkey.createdAt.toLocaleDateString()}
+										</p>
+									</div>
+									<div className="flex items-start gap-2">
+										<RenamePasskeyForm
+											passkeyId={passkey.id}
+											name={passkey.name ?? ""}
+										/>
+										<ActionButton
+											action={deletePasskey.bind(null, passkey.id)}
+											label="Remove"
+											pendingLabel="Removing..."
+										/>
+									</div>
+								</li>
+							))}
+						</ul>
+					)}
+				</CardContent>
+			</Card>
+			<AddPasskeyForm />
+		</>
+	);
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { fromActionResult, useAuthForm } from "@/lib/hooks";
+import { type PasskeyNameInput, passkeyNameSchema } from "@/lib/validations";
+import { renamePasskey } from "./actions";
+
+interface RenamePasskeyFormProps {
+	passkeyId: string;
+	name: string;
+}
+
+export function RenamePasskeyForm({ passkeyId, name }: RenamePasskeyFormProps) {
+	const [editing, setEditing] = useState(false);
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof passkeyNameSchema>({
+			schema: passkeyNameSchema,
+			initialData: { name } satisfies PasskeyNameInput,
+			onSubmit: async (data) => {
+				const result = await renamePasskey(passkeyId, data);
+				if (result.success) setEditing(false);
+				return fromActionResult(result);
+			},
+			redirectTo: false,
+		});
+
+	if (!editing) {
+		return (
+			<Button variant="ghost" size="sm" onClick={() => setEditing(true)}>
+				Rename
+			</Button>
+		);
+	}
+
+	const error = errors.name || submitError;
+	return (
+		<form onSubmit={handleSubmit} className="space-y-1">
+			<div className="flex gap-2">
+				<Input
+					aria-label="Passkey name"
+					value={formData.name}
+					onChange={(e) => handleChange("name", e.target.value)}
+					aria-invalid={!!error}
+					className="h-8"
+				/>
+				<Button type="submit" size="sm" disabled={loading}>
+					{loading ? "Saving..." : "Save"}
+				</Button>
+				<Button
+					type="button"
+					variant="ghost"
+					size="sm"
+					onClick={() => setEditing(false)}
+				>
+					Cancel
+				</Button>
+			</div>
+			{error && <p className="text-sm text-red-500">{error}</p>}
+		</form>
+	);
+}
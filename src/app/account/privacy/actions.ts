@@ -0,0 +1,72 @@
+"use server";
+
+import { verifyPassword } from "better-auth/crypto";
+import { revalidatePath } from "next/cache";
+import { ActionError } from "@/lib/action-result";
+import { createAction } from "@/lib/create-action";
+import { prisma } from "@/lib/prisma";
+import {
+	cancelAccountDeletion,
+	requestDataExport,
+	scheduleAccountDeletion,
+} from "@/lib/privacy";
+import { getCurrentUser, hasRecentSignIn } from "@/lib/session";
+import {
+	type ActionResult,
+	deleteAccountSchema,
+	requestDataExportSchema,
+} from "@/lib/validations";
+
+export const exportData = createAction({
+	schema: requestDataExportSchema,
+	handler: async ({ format }, { user }) => {
+		const created = await requestDataExport(user.id, format);
+		if (!created) {
+			throw new ActionError("Your previous export is still being prepared");
+		}
+		revalidatePath("/account/privacy");
+	},
+	successMessage: "Export requested. We'll email you when it's ready",
+});
+
+export const deleteAccount = createAction({
+	schema: deleteAccountSchema,
+	handler: async ({ password }, { user }) => {
+		const account = await prisma.account.findFirst({
+			where: { userId: user.id, providerId: "credential" },
+			select: { password: true },
+		});
+		if (account?.password) {
+			if (!password) {
+				throw new ActionError("Password is required", {
+					password: ["Password is required"],
+				});
+			}
+			if (!(await verifyPassword({ hash: account.password, password }))) {
+				throw new ActionError("Invalid password", {
+					password: ["Invalid password"],
+				});
+			}
+		} else {
+			// OAuth and passkey users prove it's them by signing in again
+			if (!(await hasRecentSignIn())) {
+				throw new ActionError(
+					"Sign in again to confirm it's you, then delete your account",
+				);
+			}
+		}
+
+		await scheduleAccountDeletion(user);
+		revalidatePath("/account/privacy");
+	},
+	successMessage: "Account deletion scheduled. Check your email for details",
+});
+
+export async function cancelDeletion(): Promise<ActionResult> {
+	const user = await getCurrentUser();
+	if (!user) return { success: false, message: "You are not signed in" };
+
+	await cancelAccountDeletion(user.id);
+	revalidatePath("/account/privacy");
+	return { success: true, message: "Account deletion canceled" };
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fromActionResult, useAuthForm } from "@/lib/hooks";
+import { deleteAccountSchema } from "@/lib/validations";
+import { SignInAgain } from "../sign-in-again";
+import { deleteAccount } from "./actions";
+
+interface DeleteAccountFormProps {
+	graceDays: number;
+	/** Confirm with the password; otherwise with a recent sign-in */
+	hasPassword: boolean;
+	signedInRecently: boolean;
+}
+
+export function DeleteAccountForm({
+	graceDays,
+	hasPassword,
+	signedInRecently,
+}: DeleteAccountFormProps) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof deleteAccountSchema>({
+			schema: deleteAccountSchema,
+			initialData: {
+				password: "",
+				confirmation: "",
+			},
+			onSubmit: async (data) => fromActionResult(await deleteAccount(data)),
+			redirectTo: "/account/privacy?saved=deletion-scheduled",
+		});
+
+	return (
+		<Card className="border-red-200">
+			<CardHeader>
+				<CardTitle>Delete Account</CardTitle>
+				<CardDescription>
+					Your account and everything linked to it are permanently deleted{" "}
+					{graceDays === 1 ? "1 day" : `${graceDays} days`} after you confirm.
+					Until then you can sign in and cancel.
+				</CardDescription>
+			</CardHeader>
+			<form onSubmit={handleSubmit}>
+				<CardContent className="space-y-4">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					{hasPassword ? (
+						<div className="space-y-2">
+							<Label htmlFor="password">Password</Label>
+							<Input
+								id="password"
+								type="password"
+								value={formData.password}
+								onChange={(e) => handleChange("password", e.target.value)}
+								aria-invalid={!!errors.password}
+								aria-describedby={
+									errors.password ? "password-error" : undefined
+								}
+							/>
+							{errors.password && (
+								<p id="password-error" className="text-sm text-red-500">
+									{errors.password}
+								</p>
+							)}
+						</div>
+					) : signedInRecently ? (
+						<p className="text-sm text-muted-foreground">
+							You signed in recently, so you can confirm without a password.
+						</p>
+					) : (
+						<SignInAgain
+							callbackUrl="/account/privacy"
+							action="delete your account"
+						/>
+					)}
+					<div className="space-y-2">
+						<Label htmlFor="confirmation">Type DELETE to confirm</Label>
+						<Input
+							id="confirmation"
+							type="text"
+							value={formData.confirmation}
+							onChange={(e) => handleChange("confirmation", e.target.value)}
+							aria-invalid={!!errors.confirmation}
+							aria-describedby={
+								errors.confirmation ? "confirmation-error" : undefined
+							}
+						/>
+						{errors.confirmation && (
+							<p id="confirmation-error" className="text-sm text-red-500">
+								{errors.confirmation}
+							</p>
+						)}
+					</div>
+				</CardContent>
+				<CardFooter className="mt-6">
+					<Button
+						type="submit"
+						variant="destructive"
+						disabled={loading || (!hasPassword && !signedInRecently)}
+					>
+						{loading ? "Scheduling..." : "Delete Account"}
+					</Button>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
@@ -0,0 +1,144 @@
+import { ActionButton } from "@/components/action-button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { env } from "@/lib/env";
+import {
+	getAccountDeletion,
+	getDataExportUrl,
+	hasPassword,
+	listDataExports,
+} from "@/lib/privacy";
+import { hasRecentSignIn, requireUser } from "@/lib/session";
+import { SavedNotice } from "../saved-notice";
+import { cancelDeletion, exportData } from "./actions";
+import { DeleteAccountForm } from "./delete-account-form";
+
+const STATUS_LABELS: Record<string, string> = {
+	pending: "Preparing",
+	ready: "Ready",
+	failed: "Failed",
+	expired: "Expired",
+};
+
+export default async function AccountPrivacy({
+	searchParams,
+}: {
+	searchParams: Promise<{ saved?: string }>;
+}) {
+	const user = await requireUser("/account/privacy");
+	const [exports, deletion, passwordSet, signedInRecently, { saved }] =
+		await Promise.all([
+			listDataExports(user.id),
+			getAccountDeletion(user.id),
+			hasPassword(user.id),
+			hasRecentSignIn(),
+			searchParams,
+		]);
+	const now = new Date();
+
+	return (
+		<>
+			<SavedNotice saved={saved} />
+			<Card>
+				<CardHeader>
+					<CardTitle>Download My Data</CardTitle>
+					<CardDescription>
+						Get a copy of your profile, sign-in methods, sessions, security log,
+						organizations and API keys. Passwords, tokens and keys are never
+						included. We&apos;ll email you when it&apos;s ready; the download is
+						available for 7 days.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<div className="flex gap-2">
+						<ActionButton
+							action={exportData.bind(null, { format: "json" })}
+							label="Export as JSON"
+							pendingLabel="Requesting..."
+						/>
+						<ActionButton
+							action={exportData.bind(null, { format: "zip" })}
+							label="Export as ZIP"
+							pendingLabel="Requesting..."
+						/>
+					</div>
+					{exports.length > 0 && (
+						<ul className="divide-y">
+							{exports.map((dataExport) => {
+								const downloadable =
+									dataExport.status === "ready" &&
+									!!dataExport.expiresAt &&
+									dataExport.expiresAt > now;
+								// Until the hourly cleanup marks it expired
+								const status =
+									dataExport.status === "ready" && !downloadable
+										? "expired"
+										: dataExport.status;
+
+								return (
+									<li
+										key={dataExport.id}
+										className="flex items-center justify-between gap-4 py-4"
+									>
+										<div className="space-y-1">
+											<p className="text-sm font-medium">
+												{dataExport.format.toUpperCase()} export &middot;{" "}
+												{STATUS_LABELS[status]}
+											</p>
+											<p className="text-sm text-muted-foreground">
+												Requested {dataExport.createdAt.toLocaleString()}
+												{downloadable &&
+													dataExport.expiresAt &&
+													` · Available until ${dataExport.expiresAt.toLocaleDateString()}`}
+												{dataExport.size !== null &&
+													` · ${Math.ceil(dataExport.size / 1024)} KB`}
+											</p>
+										</div>
+										{downloadable && (
+											<a
+												href={getDataExportUrl(dataExport.id)}
+												className="text-sm underline"
+											>
+												Download
+											</a>
+										)}
+									</li>
+								);
+							})}
+						</ul>
+					)}
+				</CardContent>
+			</Card>
+			{deletion ? (
+				<Card className="border-red-200">
+					<CardHeader>
+						<CardTitle>Account Deletion Scheduled</CardTitle>
+						<CardDescription>
+							Your account and everything linked to it will be deleted on{" "}
+							{deletion.scheduledAt.toLocaleString()}. Cancel before then to
+							keep it.
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<ActionButton
+							action={cancelDeletion}
+							label="Cancel deletion"
+							pendingLabel="Canceling..."
+						/>
+					</CardContent>
+				</Card>
+			) : (
+				<DeleteAccountForm
+					graceDays={env.ACCOUNT_DELETION_GRACE_DAYS}
+					hasPassword={passwordSet}
+					signedInRecently={signedInRecently}
+				/>
+			)}
+		</>
+	);
+}
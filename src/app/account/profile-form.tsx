@@ -0,0 +1,64 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useActionForm } from "@/lib/hooks";
+import {
+	type UpdateProfileInput,
+	updateProfileSchema,
+} from "@/lib/validations";
+import { updateProfile } from "./actions";
+
+export function ProfileForm({ name }: { name: string }) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useActionForm({
+			schema: updateProfileSchema,
+			action: updateProfile,
+			initialData: { name } satisfies UpdateProfileInput,
+			redirectTo: "/account?saved=profile",
+		});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Profile</CardTitle>
+				<CardDescription>How your name appears across the app</CardDescription>
+			</CardHeader>
+			<form onSubmit={handleSubmit}>
+				<CardContent className="space-y-4">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					<div className="space-y-2">
+						<Label htmlFor="name">Name</Label>
+						<Input
+							id="name"
+							type="text"
+							value={formData.name}
+							onChange={(e) => handleChange("name", e.target.value)}
+							aria-invalid={!!errors.name}
+							aria-describedby={errors.name ? "name-error" : undefined}
+						/>
+						{errors.name && (
+							<p id="name-error" className="text-sm text-red-500">
+								{errors.name}
+							</p>
+						)}
+					</div>
+				</CardContent>
+				<CardFooter className="mt-6">
+					<Button type="submit" disabled={loading}>
+						{loading ? "Saving..." : "Save"}
+					</Button>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
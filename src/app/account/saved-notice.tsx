@@ -0,0 +1,21 @@
+const messages: Record<string, string> = {
+	profile: "Profile updated.",
+	email: "Check your new inbox for a link to confirm the change.",
+	password: "Password changed. Other devices have been signed out.",
+	"2fa-enabled": "Two-factor authentication is now on.",
+	"2fa-disabled": "Two-factor authentication has been turned off.",
+	"passkey-added": "Passkey added. You can now use it to sign in.",
+	"deletion-scheduled":
+		"Your account is scheduled for deletion. We've emailed you the details.",
+};
+
+export function SavedNotice({ saved }: { saved?: string }) {
+	const message = saved ? messages[saved] : undefined;
+	if (!message) return null;
+
+	return (
+		<p className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-700">
+			{message}
+		</p>
+	);
+}
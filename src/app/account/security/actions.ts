@@ -0,0 +1,109 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import QRCode from "qrcode";
+import { apiErrorResult, invalidResult } from "@/lib/action-result";
+import { auth } from "@/lib/auth";
+import {
+	type ActionResult,
+	type PasswordConfirmationInput,
+	passwordConfirmationSchema,
+	type TwoFactorCodeInput,
+	twoFactorCodeSchema,
+} from "@/lib/validations";
+
+export interface TwoFactorSetup {
+	/** QR code for the otpauth:// URI, as an inline SVG string */
+	qrCodeSvg: string;
+	/** Base32 secret for manual entry when the QR code can't be scanned */
+	secret: string;
+	backupCodes: string[];
+}
+
+/**
+ * Step 1 of enrolment: creates the TOTP secret. 2FA is not enforced
+ * until the first code is confirmed with `confirmTwoFactor`.
+ */
+export async function startTwoFactorSetup(
+	input: PasswordConfirmationInput,
+): Promise<ActionResult<TwoFactorSetup>> {
+	const parsed = passwordConfirmationSchema.safeParse(input);
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	try {
+		const { totpURI, backupCodes } = await auth.api.enableTwoFactor({
+			body: { password: parsed.data.password },
+			headers: await headers(),
+		});
+
+		return {
+			success: true,
+			data: {
+				qrCodeSvg: await QRCode.toString(totpURI, { type: "svg", margin: 1 }),
+				secret: new URL(totpURI).searchParams.get("secret") ?? "",
+				backupCodes,
+			},
+		};
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+}
+
+/**
+ * Step 2 of enrolment: verifying the first code turns 2FA on.
+ */
+export async function confirmTwoFactor(
+	input: TwoFactorCodeInput,
+): Promise<ActionResult> {
+	const parsed = twoFactorCodeSchema.safeParse(input);
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	try {
+		await auth.api.verifyTOTP({
+			body: { code: parsed.data.code },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/account/security");
+	return { success: true, message: "Two-factor authentication enabled" };
+}
+
+export async function disableTwoFactor(
+	input: PasswordConfirmationInput,
+): Promise<ActionResult> {
+	const parsed = passwordConfirmationSchema.safeParse(input);
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	try {
+		await auth.api.disableTwoFactor({
+			body: { password: parsed.data.password },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/account/security");
+	return { success: true, message: "Two-factor authentication disabled" };
+}
+
+export async function regenerateBackupCodes(
+	input: PasswordConfirmationInput,
+): Promise<ActionResult<string[]>> {
+	const parsed = passwordConfirmationSchema.safeParse(input);
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	try {
+		const { backupCodes } = await auth.api.generateBackupCodes({
+			body: { password: parsed.data.password },
+			headers: await headers(),
+		});
+		return { success: true, data: backupCodes };
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fromActionResult, useAuthForm } from "@/lib/hooks";
+import {
+	type ChangePasswordInput,
+	changePasswordSchema,
+} from "@/lib/validations";
+import { changePassword } from "../actions";
+
+const fields = [
+	{ name: "currentPassword", label: "Current Password" },
+	{ name: "newPassword", label: "New Password" },
+	{ name: "confirmPassword", label: "Confirm New Password" },
+] as const;
+
+export function ChangePasswordForm() {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof changePasswordSchema>({
+			schema: changePasswordSchema,
+			initialData: {
+				currentPassword: "",
+				newPassword: "",
+				confirmPassword: "",
+			} satisfies ChangePasswordInput,
+			onSubmit: async (data) => fromActionResult(await changePassword(data)),
+			redirectTo: "/account/security?saved=password",
+		});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Password</CardTitle>
+				<CardDescription>
+					Changing your password signs out your other devices
+				</CardDescription>
+			</CardHeader>
+			<form onSubmit={handleSubmit}>
+				<CardContent className="space-y-4">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					{fields.map((field) => (
+						<div key={field.name} className="space-y-2">
+							<Label htmlFor={field.name}>{field.label}</Label>
+							<Input
+								id={field.name}
+								type="password"
+								value={formData[field.name]}
+								onChange={(e) => handleChange(field.name, e.target.value)}
+								aria-invalid={!!errors[field.name]}
+								aria-describedby={
+									errors[field.name] ? `${field.name}-error` : undefined
+								}
+							/>
+							{errors[field.name] && (
+								<p id={`${field.name}-error`} className="text-sm text-red-500">
+									{errors[field.name]}
+								</p>
+							)}
+						</div>
+					))}
+				</CardContent>
+				<CardFooter className="mt-6">
+					<Button type="submit" disabled={loading}>
+						{loading ? "Saving..." : "Change Password"}
+					</Button>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
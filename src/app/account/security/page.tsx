@@ -0,0 +1,20 @@
+import { getSession } from "@/lib/session";
+import { SavedNotice } from "../saved-notice";
+import { ChangePasswordForm } from "./change-password-form";
+import { TwoFactorSettings } from "./two-factor-settings";
+
+export default async function AccountSecurity({
+	searchParams,
+}: {
+	searchParams: Promise<{ saved?: string }>;
+}) {
+	const [session, { saved }] = await Promise.all([getSession(), searchParams]);
+
+	return (
+		<>
+			<SavedNotice saved={saved} />
+			<ChangePasswordForm />
+			<TwoFactorSettings enabled={!!session?.user.twoFactorEnabled} />
+		</>
+	);
+}
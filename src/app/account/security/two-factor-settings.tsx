@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fromActionResult, useAuthForm } from "@/lib/hooks";
+import {
+	type PasswordConfirmationInput,
+	passwordConfirmationSchema,
+	type TwoFactorCodeInput,
+	twoFactorCodeSchema,
+} from "@/lib/validations";
+import {
+	confirmTwoFactor,
+	disableTwoFactor,
+	regenerateBackupCodes,
+	startTwoFactorSetup,
+	type TwoFactorSetup,
+} from "./actions";
+
+interface PasswordStepProps {
+	id: string;
+	submitLabel: string;
+	pendingLabel: string;
+	variant?: "default" | "outline" | "destructive";
+	onConfirm: (
+		data: PasswordConfirmationInput,
+	) => Promise<{ error?: { message?: string } }>;
+	redirectTo: string | false;
+}
+
+function PasswordStep({
+	id,
+	submitLabel,
+	pendingLabel,
+	variant,
+	onConfirm,
+	redirectTo,
+}: PasswordStepProps) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof passwordConfirmationSchema>({
+			schema: passwordConfirmationSchema,
+			initialData: { password: "" } satisfies PasswordConfirmationInput,
+			onSubmit: onConfirm,
+			redirectTo,
+		});
+
+	return (
+		<form onSubmit={handleSubmit} className="space-y-2">
+			{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+			<Label htmlFor={id}>Password</Label>
+			<div className="flex gap-2">
+				<Input
+					id={id}
+					type="password"
+					value={formData.password}
+					onChange={(e) => handleChange("password", e.target.value)}
+					aria-invalid={!!errors.password}
+					aria-describedby={errors.password ? `${id}-error` : undefined}
+				/>
+				<Button type="submit" variant={variant} disabled={loading}>
+					{loading ? pendingLabel : submitLabel}
+				</Button>
+			</div>
+			{errors.password && (
+				<p id={`${id}-error`} className="text-sm text-red-500">
+					{errors.password}
+				</p>
+			)}
+		</form>
+	);
+}
+
+function BackupCodeList({ codes }: { codes: string[] }) {
+	return (
+		<div className="space-y-2">
+			<p className="text-sm text-muted-foreground">
+				Save these backup codes somewhere safe. Each one can be used once if you
+				lose access to your authenticator app.
+			</p>
+			<ul className="grid grid-cols-2 gap-1 rounded-md bg-muted p-3 font-mono text-sm">
+				{codes.map((code) => (
+					<li key={code}>{code}</li>
+				))}
+			</ul>
+		</div>
+	);
+}
+
+function ConfirmSetup({ setup }: { setup: TwoFactorSetup }) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof twoFactorCodeSchema>({
+			schema: twoFactorCodeSchema,
+			initialData: { code: "" } satisfies TwoFactorCodeInput,
+			onSubmit: async (data) => fromActionResult(await confirmTwoFactor(data)),
+			redirectTo: "/account/security?saved=2fa-enabled",
+		});
+
+	return (
+		<div className="space-y-4">
+			<p className="text-sm">
+				Scan this QR code with your authenticator app, then enter the code it
+				shows.
+			</p>
+			{/* biome-ignore lint/performance/noImgElement: inline data URL, nothing for next/image to optimise */}
+			<img
+				src={`data:image/svg+xml;utf8,${encodeURIComponent(setup.qrCodeSvg)}`}
+				alt="QR code for your authenticator app"
+				className="size-48 rounded-md border"
+			/>
+			<p className="text-sm text-muted-foreground">
+				Can&apos;t scan it? Enter this key manually:{" "}
+				<code className="break-all font-mono">{setup.secret}</code>
+			</p>
+			<BackupCodeList codes={setup.backupCodes} />
+			<form onSubmit={handleSubmit} className="space-y-2">
+				{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+				<Label htmlFor="code">Authentication Code</Label>
+				<div className="flex gap-2">
+					<Input
+						id="code"
+						type="text"
+						inputMode="numeric"
+						autoComplete="one-time-code"
+						value={formData.code}
+						onChange={(e) => handleChange("code", e.target.value)}
+						aria-invalid={!!errors.code}
+						aria-describedby={errors.code ? "code-error" : undefined}
+					/>
+					<Button type="submit" disabled={loading}>
+						{loading ? "Verifying..." : "Enable"}
+					</Button>
+				</div>
+				{errors.code && (
+					<p id="code-error" className="text-sm text-red-500">
+						{errors.code}
+					</p>
+				)}
+			</form>
+		</div>
+	);
+}
+
+export function TwoFactorSettings({ enabled }: { enabled: boolean }) {
+	const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+	const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Two-Factor Authentication</CardTitle>
+				<CardDescription>
+					{enabled
+						? "Enabled. You'll be asked for a code from your authenticator app when signing in."
+						: "Add a second step to sign-in using an authenticator app."}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{!enabled && !setup && (
+					<PasswordStep
+						id="enable-2fa-password"
+						submitLabel="Set Up"
+						pendingLabel="Starting..."
+						redirectTo={false}
+						onConfirm={async (data) => {
+							const result = await startTwoFactorSetup(data);
+							if (result.data) setSetup(result.data);
+							return fromActionResult(result);
+						}}
+					/>
+				)}
+				{!enabled && setup && <ConfirmSetup setup={setup} />}
+				{enabled && (
+					<>
+						{backupCodes ? (
+							<BackupCodeList codes={backupCodes} />
+						) : (
+							<div className="space-y-2">
+								<p className="text-sm font-medium">Backup codes</p>
+								<PasswordStep
+									id="backup-codes-password"
+									submitLabel="Generate New Codes"
+									pendingLabel="Generating..."
+									variant="outline"
+									redirectTo={false}
+									onConfirm={async (data) => {
+										const result = await regenerateBackupCodes(data);
+										if (result.data) setBackupCodes(result.data);
+										return fromActionResult(result);
+									}}
+								/>
+							</div>
+						)}
+						<div className="space-y-2">
+							<p className="text-sm font-medium">Turn off</p>
+							<PasswordStep
+								id="disable-2fa-password"
+								submitLabel="Disable"
+								pendingLabel="Disabling..."
+								variant="destructive"
+								redirectTo="/account/security?saved=2fa-disabled"
+								onConfirm={async (data) =>
+									fromActionResult(await disableTwoFactor(data))
+								}
+							/>
+						</div>
+					</>
+				)}
+			</CardContent>
+			{setup && !enabled && (
+				<CardFooter>
+					<Button variant="ghost" size="sm" onClick={() => setSetup(null)}>
+						Cancel
+					</Button>
+				</CardFooter>
+			)}
+		</Card>
+	);
+}
@@ -0,0 +1,45 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { apiErrorResult } from "@/lib/action-result";
+import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import type { ActionResult } from "@/lib/validations";
+
+export async function revokeSession(sessionId: string): Promise<ActionResult> {
+	const current = await getSession();
+	if (!current) return { success: false, message: "You are not signed in" };
+	if (current.session.id === sessionId) {
+		return { success: false, message: "Use Sign Out to end this session" };
+	}
+
+	try {
+		const requestHeaders = await headers();
+		// Look the token up server-side so it never reaches the browser
+		const sessions = await auth.api.listSessions({ headers: requestHeaders });
+		const target = sessions.find((session) => session.id === sessionId);
+		if (!target) return { success: false, message: "Session not found" };
+
+		await auth.api.revokeSession({
+			body: { token: target.token },
+			headers: requestHeaders,
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/account/sessions");
+	return { success: true, message: "Session revoked" };
+}
+
+export async function revokeOtherSessions(): Promise<ActionResult> {
+	try {
+		await auth.api.revokeOtherSessions({ headers: await headers() });
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/account/sessions");
+	return { success: true, message: "Signed out of all other devices" };
+}
@@ -0,0 +1,92 @@
+import { headers } from "next/headers";
+import { ActionButton } from "@/components/action-button";
+import {
+	Card,
+	CardAction,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { parseUserAgent } from "@/lib/user-agent";
+import { formatRelativeTime } from "@/lib/utils";
+import { revokeOtherSessions, revokeSession } from "./actions";
+
+export default async function AccountSessions() {
+	const [current, sessions] = await Promise.all([
+		getSession(),
+		auth.api.listSessions({ headers: await headers() }),
+	]);
+
+	// Current device first, then most recently active
+	const sorted = [...sessions].sort((a, b) => {
+		if (a.id === current?.session.id) return -1;
+		if (b.id === current?.session.id) return 1;
+		return b.updatedAt.getTime() - a.updatedAt.getTime();
+	});
+	const hasOthers = sorted.length > 1;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Devices &amp; Sessions</CardTitle>
+				<CardDescription>
+					Devices currently signed in to your account
+				</CardDescription>
+				{hasOthers && (
+					<CardAction>
+						<ActionButton
+							action={revokeOtherSessions}
+							label="Sign out other devices"
+							pendingLabel="Signing out..."
+							variant="destructive"
+						/>
+					</CardAction>
+				)}
+			</CardHeader>
+			<CardContent>
+				<ul className="divide-y">
+					{sorted.map((session) => {
+						const { browser, os, mobile } = parseUserAgent(session.userAgent);
+						const isCurrent = session.id === current?.session.id;
+
+						return (
+							<li
+								key={session.id}
+								className="flex items-center justify-between gap-4 py-4"
+							>
+								<div className="space-y-1">
+									<p className="text-sm font-medium">
+										{browser} on {os}
+										{mobile && " (mobile)"}
+										{isCurrent && (
+											<span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-700">
+												This device
+											</span>
+										)}
+									</p>
+									<p className="text-sm text-muted-foreground">
+										{session.ipAddress ?? "Unknown IP"} &middot;{" "}
+										{isCurrent
+											? "Active now"
+											: `Last active ${formatRelativeTime(session.updatedAt)}`}{" "}
+										&middot; Signed in {session.createdAt.toLocaleDateString()}
+									</p>
+								</div>
+								{!isCurrent && (
+									<ActionButton
+										action={revokeSession.bind(null, session.id)}
+										label="Revoke"
+										pendingLabel="Revoking..."
+									/>
+								)}
+							</li>
+						);
+					})}
+				</ul>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,25 @@
+import Link from "next/link";
+import { buildSignInUrl } from "@/lib/routes";
+
+/**
+ * Asks for a fresh sign-in before a change that needs one (see
+ * `hasRecentSignIn`), returning to `callbackUrl` afterwards.
+ */
+export function SignInAgain({
+	callbackUrl,
+	action,
+}: {
+	callbackUrl: string;
+	/** What the user can do after signing in, e.g. "create a key" */
+	action: string;
+}) {
+	return (
+		<p className="text-sm text-muted-foreground">
+			To confirm it&apos;s you,{" "}
+			<Link href={buildSignInUrl(callbackUrl)} className="underline">
+				sign in again
+			</Link>{" "}
+			and then {action} right away.
+		</p>
+	);
+}
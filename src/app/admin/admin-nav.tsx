@@ -0,0 +1,36 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { cn } from "@/lib/utils";
+
+const items = [
+	{ href: "/admin/users", label: "Users" },
+	{ href: "/admin/events", label: "Auth Events" },
+	{ href: "/admin/audit", label: "Audit Log" },
+	{ href: "/admin/webhooks", label: "Webhooks" },
+	{ href: "/admin/jobs", label: "Jobs" },
+];
+
+export function AdminNav() {
+	const pathname = usePathname();
+
+	return (
+		<nav className="flex gap-1 md:flex-col">
+			{items.map((item) => (
+				<Link
+					key={item.href}
+					href={item.href}
+					className={cn(
+						"rounded-md px-3 py-2 text-sm hover:bg-accent",
+						pathname === item.href
+							? "bg-accent font-medium"
+							: "text-muted-foreground",
+					)}
+				>
+					{item.label}
+				</Link>
+			))}
+		</nav>
+	);
+}
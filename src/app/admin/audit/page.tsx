@@ -0,0 +1,62 @@
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { listAdminActions } from "@/lib/admin";
+import { paginationSchema } from "@/lib/validations";
+import { Pagination } from "../pagination";
+
+const labels: Record<string, string> = {
+	"user.set-role": "changed the role of",
+	"user.ban": "banned",
+	"user.unban": "unbanned",
+	"user.revoke-sessions": "signed out",
+	"user.impersonate": "started impersonating",
+	"user.stop-impersonating": "stopped impersonating",
+};
+
+export default async function AdminAudit({
+	searchParams,
+}: {
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const parsed = paginationSchema.safeParse(await searchParams);
+	const entries = await listAdminActions(
+		parsed.success ? parsed.data : paginationSchema.parse({}),
+	);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Audit Log</CardTitle>
+				<CardDescription>Actions taken by admins, newest first</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{entries.items.length === 0 ? (
+					<p className="text-sm text-muted-foreground">No admin actions yet.</p>
+				) : (
+					<ul className="divide-y">
+						{entries.items.map((entry) => (
+							<li key={entry.id} className="space-y-1 py-3">
+								<p className="text-sm">
+									<span className="font-medium">{entry.actorEmail}</span>{" "}
+									{labels[entry.action] ?? entry.action}{" "}
+									<span className="font-medium">{entry.targetEmail}</span>
+								</p>
+								<p className="text-sm text-muted-foreground">
+									{entry.createdAt.toLocaleString()}
+									{entry.ipAddress && ` · ${entry.ipAddress}`}
+									{entry.details && ` · ${JSON.stringify(entry.details)}`}
+								</p>
+							</li>
+						))}
+					</ul>
+				)}
+				<Pagination meta={entries.meta} />
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,86 @@
+import { AUTH_EVENT_LABELS, AuthEventList } from "@/components/auth-event-list";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardAction,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { listAuthEvents } from "@/lib/auth-events";
+import { AUTH_EVENT_TYPES, authEventFilterSchema } from "@/lib/validations";
+import { Pagination } from "../pagination";
+
+export default async function AdminEvents({
+	searchParams,
+}: {
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const parsed = authEventFilterSchema.safeParse(await searchParams);
+	const filter = parsed.success ? parsed.data : authEventFilterSchema.parse({});
+	const events = await listAuthEvents(filter);
+
+	function exportHref(format: "csv" | "json") {
+		const query = new URLSearchParams({ format });
+		if (filter.q) query.set("q", filter.q);
+		if (filter.type) query.set("type", filter.type);
+		return `/api/admin/auth-events?${query}`;
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Auth Events</CardTitle>
+				<CardDescription>
+					Sign-ins, sign-outs and credential changes across all users
+				</CardDescription>
+				<CardAction className="flex gap-2">
+					<Button variant="outline" size="sm" asChild>
+						<a href={exportHref("csv")}>Export CSV</a>
+					</Button>
+					<Button variant="outline" size="sm" asChild>
+						<a href={exportHref("json")}>Export JSON</a>
+					</Button>
+				</CardAction>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<form className="flex gap-2">
+					<Input
+						name="q"
+						type="search"
+						placeholder="Email or IP address"
+						defaultValue={filter.q}
+						aria-label="Search events"
+					/>
+					<select
+						name="type"
+						aria-label="Event type"
+						className="h-9 rounded-md border bg-transparent px-2 text-sm"
+						defaultValue={filter.type ?? ""}
+					>
+						<option value="">All events</option>
+						{AUTH_EVENT_TYPES.map((type) => (
+							<option key={type} value={type}>
+								{AUTH_EVENT_LABELS[type]}
+							</option>
+						))}
+					</select>
+					<Button type="submit" variant="outline">
+						Filter
+					</Button>
+				</form>
+				{events.items.length === 0 ? (
+					<p className="text-sm text-muted-foreground">No matching events.</p>
+				) : (
+					<AuthEventList events={events.items} showEmail />
+				)}
+				<Pagination
+					meta={events.meta}
+					params={{ q: filter.q, type: filter.type }}
+				/>
+			</CardContent>
+		</Card>
+	);
+}
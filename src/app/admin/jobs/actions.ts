@@ -0,0 +1,33 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prismaErrorResult } from "@/lib/action-result";
+import { deleteJob, retryJob } from "@/lib/jobs";
+import { requireRole } from "@/lib/session";
+import type { ActionResult } from "@/lib/validations";
+
+export async function retry(jobId: string): Promise<ActionResult> {
+	await requireRole("admin");
+
+	try {
+		await retryJob(jobId);
+	} catch (error) {
+		return prismaErrorResult(error);
+	}
+
+	revalidatePath("/admin/jobs");
+	return { success: true, message: "Job queued" };
+}
+
+export async function remove(jobId: string): Promise<ActionResult> {
+	await requireRole("admin");
+
+	try {
+		await deleteJob(jobId);
+	} catch (error) {
+		return prismaErrorResult(error);
+	}
+
+	revalidatePath("/admin/jobs");
+	return { success: true, message: "Job deleted" };
+}
@@ -0,0 +1,163 @@
+import Link from "next/link";
+import { ActionButton } from "@/components/action-button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { countJobsByStatus, listJobs } from "@/lib/jobs";
+import { CRON_SCHEDULES, nextCronRun } from "@/lib/jobs/cron";
+import { cn } from "@/lib/utils";
+import { JOB_STATUSES, jobFilterSchema } from "@/lib/validations";
+import { Pagination } from "../pagination";
+import { StatusBadge } from "../status-badge";
+import { remove, retry } from "./actions";
+
+export default async function AdminJobs({
+	searchParams,
+}: {
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const parsed = jobFilterSchema.safeParse(await searchParams);
+	const filter = parsed.success ? parsed.data : jobFilterSchema.parse({});
+	const [jobs, counts] = await Promise.all([
+		listJobs(filter),
+		countJobsByStatus(),
+	]);
+
+	function filterHref(status?: string) {
+		const query = new URLSearchParams();
+		if (status) query.set("status", status);
+		if (filter.name) query.set("name", filter.name);
+		return `?${query}`;
+	}
+
+	return (
+		<>
+			<Card>
+				<CardHeader>
+					<CardTitle>Jobs</CardTitle>
+					<CardDescription>
+						Background work such as emails and webhook deliveries. Failed jobs
+						are retried automatically until they run out of attempts.
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<nav className="flex flex-wrap gap-2 text-sm">
+						{[undefined, ...JOB_STATUSES].map((status) => (
+							<Link
+								key={status ?? "all"}
+								href={filterHref(status)}
+								className={cn(
+									"rounded-md border px-3 py-1 hover:bg-accent",
+									filter.status === status && "bg-accent font-medium",
+								)}
+							>
+								{status ?? "all"}
+								{status && ` (${counts[status] ?? 0})`}
+							</Link>
+						))}
+					</nav>
+					{jobs.items.length === 0 ? (
+						<p className="text-sm text-muted-foreground">No jobs.</p>
+					) : (
+						<ul className="divide-y">
+							{jobs.items.map((job) => (
+								<li
+									key={job.id}
+									className="flex flex-wrap items-start justify-between gap-4 py-4"
+								>
+									<div className="min-w-0 space-y-1">
+										<p className="text-sm font-medium">
+											<Link
+												href={`?name=${encodeURIComponent(job.name)}`}
+												className="font-mono hover:underline"
+											>
+												{job.name}
+											</Link>{" "}
+											<StatusBadge status={job.status} />
+										</p>
+										<p className="text-sm text-muted-foreground">
+											Attempt {job.attempts} of {job.maxAttempts} &middot;{" "}
+											{job.status === "completed" && job.completedAt
+												? `Finished ${job.completedAt.toLocaleString()}`
+												: job.status === "queued"
+													? `Runs ${job.runAt.toLocaleString()}`
+													: `Updated ${job.updatedAt.toLocaleString()}`}
+											{job.lockedBy && ` · on ${job.lockedBy}`}
+										</p>
+										{job.lastError && (
+											<details className="text-sm">
+												<summary className="cursor-pointer break-all text-red-500">
+													{job.lastError.split("\n")[0]}
+												</summary>
+												<pre className="mt-2 overflow-x-auto rounded-md bg-muted p-2 text-xs">
+													{job.lastError}
+												</pre>
+											</details>
+										)}
+										<details className="text-sm">
+											<summary className="cursor-pointer text-muted-foreground">
+												Payload
+											</summary>
+											<pre className="mt-2 overflow-x-auto rounded-md bg-muted p-2 text-xs">
+												{JSON.stringify(job.payload, null, 2)}
+											</pre>
+										</details>
+									</div>
+									<div className="flex gap-2">
+										{job.status === "failed" && (
+											<ActionButton
+												action={retry.bind(null, job.id)}
+												label="Retry"
+												pendingLabel="Queuing..."
+											/>
+										)}
+										{job.status !== "running" && (
+											<ActionButton
+												action={remove.bind(null, job.id)}
+												label="Delete"
+												pendingLabel="Deleting..."
+												variant="destructive"
+											/>
+										)}
+									</div>
+								</li>
+							))}
+						</ul>
+					)}
+					<Pagination
+						meta={jobs.meta}
+						params={{ status: filter.status, name: filter.name }}
+					/>
+				</CardContent>
+			</Card>
+			<Card>
+				<CardHeader>
+					<CardTitle>Schedules</CardTitle>
+					<CardDescription>Cron jobs, in UTC</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<ul className="divide-y">
+						{CRON_SCHEDULES.map((schedule) => (
+							<li key={schedule.job} className="space-y-1 py-3">
+								<p className="text-sm font-medium">
+									<code className="font-mono">{schedule.job}</code>{" "}
+									<code className="font-mono text-muted-foreground">
+										{schedule.cron}
+									</code>
+								</p>
+								<p className="text-sm text-muted-foreground">
+									{schedule.description} &middot; Next run{" "}
+									{nextCronRun(schedule).toLocaleString()}
+								</p>
+							</li>
+						))}
+					</ul>
+				</CardContent>
+			</Card>
+		</>
+	);
+}
@@ -0,0 +1,20 @@
+import { requireRole } from "@/lib/session";
+import { AdminNav } from "./admin-nav";
+
+export default async function AdminLayout({
+	children,
+}: Readonly<{
+	children: React.ReactNode;
+}>) {
+	await requireRole("admin", "/admin");
+
+	return (
+		<main className="container mx-auto px-4 py-8">
+			<h1 className="text-2xl font-bold">Admin</h1>
+			<div className="mt-6 grid gap-8 md:grid-cols-[200px_1fr]">
+				<AdminNav />
+				<div className="min-w-0 space-y-6">{children}</div>
+			</div>
+		</main>
+	);
+}
@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+interface PaginationProps {
+	meta: { page: number; totalPages: number; total: number };
+	/** Query parameters to keep when changing page (e.g. the search term) */
+	params?: Record<string, string | undefined>;
+}
+
+export function Pagination({ meta, params = {} }: PaginationProps) {
+	function pageHref(page: number) {
+		const query = new URLSearchParams();
+		for (const [key, value] of Object.entries(params)) {
+			if (value) query.set(key, value);
+		}
+		query.set("page", String(page));
+		return `?${query}`;
+	}
+
+	return (
+		<div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+			<span>
+				Page {meta.page} of {Math.max(meta.totalPages, 1)} &middot; {meta.total}{" "}
+				total
+			</span>
+			<div className="flex gap-2">
+				{meta.page > 1 && (
+					<Button variant="outline" size="sm" asChild>
+						<Link href={pageHref(meta.page - 1)}>Previous</Link>
+					</Button>
+				)}
+				{meta.page < meta.totalPages && (
+					<Button variant="outline" size="sm" asChild>
+						<Link href={pageHref(meta.page + 1)}>Next</Link>
+					</Button>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,19 @@
+import { cn } from "@/lib/utils";
+
+const styles: Record<string, string> = {
+	pending: "bg-amber-100 text-amber-700",
+	queued: "bg-amber-100 text-amber-700",
+	running: "bg-blue-100 text-blue-700",
+	delivered: "bg-green-100 text-green-700",
+	completed: "bg-green-100 text-green-700",
+	failed: "bg-red-100 text-red-700",
+};
+
+/** Status of a job or webhook delivery */
+export function StatusBadge({ status }: { status: string }) {
+	return (
+		<span className={cn("rounded-full px-2 py-0.5 text-xs", styles[status])}>
+			{status}
+		</span>
+	);
+}
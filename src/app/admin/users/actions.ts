@@ -0,0 +1,217 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { apiErrorResult, invalidResult } from "@/lib/action-result";
+import { recordAdminAction } from "@/lib/admin";
+import { auth } from "@/lib/auth";
+import { getClientIp } from "@/lib/client-ip";
+import { prisma } from "@/lib/prisma";
+import { getSession, requireRole } from "@/lib/session";
+import {
+	type ActionResult,
+	banUserSchema,
+	type SetRoleInput,
+	setRoleSchema,
+} from "@/lib/validations";
+
+const DAY_SECONDS = 60 * 60 * 24;
+
+/**
+ * Admin making the request, the target user, and request headers.
+ * Refuses to act on the admin's own account.
+ */
+async function resolveTarget(userId: string) {
+	const admin = await requireRole("admin");
+	if (admin.id === userId) {
+		return { error: "You can't do this to your own account" } as const;
+	}
+
+	const target = await prisma.user.findUnique({
+		where: { id: userId },
+		select: { id: true, email: true },
+	});
+	if (!target) return { error: "User not found" } as const;
+
+	const requestHeaders = await headers();
+	return {
+		admin,
+		target,
+		requestHeaders,
+		ipAddress: getClientIp(requestHeaders),
+	};
+}
+
+export async function setUserRole(
+	userId: string,
+	input: SetRoleInput,
+): Promise<ActionResult> {
+	const parsed = setRoleSchema.safeParse(input);
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	const context = await resolveTarget(userId);
+	if ("error" in context) return { success: false, message: context.error };
+	const { admin, target, requestHeaders, ipAddress } = context;
+
+	try {
+		await auth.api.setRole({
+			body: { userId, role: parsed.data.role },
+			headers: requestHeaders,
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	await recordAdminAction({
+		action: "user.set-role",
+		actor: admin,
+		target,
+		details: { role: parsed.data.role },
+		ipAddress,
+	});
+	revalidatePath("/admin/users");
+	return { success: true, message: `Role changed to ${parsed.data.role}` };
+}
+
+export async function banUser(
+	userId: string,
+	_previous: ActionResult | null,
+	formData: FormData,
+): Promise<ActionResult> {
+	const parsed = banUserSchema.safeParse({
+		reason: formData.get("reason"),
+		expiresInDays: formData.get("expiresInDays"),
+	});
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	const context = await resolveTarget(userId);
+	if ("error" in context) return { success: false, message: context.error };
+	const { admin, target, requestHeaders, ipAddress } = context;
+	const { reason, expiresInDays } = parsed.data;
+
+	try {
+		// Also revokes every session the user has
+		await auth.api.banUser({
+			body: {
+				userId,
+				banReason: reason,
+				banExpiresIn: expiresInDays && expiresInDays * DAY_SECONDS,
+			},
+			headers: requestHeaders,
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	await recordAdminAction({
+		action: "user.ban",
+		actor: admin,
+		target,
+		details: { reason: reason ?? null, expiresInDays: expiresInDays ?? null },
+		ipAddress,
+	});
+	revalidatePath("/admin/users");
+	return { success: true, message: "User banned" };
+}
+
+export async function unbanUser(userId: string): Promise<ActionResult> {
+	const context = await resolveTarget(userId);
+	if ("error" in context) return { success: false, message: context.error };
+	const { admin, target, requestHeaders, ipAddress } = context;
+
+	try {
+		await auth.api.unbanUser({ body: { userId }, headers: requestHeaders });
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	await recordAdminAction({
+		action: "user.unban",
+		actor: admin,
+		target,
+		ipAddress,
+	});
+	revalidatePath("/admin/users");
+	return { success: true, message: "User unbanned" };
+}
+
+export async function revokeUserSessions(
+	userId: string,
+): Promise<ActionResult> {
+	const context = await resolveTarget(userId);
+	if ("error" in context) return { success: false, message: context.error };
+	const { admin, target, requestHeaders, ipAddress } = context;
+
+	try {
+		await auth.api.revokeUserSessions({
+			body: { userId },
+			headers: requestHeaders,
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	await recordAdminAction({
+		action: "user.revoke-sessions",
+		actor: admin,
+		target,
+		ipAddress,
+	});
+	return { success: true, message: "User signed out everywhere" };
+}
+
+export async function impersonateUser(userId: string): Promise<ActionResult> {
+	const context = await resolveTarget(userId);
+	if ("error" in context) return { success: false, message: context.error };
+	const { admin, target, requestHeaders, ipAddress } = context;
+
+	try {
+		// Swaps the session cookie; the admin's own session is kept aside
+		// and restored by stopImpersonating
+		await auth.api.impersonateUser({
+			body: { userId },
+			headers: requestHeaders,
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	await recordAdminAction({
+		action: "user.impersonate",
+		actor: admin,
+		target,
+		ipAddress,
+	});
+	return { success: true, message: `Signed in as ${target.email}` };
+}
+
+/**
+ * Ends an impersonation session. Checked against the session rather than
+ * the role, since the impersonated user is usually not an admin.
+ */
+export async function stopImpersonating(): Promise<ActionResult> {
+	const current = await getSession();
+	const adminId = current?.session.impersonatedBy;
+	if (!current || !adminId) {
+		return { success: false, message: "You are not impersonating anyone" };
+	}
+
+	const requestHeaders = await headers();
+	try {
+		await auth.api.stopImpersonating({ headers: requestHeaders });
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	const admin = await prisma.user.findUnique({
+		where: { id: adminId },
+		select: { id: true, email: true },
+	});
+	await recordAdminAction({
+		action: "user.stop-impersonating",
+		actor: admin ?? { id: adminId, email: "" },
+		target: { id: current.user.id, email: current.user.email },
+		ipAddress: getClientIp(requestHeaders),
+	});
+	return { success: true, message: "Impersonation ended" };
+}
@@ -0,0 +1,94 @@
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { listUsers } from "@/lib/admin";
+import { getCurrentUser } from "@/lib/session";
+import { searchSchema } from "@/lib/validations";
+import { Pagination } from "../pagination";
+import { UserActions } from "./user-actions";
+
+export default async function AdminUsers({
+	searchParams,
+}: {
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	// Invalid page/limit values fall back to the defaults
+	const parsed = searchSchema.safeParse(await searchParams);
+	const query = parsed.success ? parsed.data : searchSchema.parse({});
+	const [currentUser, users] = await Promise.all([
+		getCurrentUser(),
+		listUsers(query),
+	]);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Users</CardTitle>
+				<CardDescription>
+					Change roles, ban accounts, sign users out or view the app as them
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<form className="flex gap-2">
+					<Input
+						name="q"
+						type="search"
+						placeholder="Search by name or email"
+						defaultValue={query.q}
+						aria-label="Search users"
+					/>
+					<Button type="submit" variant="outline">
+						Search
+					</Button>
+				</form>
+				{users.items.length === 0 ? (
+					<p className="text-sm text-muted-foreground">No users found.</p>
+				) : (
+					<ul className="divide-y">
+						{users.items.map((user) => (
+							<li
+								key={user.id}
+								className="flex flex-wrap items-start justify-between gap-4 py-4"
+							>
+								<div className="space-y-1">
+									<p className="text-sm font-medium">
+										{user.name}
+										{user.role === "admin" && (
+											<span className="ml-2 rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-700">
+												Admin
+											</span>
+										)}
+										{user.banned && (
+											<span className="ml-2 rounded-full bg-red-100 px-2 py-0.5 text-xs text-red-700">
+												Banned
+											</span>
+										)}
+									</p>
+									<p className="text-sm text-muted-foreground">
+										{user.email} &middot; Joined{" "}
+										{user.createdAt.toLocaleDateString()}
+									</p>
+									{user.banned && (
+										<p className="text-sm text-muted-foreground">
+											{user.banReason ?? "No reason given"}
+											{user.banExpires &&
+												` · until ${user.banExpires.toLocaleDateString()}`}
+										</p>
+									)}
+								</div>
+								{user.id !== currentUser?.id && <UserActions user={user} />}
+							</li>
+						))}
+					</ul>
+				)}
+				<Pagination meta={users.meta} params={{ q: query.q }} />
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useActionState, useState, useTransition } from "react";
+import { ActionButton } from "@/components/action-button";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { authClient } from "@/lib/auth-client";
+import {
+	type ActionResult,
+	type AdminUser,
+	type Role,
+	USER_ROLES,
+} from "@/lib/validations";
+import {
+	banUser,
+	impersonateUser,
+	revokeUserSessions,
+	setUserRole,
+	unbanUser,
+} from "./actions";
+
+function RoleSelect({ user }: { user: AdminUser }) {
+	const [pending, startTransition] = useTransition();
+	const [error, setError] = useState("");
+
+	function handleChange(role: Role) {
+		setError("");
+		startTransition(async () => {
+			const result = await setUserRole(user.id, { role });
+			if (!result.success) setError(result.message ?? "An error occurred");
+		});
+	}
+
+	return (
+		<div className="flex flex-col items-end gap-1">
+			<select
+				aria-label={`Role for ${user.email}`}
+				className="h-8 rounded-md border bg-transparent px-2 text-sm"
+				value={user.role}
+				disabled={pending}
+				onChange={(e) => handleChange(e.target.value as Role)}
+			>
+				{USER_ROLES.map((role) => (
+					<option key={role} value={role}>
+						{role}
+					</option>
+				))}
+			</select>
+			{error && <p className="text-sm text-red-500">{error}</p>}
+		</div>
+	);
+}
+
+function BanForm({ userId, onClose }: { userId: string; onClose: () => void }) {
+	const [state, formAction, pending] = useActionState(
+		async (previous: ActionResult | null, formData: FormData) => {
+			const result = await banUser(userId, previous, formData);
+			if (result.success) onClose();
+			return result;
+		},
+		null,
+	);
+	const error = state?.success
+		? undefined
+		: (state?.errors?.reason?.[0] ??
+			state?.errors?.expiresInDays?.[0] ??
+			state?.message);
+
+	return (
+		<form action={formAction} className="flex w-full flex-col gap-2">
+			<div className="flex gap-2">
+				<Input
+					name="reason"
+					placeholder="Reason (optional)"
+					aria-label="Ban reason"
+				/>
+				<Input
+					name="expiresInDays"
+					type="number"
+					min={1}
+					placeholder="Days"
+					aria-label="Ban length in days, empty for permanent"
+					className="w-24"
+				/>
+			</div>
+			<div className="flex justify-end gap-2">
+				<Button type="button" variant="ghost" size="sm" onClick={onClose}>
+					Cancel
+				</Button>
+				<Button
+					type="submit"
+					variant="destructive"
+					size="sm"
+					disabled={pending}
+				>
+					{pending ? "Banning..." : "Ban"}
+				</Button>
+			</div>
+			{error && <p className="text-sm text-red-500">{error}</p>}
+		</form>
+	);
+}
+
+export function UserActions({ user }: { user: AdminUser }) {
+	const router = useRouter();
+	const [banning, setBanning] = useState(false);
+
+	if (banning) {
+		return (
+			<div className="w-full max-w-sm">
+				<BanForm userId={user.id} onClose={() => setBanning(false)} />
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex flex-wrap items-start gap-2">
+			<RoleSelect user={user} />
+			<ActionButton
+				action={revokeUserSessions.bind(null, user.id)}
+				label="Sign out"
+				pendingLabel="Signing out..."
+			/>
+			{!user.banned && (
+				<ActionButton
+					action={impersonateUser.bind(null, user.id)}
+					label="Impersonate"
+					pendingLabel="Switching..."
+					onSuccess={() => {
+						authClient.$store.notify("$sessionSignal");
+						router.push("/");
+						router.refresh();
+					}}
+				/>
+			)}
+			{user.banned ? (
+				<ActionButton
+					action={unbanUser.bind(null, user.id)}
+					label="Unban"
+					pendingLabel="Unbanning..."
+				/>
+			) : (
+				<Button
+					variant="destructive"
+					size="sm"
+					onClick={() => setBanning(true)}
+				>
+					Ban
+				</Button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,144 @@
+import { notFound } from "next/navigation";
+import { ActionButton } from "@/components/action-button";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { prisma } from "@/lib/prisma";
+import {
+	WEBHOOK_DELIVERY_STATUSES,
+	webhookDeliveryFilterSchema,
+} from "@/lib/validations";
+import { listWebhookDeliveries, MAX_DELIVERY_ATTEMPTS } from "@/lib/webhooks";
+import { Pagination } from "../../pagination";
+import { StatusBadge } from "../../status-badge";
+import { redeliver } from "../actions";
+import { EndpointActions } from "../endpoint-actions";
+
+export default async function AdminWebhookEndpoint({
+	params,
+	searchParams,
+}: {
+	params: Promise<{ id: string }>;
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const { id } = await params;
+	const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id } });
+	if (!endpoint) notFound();
+
+	const parsed = webhookDeliveryFilterSchema.safeParse(await searchParams);
+	const filter = parsed.success
+		? parsed.data
+		: webhookDeliveryFilterSchema.parse({});
+	const deliveries = await listWebhookDeliveries(id, filter);
+
+	return (
+		<>
+			<Card>
+				<CardHeader>
+					<CardTitle className="break-all">{endpoint.url}</CardTitle>
+					<CardDescription>
+						{endpoint.description ?? "No description"} &middot;{" "}
+						{endpoint.events.join(", ")}
+						{!endpoint.enabled && " · Disabled"}
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<details className="text-sm">
+						<summary className="cursor-pointer">Signing secret</summary>
+						<code className="mt-2 block font-mono break-all">
+							{endpoint.secret}
+						</code>
+					</details>
+					<EndpointActions endpoint={endpoint} />
+				</CardContent>
+			</Card>
+			<Card>
+				<CardHeader>
+					<CardTitle>Deliveries</CardTitle>
+					<CardDescription>
+						Failed attempts are retried with increasing delays, up to{" "}
+						{MAX_DELIVERY_ATTEMPTS} times
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<form className="flex gap-2">
+						<select
+							name="status"
+							aria-label="Delivery status"
+							className="h-9 rounded-md border bg-transparent px-2 text-sm"
+							defaultValue={filter.status ?? ""}
+						>
+							<option value="">All deliveries</option>
+							{WEBHOOK_DELIVERY_STATUSES.map((status) => (
+								<option key={status} value={status}>
+									{status}
+								</option>
+							))}
+						</select>
+						<Button type="submit" variant="outline">
+							Filter
+						</Button>
+					</form>
+					{deliveries.items.length === 0 ? (
+						<p className="text-sm text-muted-foreground">No deliveries.</p>
+					) : (
+						<ul className="divide-y">
+							{deliveries.items.map((delivery) => (
+								<li
+									key={delivery.id}
+									className="flex flex-wrap items-start justify-between gap-4 py-4"
+								>
+									<div className="min-w-0 space-y-1">
+										<p className="text-sm font-medium">
+											<code className="font-mono">{delivery.event}</code>{" "}
+											<StatusBadge status={delivery.status} />
+										</p>
+										<p className="text-sm text-muted-foreground">
+											{delivery.createdAt.toLocaleString()} &middot;{" "}
+											{delivery.attempts}{" "}
+											{delivery.attempts === 1 ? "attempt" : "attempts"}
+											{delivery.responseStatus !== null &&
+												` · HTTP ${delivery.responseStatus}`}
+											{delivery.status === "pending" &&
+												delivery.attempts > 0 &&
+												` · Next try ${delivery.nextAttemptAt.toLocaleString()}`}
+										</p>
+										{delivery.lastError && (
+											<p className="text-sm break-all text-red-500">
+												{delivery.lastError}
+											</p>
+										)}
+										<details className="text-sm">
+											<summary className="cursor-pointer text-muted-foreground">
+												Payload
+											</summary>
+											<pre className="mt-2 overflow-x-auto rounded-md bg-muted p-2 text-xs">
+												{JSON.stringify(delivery.payload, null, 2)}
+											</pre>
+										</details>
+									</div>
+									{delivery.status !== "pending" && (
+										<ActionButton
+											action={redeliver.bind(null, delivery.id)}
+											label="Redeliver"
+											pendingLabel="Queuing..."
+										/>
+									)}
+								</li>
+							))}
+						</ul>
+					)}
+					<Pagination
+						meta={deliveries.meta}
+						params={{ status: filter.status }}
+					/>
+				</CardContent>
+			</Card>
+		</>
+	);
+}
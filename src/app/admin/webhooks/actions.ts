@@ -0,0 +1,94 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prismaErrorResult } from "@/lib/action-result";
+import { createAction } from "@/lib/create-action";
+import { prisma } from "@/lib/prisma";
+import { requireRole } from "@/lib/session";
+import {
+	type ActionResult,
+	createWebhookEndpointSchema,
+} from "@/lib/validations";
+import {
+	createWebhookSecret,
+	redeliverWebhook,
+	sendTestWebhook,
+} from "@/lib/webhooks";
+
+export const createWebhookEndpoint = createAction({
+	schema: createWebhookEndpointSchema,
+	auth: { role: "admin" },
+	handler: async ({ url, description, events }) => {
+		await prisma.webhookEndpoint.create({
+			data: { url, description, events, secret: createWebhookSecret() },
+		});
+		revalidatePath("/admin/webhooks");
+	},
+	successMessage: "Endpoint added",
+});
+
+export async function setWebhookEndpointEnabled(
+	endpointId: string,
+	enabled: boolean,
+): Promise<ActionResult> {
+	await requireRole("admin");
+
+	try {
+		await prisma.webhookEndpoint.update({
+			where: { id: endpointId },
+			data: { enabled },
+		});
+	} catch (error) {
+		return prismaErrorResult(error);
+	}
+
+	revalidatePath("/admin/webhooks");
+	return {
+		success: true,
+		message: enabled ? "Endpoint enabled" : "Endpoint disabled",
+	};
+}
+
+/**
+ * Deletes the endpoint and its delivery log.
+ */
+export async function deleteWebhookEndpoint(
+	endpointId: string,
+): Promise<ActionResult> {
+	await requireRole("admin");
+
+	try {
+		await prisma.webhookEndpoint.delete({ where: { id: endpointId } });
+	} catch (error) {
+		return prismaErrorResult(error);
+	}
+
+	revalidatePath("/admin/webhooks");
+	return { success: true, message: "Endpoint deleted" };
+}
+
+export async function sendTestEvent(endpointId: string): Promise<ActionResult> {
+	await requireRole("admin");
+
+	try {
+		await sendTestWebhook(endpointId);
+	} catch (error) {
+		return prismaErrorResult(error);
+	}
+
+	revalidatePath(`/admin/webhooks/${endpointId}`);
+	return { success: true, message: "Test event queued" };
+}
+
+export async function redeliver(deliveryId: string): Promise<ActionResult> {
+	await requireRole("admin");
+
+	try {
+		await redeliverWebhook(deliveryId);
+	} catch (error) {
+		return prismaErrorResult(error);
+	}
+
+	revalidatePath("/admin/webhooks/[id]", "page");
+	return { success: true, message: "Delivery queued" };
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fromActionResult, useZodForm } from "@/lib/hooks";
+import {
+	type CreateWebhookEndpointInput,
+	createWebhookEndpointSchema,
+	WEBHOOK_EVENTS,
+	type WebhookEvent,
+} from "@/lib/validations";
+import { createWebhookEndpoint } from "./actions";
+
+const initialData: CreateWebhookEndpointInput = {
+	url: "",
+	description: "",
+	events: [...WEBHOOK_EVENTS],
+};
+
+export function CreateWebhookForm() {
+	const form = useZodForm({
+		schema: createWebhookEndpointSchema,
+		initialData,
+		onSubmit: async (data) =>
+			fromActionResult(await createWebhookEndpoint(data)),
+		onSuccess: () => form.reset(),
+	});
+	const { values, errors, submitError, submitting } = form;
+
+	function toggleEvent(event: WebhookEvent) {
+		form.setValue(
+			"events",
+			values.events.includes(event)
+				? values.events.filter((e) => e !== event)
+				: [...values.events, event],
+		);
+	}
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Add an Endpoint</CardTitle>
+				<CardDescription>
+					Events are POSTed as JSON and signed with a secret shown on the
+					endpoint&apos;s page.
+				</CardDescription>
+			</CardHeader>
+			<form onSubmit={form.handleSubmit}>
+				<CardContent className="space-y-4">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					<div className="space-y-2">
+						<Label htmlFor="webhook-url">URL</Label>
+						<Input
+							id="webhook-url"
+							type="url"
+							placeholder="https://example.com/webhooks"
+							{...form.register("url")}
+							aria-describedby={errors.url ? "webhook-url-error" : undefined}
+						/>
+						{errors.url && (
+							<p id="webhook-url-error" className="text-sm text-red-500">
+								{errors.url}
+							</p>
+						)}
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="webhook-description">Description</Label>
+						<Input
+							id="webhook-description"
+							placeholder="e.g. CRM sync (optional)"
+							{...form.register("description")}
+						/>
+						{errors.description && (
+							<p className="text-sm text-red-500">{errors.description}</p>
+						)}
+					</div>
+					<fieldset className="space-y-2">
+						<legend className="text-sm font-medium">Events</legend>
+						{WEBHOOK_EVENTS.map((event) => (
+							<label key={event} className="flex items-center gap-2 text-sm">
+								<input
+									type="checkbox"
+									checked={values.events.includes(event)}
+									onChange={() => toggleEvent(event)}
+								/>
+								<code className="font-mono">{event}</code>
+							</label>
+						))}
+						{errors.events && (
+							<p className="text-sm text-red-500">{errors.events}</p>
+						)}
+					</fieldset>
+				</CardContent>
+				<CardFooter className="mt-6">
+					<Button type="submit" disabled={submitting}>
+						{submitting ? "Adding..." : "Add Endpoint"}
+					</Button>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { ActionButton } from "@/components/action-button";
+import {
+	deleteWebhookEndpoint,
+	sendTestEvent,
+	setWebhookEndpointEnabled,
+} from "./actions";
+
+export function EndpointActions({
+	endpoint,
+}: {
+	endpoint: { id: string; enabled: boolean };
+}) {
+	const router = useRouter();
+
+	return (
+		<div className="flex flex-wrap items-start gap-2">
+			{endpoint.enabled && (
+				<ActionButton
+					action={sendTestEvent.bind(null, endpoint.id)}
+					label="Send test"
+					pendingLabel="Sending..."
+				/>
+			)}
+			<ActionButton
+				action={setWebhookEndpointEnabled.bind(
+					null,
+					endpoint.id,
+					!endpoint.enabled,
+				)}
+				label={endpoint.enabled ? "Disable" : "Enable"}
+				pendingLabel="Saving..."
+			/>
+			<ActionButton
+				action={deleteWebhookEndpoint.bind(null, endpoint.id)}
+				label="Delete"
+				pendingLabel="Deleting..."
+				variant="destructive"
+				onSuccess={() => router.push("/admin/webhooks")}
+			/>
+		</div>
+	);
+}
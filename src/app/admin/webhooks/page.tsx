@@ -0,0 +1,81 @@
+import Link from "next/link";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { listWebhookEndpoints } from "@/lib/webhooks";
+import { StatusBadge } from "../status-badge";
+import { CreateWebhookForm } from "./create-webhook-form";
+import { EndpointActions } from "./endpoint-actions";
+
+export default async function AdminWebhooks() {
+	const endpoints = await listWebhookEndpoints();
+
+	return (
+		<>
+			<Card>
+				<CardHeader>
+					<CardTitle>Webhooks</CardTitle>
+					<CardDescription>
+						Notify other systems when users sign up, verify their email or
+						delete their account
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{endpoints.length === 0 ? (
+						<p className="text-sm text-muted-foreground">No endpoints yet.</p>
+					) : (
+						<ul className="divide-y">
+							{endpoints.map((endpoint) => {
+								const [latest] = endpoint.deliveries;
+								return (
+									<li
+										key={endpoint.id}
+										className="flex flex-wrap items-start justify-between gap-4 py-4"
+									>
+										<div className="min-w-0 space-y-1">
+											<p className="text-sm font-medium break-all">
+												<Link
+													href={`/admin/webhooks/${endpoint.id}`}
+													className="hover:underline"
+												>
+													{endpoint.url}
+												</Link>
+												{!endpoint.enabled && (
+													<span className="ml-2 rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+														Disabled
+													</span>
+												)}
+											</p>
+											{endpoint.description && (
+												<p className="text-sm text-muted-foreground">
+													{endpoint.description}
+												</p>
+											)}
+											<p className="text-sm text-muted-foreground">
+												{endpoint.events.join(", ")}
+												{latest && (
+													<>
+														{" "}
+														&middot; Last delivery{" "}
+														{latest.createdAt.toLocaleString()}{" "}
+														<StatusBadge status={latest.status} />
+													</>
+												)}
+											</p>
+										</div>
+										<EndpointActions endpoint={endpoint} />
+									</li>
+								);
+							})}
+						</ul>
+					)}
+				</CardContent>
+			</Card>
+			<CreateWebhookForm />
+		</>
+	);
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getDataExportUrl, getDownloadableExport } from "@/lib/privacy";
+import { requireUser } from "@/lib/session";
+import { getStorage } from "@/lib/storage";
+
+/**
+ * GET /api/account/data-exports/:id
+ * Download one of the signed-in user's data export archives.
+ */
+export async function GET(
+	_request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params;
+	// Links in the "export ready" email come back here after sign-in
+	const user = await requireUser(getDataExportUrl(id));
+
+	const dataExport = await getDownloadableExport(user.id, id);
+	const object = dataExport?.storageKey
+		? await getStorage()
+				.get(dataExport.storageKey)
+				.catch(() => null)
+		: null;
+	if (!dataExport || !object) {
+		return NextResponse.json({ error: "Export not found" }, { status: 404 });
+	}
+
+	const date = dataExport.createdAt.toISOString().slice(0, 10);
+	return new NextResponse(Buffer.from(object.body), {
+		headers: {
+			"Content-Type": object.contentType,
+			"Content-Disposition": `attachment; filename="data-export-${date}.${dataExport.format}"`,
+			"Cache-Control": "private, no-store",
+			"X-Content-Type-Options": "nosniff",
+		},
+	});
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { exportAuthEvents } from "@/lib/auth-events";
+import { toCsv } from "@/lib/csv";
+import { requireRole } from "@/lib/session";
+import { authEventFilterSchema, exportFormatSchema } from "@/lib/validations";
+
+/**
+ * GET /api/admin/auth-events?format=csv|json&q=&type=
+ * Download auth events matching the admin filters.
+ */
+export async function GET(request: Request) {
+	await requireRole("admin");
+
+	const params = Object.fromEntries(new URL(request.url).searchParams);
+	const filter = authEventFilterSchema.safeParse(params);
+	const format = exportFormatSchema.safeParse(params.format);
+	if (!filter.success || !format.success) {
+		return NextResponse.json({ error: "Invalid filters" }, { status: 400 });
+	}
+
+	const events = await exportAuthEvents(filter.data);
+	const filename = `auth-events-${new Date().toISOString().slice(0, 10)}`;
+
+	if (format.data === "json") {
+		return NextResponse.json(events, {
+			headers: {
+				"Content-Disposition": `attachment; filename="${filename}.json"`,
+			},
+		});
+	}
+
+	const csv = toCsv(
+		events.map((event) => ({
+			...event,
+			metadata: event.metadata ? JSON.stringify(event.metadata) : null,
+		})),
+		[
+			"createdAt",
+			"type",
+			"email",
+			"userId",
+			"method",
+			"ipAddress",
+			"userAgent",
+			"metadata",
+		],
+	);
+	return new NextResponse(csv, {
+		headers: {
+			"Content-Type": "text/csv; charset=utf-8",
+			"Content-Disposition": `attachment; filename="${filename}.csv"`,
+		},
+	});
+}
@@ -1,4 +1,16 @@
 import { toNextJsHandler } from "better-auth/next-js";
 import { auth } from "@/lib/auth";
+import { withRequestContext } from "@/lib/logger";
+import { withAuthRateLimit } from "@/lib/rate-limit/auth";
 
-export const { GET, POST } = toNextJsHandler(auth);
+const handler = toNextJsHandler(auth);
+
+export async function GET(request: Request) {
+	return withRequestContext(request.headers, () => handler.GET(request));
+}
+
+export async function POST(request: Request) {
+	return withRequestContext(request.headers, () =>
+		withAuthRateLimit(request, handler.POST),
+	);
+}
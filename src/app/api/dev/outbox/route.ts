@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getOutbox } from "@/lib/email";
+import { env } from "@/lib/env";
+
+// Dev-only: never expose sent mail (reset links!) in production
+const disabled = env.NODE_ENV === "production";
+
+export async function GET() {
+	if (disabled) return new NextResponse(null, { status: 404 });
+
+	const outbox = getOutbox();
+	if (!outbox) {
+		return NextResponse.json(
+			{ error: "EMAIL_TRANSPORT does not keep an outbox" },
+			{ status: 409 },
+		);
+	}
+
+	return NextResponse.json({ items: await outbox.list() });
+}
+
+export async function DELETE() {
+	if (disabled) return new NextResponse(null, { status: 404 });
+
+	await getOutbox()?.clear();
+	return new NextResponse(null, { status: 204 });
+}
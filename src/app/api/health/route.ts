@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+
+// Liveness: answers as long as the server process is up. Deliberately
+// doesn't touch the database, so an outage doesn't get replicas restarted
+export const dynamic = "force-dynamic";
+
+export function GET() {
+	return NextResponse.json(
+		{ status: "ok" },
+		{ headers: { "cache-control": "no-store" } },
+	);
+}
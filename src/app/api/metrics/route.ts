@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getBearerToken } from "@/lib/api-keys";
+import { env } from "@/lib/env";
+import { metrics } from "@/lib/metrics";
+
+// Prometheus scrape endpoint. With METRICS_TOKEN set, scrapers must send it
+// as a bearer token; without it the endpoint is only open in development
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+	const token = env.METRICS_TOKEN;
+	if (!token) {
+		if (env.NODE_ENV === "production") {
+			return new NextResponse(null, { status: 404 });
+		}
+	} else if (getBearerToken(request.headers) !== token) {
+		return new NextResponse(null, {
+			status: 401,
+			headers: { "www-authenticate": "Bearer" },
+		});
+	}
+
+	return new NextResponse(await metrics.registry.metrics(), {
+		headers: {
+			"content-type": metrics.registry.contentType,
+			"cache-control": "no-store",
+		},
+	});
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { getOpenApiDocument } from "@/lib/openapi";
+
+/**
+ * GET /api/openapi.json
+ * OpenAPI 3.1 description of the API, rendered at /docs/api.
+ */
+export function GET() {
+	return NextResponse.json(getOpenApiDocument());
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { checkReadiness } from "@/lib/health";
+
+// Readiness: replicas only get traffic while the database is reachable and
+// the schema is up to date
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+	const { ready, checks } = await checkReadiness();
+	return NextResponse.json(
+		{ status: ready ? "ready" : "unavailable", checks },
+		{ status: ready ? 200 : 503, headers: { "cache-control": "no-store" } },
+	);
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getStorage, isPublicKey } from "@/lib/storage";
+
+export async function GET(
+	_request: Request,
+	{ params }: { params: Promise<{ key: string[] }> },
+) {
+	const key = (await params).key.join("/");
+	if (!isPublicKey(key)) return new NextResponse(null, { status: 404 });
+
+	const object = await getStorage()
+		.get(key)
+		.catch(() => null);
+	if (!object) return new NextResponse(null, { status: 404 });
+
+	return new NextResponse(Buffer.from(object.body), {
+		headers: {
+			"Content-Type": object.contentType,
+			// Keys are unique per upload, so the content never changes
+			"Cache-Control": "public, max-age=31536000, immutable",
+			"X-Content-Type-Options": "nosniff",
+		},
+	});
+}
@@ -0,0 +1,11 @@
+import { ApiError, apiRoute } from "@/lib/api";
+import { getUser } from "@/lib/openapi/operations";
+import { getUserById } from "@/lib/users";
+
+export const GET = apiRoute(getUser, async ({ params, user }) => {
+	if (params.id !== user.id && user.role !== "admin") {
+		// Same response as a missing user, so IDs can't be probed
+		throw new ApiError(404, "NOT_FOUND", "Resource not found");
+	}
+	return getUserById(params.id);
+});
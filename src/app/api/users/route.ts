@@ -0,0 +1,5 @@
+import { apiRoute } from "@/lib/api";
+import { listUsers } from "@/lib/openapi/operations";
+import { queryUsers } from "@/lib/users";
+
+export const GET = apiRoute(listUsers, async ({ query }) => queryUsers(query));
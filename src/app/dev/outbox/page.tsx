@@ -0,0 +1,56 @@
+import { notFound } from "next/navigation";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { getOutbox } from "@/lib/email";
+import { env } from "@/lib/env";
+
+export const dynamic = "force-dynamic";
+
+export default async function DevOutbox() {
+	if (env.NODE_ENV === "production") notFound();
+
+	const outbox = getOutbox();
+	const emails = (await outbox?.list()) ?? [];
+
+	return (
+		<main className="container mx-auto space-y-4 px-4 py-8">
+			<h1 className="text-2xl font-bold">Email Outbox</h1>
+			{!outbox ? (
+				<p className="text-muted-foreground">
+					Set EMAIL_TRANSPORT to &quot;memory&quot; or &quot;file&quot; to
+					capture outgoing email here.
+				</p>
+			) : emails.length === 0 ? (
+				<p className="text-muted-foreground">No messages yet.</p>
+			) : (
+				emails.map((email) => (
+					<Card key={email.id}>
+						<CardHeader>
+							<CardTitle>{email.subject}</CardTitle>
+							<CardDescription>
+								To {email.to} &middot; {new Date(email.sentAt).toLocaleString()}
+							</CardDescription>
+						</CardHeader>
+						<CardContent>
+							{email.html ? (
+								<iframe
+									title={email.subject}
+									srcDoc={email.html}
+									sandbox=""
+									className="h-96 w-full rounded-md border"
+								/>
+							) : (
+								<pre className="whitespace-pre-wrap text-sm">{email.text}</pre>
+							)}
+						</CardContent>
+					</Card>
+				))
+			)}
+		</main>
+	);
+}
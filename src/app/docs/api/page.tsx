@@ -0,0 +1,150 @@
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { getOpenApiDocument } from "@/lib/openapi";
+
+interface OperationObject {
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	security?: unknown[];
+	parameters?: {
+		name: string;
+		in: string;
+		required: boolean;
+		schema: Record<string, unknown>;
+	}[];
+	requestBody?: { content: Record<string, { schema: unknown }> };
+	responses: Record<
+		string,
+		{ description: string; content?: Record<string, { schema: unknown }> }
+	>;
+}
+
+function SchemaBlock({ schema }: { schema: unknown }) {
+	return (
+		<pre className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+			{JSON.stringify(schema, null, 2)}
+		</pre>
+	);
+}
+
+function OperationCard({
+	method,
+	path,
+	operation,
+}: {
+	method: string;
+	path: string;
+	operation: OperationObject;
+}) {
+	const body = operation.requestBody?.content["application/json"]?.schema;
+
+	return (
+		<Card id={`${method}-${path}`}>
+			<CardHeader>
+				<CardTitle className="font-mono text-base">
+					<span className="mr-2 rounded bg-primary px-1.5 py-0.5 text-xs text-primary-foreground uppercase">
+						{method}
+					</span>
+					{path}
+				</CardTitle>
+				<CardDescription>
+					{operation.summary}
+					{operation.security?.length === 0
+						? " · No sign-in required"
+						: " · Requires a session"}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4 text-sm">
+				{operation.description && <p>{operation.description}</p>}
+				{operation.parameters && (
+					<div className="space-y-1">
+						<p className="font-medium">Parameters</p>
+						<ul className="space-y-1">
+							{operation.parameters.map((parameter) => (
+								<li key={`${parameter.in}-${parameter.name}`}>
+									<code className="font-mono">{parameter.name}</code>{" "}
+									<span className="text-muted-foreground">
+										({parameter.in}
+										{parameter.required ? ", required" : ""}){" "}
+										{JSON.stringify(parameter.schema)}
+									</span>
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+				{body !== undefined && (
+					<div className="space-y-1">
+						<p className="font-medium">Request body</p>
+						<SchemaBlock schema={body} />
+					</div>
+				)}
+				<div className="space-y-1">
+					<p className="font-medium">Responses</p>
+					{Object.entries(operation.responses).map(([status, response]) => (
+						<details key={status}>
+							<summary className="cursor-pointer">
+								<code className="font-mono">{status}</code>{" "}
+								{response.description}
+							</summary>
+							<SchemaBlock
+								schema={response.content?.["application/json"]?.schema}
+							/>
+						</details>
+					))}
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
+
+export default function ApiDocs() {
+	const document = getOpenApiDocument();
+	const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+		Object.entries(methods).map(([method, operation]) => ({
+			method,
+			path,
+			operation: operation as OperationObject,
+		})),
+	);
+
+	return (
+		<main className="container mx-auto space-y-6 px-4 py-8">
+			<div className="space-y-1">
+				<h1 className="text-2xl font-bold">{document.info.title}</h1>
+				<p className="text-muted-foreground">
+					{document.info.description} Download the spec from{" "}
+					<a href="/api/openapi.json" className="underline">
+						/api/openapi.json
+					</a>
+					.
+				</p>
+			</div>
+			{document.tags.map((tag) => (
+				<section key={tag.name} className="space-y-4">
+					<h2 className="text-xl font-semibold">{tag.name}</h2>
+					{operations
+						.filter(({ operation }) => operation.tags?.includes(tag.name))
+						.map((entry) => (
+							<OperationCard key={`${entry.method}-${entry.path}`} {...entry} />
+						))}
+				</section>
+			))}
+			<section className="space-y-4">
+				<h2 className="text-xl font-semibold">Schemas</h2>
+				{Object.entries(document.components.schemas).map(([name, schema]) => (
+					<details key={name} id={`schema-${name}`}>
+						<summary className="cursor-pointer font-mono">{name}</summary>
+						<SchemaBlock schema={schema} />
+					</details>
+				))}
+			</section>
+		</main>
+	);
+}
@@ -0,0 +1,15 @@
+import Link from "next/link";
+
+export default function Forbidden() {
+	return (
+		<main className="container mx-auto px-4 py-8">
+			<h1 className="text-2xl font-bold">Access denied</h1>
+			<p className="mt-2 text-muted-foreground">
+				You don&apos;t have permission to view this page.
+			</p>
+			<Link href="/" className="mt-4 inline-block text-sm underline">
+				Go home
+			</Link>
+		</main>
+	);
+}
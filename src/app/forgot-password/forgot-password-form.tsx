@@ -0,0 +1,77 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+import { useAuthForm } from "@/lib/hooks";
+import {
+	type ForgotPasswordInput,
+	forgotPasswordSchema,
+} from "@/lib/validations";
+
+export function ForgotPasswordForm() {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof forgotPasswordSchema>({
+			schema: forgotPasswordSchema,
+			initialData: { email: "" } satisfies ForgotPasswordInput,
+			onSubmit: (data) =>
+				authClient.requestPasswordReset({
+					email: data.email,
+					redirectTo: "/reset-password",
+				}),
+			redirectTo: "/forgot-password?sent=1",
+		});
+
+	return (
+		<Card className="w-full max-w-sm">
+			<CardHeader>
+				<CardTitle>Forgot Password</CardTitle>
+				<CardDescription>
+					Enter your email and we&apos;ll send you a reset link
+				</CardDescription>
+			</CardHeader>
+			<form onSubmit={handleSubmit}>
+				<CardContent className="space-y-4">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					<div className="space-y-2">
+						<Label htmlFor="email">Email</Label>
+						<Input
+							id="email"
+							type="email"
+							value={formData.email}
+							onChange={(e) => handleChange("email", e.target.value)}
+							aria-invalid={!!errors.email}
+							aria-describedby={errors.email ? "email-error" : undefined}
+						/>
+						{errors.email && (
+							<p id="email-error" className="text-sm text-red-500">
+								{errors.email}
+							</p>
+						)}
+					</div>
+				</CardContent>
+				<CardFooter className="flex flex-col gap-4">
+					<Button type="submit" className="w-full" disabled={loading}>
+						{loading ? "Sending link..." : "Send Reset Link"}
+					</Button>
+					<p className="text-sm text-muted-foreground">
+						Remembered it?{" "}
+						<Link href="/sign-in" className="underline">
+							Sign in
+						</Link>
+					</p>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
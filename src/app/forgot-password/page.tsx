@@ -0,0 +1,40 @@
+import Link from "next/link";
+import {
+	Card,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { ForgotPasswordForm } from "./forgot-password-form";
+
+export default async function ForgotPassword({
+	searchParams,
+}: {
+	searchParams: Promise<{ sent?: string }>;
+}) {
+	const { sent } = await searchParams;
+
+	return (
+		<div className="flex min-h-screen items-center justify-center">
+			{sent ? (
+				<Card className="w-full max-w-sm">
+					<CardHeader>
+						<CardTitle>Check Your Email</CardTitle>
+						<CardDescription>
+							If an account exists for that address, a password reset link is on
+							its way.
+						</CardDescription>
+					</CardHeader>
+					<CardFooter>
+						<Link href="/sign-in" className="text-sm underline">
+							Back to sign in
+						</Link>
+					</CardFooter>
+				</Card>
+			) : (
+				<ForgotPasswordForm />
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { ActionButton } from "@/components/action-button";
+import { notifyOrganizationChange } from "@/lib/auth-client";
+import { acceptInvitation, declineInvitation } from "../actions";
+
+export function InvitationResponse({ invitationId }: { invitationId: string }) {
+	const router = useRouter();
+
+	function done(href: string) {
+		notifyOrganizationChange();
+		router.push(href);
+		router.refresh();
+	}
+
+	return (
+		<div className="flex gap-2">
+			<ActionButton
+				action={acceptInvitation.bind(null, invitationId)}
+				label="Accept"
+				pendingLabel="Joining..."
+				variant="default"
+				onSuccess={() => done("/organization")}
+			/>
+			<ActionButton
+				action={declineInvitation.bind(null, invitationId)}
+				label="Decline"
+				pendingLabel="Declining..."
+				onSuccess={() => done("/")}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,73 @@
+import { APIError } from "better-auth/api";
+import { headers } from "next/headers";
+import Link from "next/link";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { requireUser } from "@/lib/session";
+import { InvitationResponse } from "./invitation-response";
+
+async function findInvitation(id: string) {
+	try {
+		return {
+			invitation: await auth.api.getInvitation({
+				query: { id },
+				headers: await headers(),
+			}),
+		};
+	} catch (error) {
+		// Expired, already answered, or addressed to another email
+		if (error instanceof APIError) return { error: error.message };
+		throw error;
+	}
+}
+
+export default async function InvitationPage({
+	params,
+}: {
+	params: Promise<{ id: string }>;
+}) {
+	const { id } = await params;
+	const user = await requireUser(`/invitations/${id}`);
+	const { invitation, error } = await findInvitation(id);
+
+	return (
+		<div className="flex min-h-screen items-center justify-center">
+			<Card className="w-full max-w-sm">
+				<CardHeader>
+					<CardTitle>
+						{invitation
+							? `Join ${invitation.organizationName}`
+							: "Invitation unavailable"}
+					</CardTitle>
+					<CardDescription>
+						{invitation
+							? `${invitation.inviterEmail} invited you to join as ${invitation.role}.`
+							: error}
+					</CardDescription>
+				</CardHeader>
+				{invitation ? (
+					<CardFooter>
+						<InvitationResponse invitationId={invitation.id} />
+					</CardFooter>
+				) : (
+					<CardContent>
+						<p className="text-sm text-muted-foreground">
+							You are signed in as {user.email}. Ask for a new invitation if
+							this one was sent to a different address.{" "}
+							<Link href="/" className="underline">
+								Go home
+							</Link>
+						</p>
+					</CardContent>
+				)}
+			</Card>
+		</div>
+	);
+}
@@ -0,0 +1,42 @@
+"use server";
+
+import { headers } from "next/headers";
+import { apiErrorResult } from "@/lib/action-result";
+import { auth } from "@/lib/auth";
+import { requireUser } from "@/lib/session";
+import type { ActionResult } from "@/lib/validations";
+
+export async function acceptInvitation(
+	invitationId: string,
+): Promise<ActionResult> {
+	await requireUser();
+
+	try {
+		// Adds the membership and makes the organization active
+		await auth.api.acceptInvitation({
+			body: { invitationId },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	return { success: true, message: "Invitation accepted" };
+}
+
+export async function declineInvitation(
+	invitationId: string,
+): Promise<ActionResult> {
+	await requireUser();
+
+	try {
+		await auth.api.rejectInvitation({
+			body: { invitationId },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	return { success: true, message: "Invitation declined" };
+}
@@ -0,0 +1,126 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { apiErrorResult, invalidResult } from "@/lib/action-result";
+import { auth } from "@/lib/auth";
+import { createAction } from "@/lib/create-action";
+import { requireOrganization } from "@/lib/tenant";
+import {
+	type ActionResult,
+	createOrganizationSchema,
+	inviteMemberSchema,
+	type UpdateMemberRoleInput,
+	updateMemberRoleSchema,
+} from "@/lib/validations";
+
+// better-auth checks the caller's organization role on every call below;
+// the UI only hides controls a member can't use
+
+export const createOrganization = createAction({
+	schema: createOrganizationSchema,
+	// The creator becomes owner and the new organization becomes active
+	handler: async (body) => {
+		await auth.api.createOrganization({ body, headers: await headers() });
+	},
+	successMessage: "Organization created",
+});
+
+export const inviteMember = createAction({
+	schema: inviteMemberSchema,
+	handler: async (body) => {
+		const { organizationId } = await requireOrganization(["owner", "admin"]);
+		await auth.api.createInvitation({
+			body: { ...body, organizationId },
+			headers: await headers(),
+		});
+		revalidatePath("/organization");
+	},
+	successMessage: ({ email }) => `Invitation sent to ${email}`,
+});
+
+export async function cancelInvitation(
+	invitationId: string,
+): Promise<ActionResult> {
+	await requireOrganization(["owner", "admin"]);
+
+	try {
+		await auth.api.cancelInvitation({
+			body: { invitationId },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/organization");
+	return { success: true, message: "Invitation canceled" };
+}
+
+export async function updateMemberRole(
+	memberId: string,
+	input: UpdateMemberRoleInput,
+): Promise<ActionResult> {
+	const { organizationId } = await requireOrganization(["owner", "admin"]);
+
+	const parsed = updateMemberRoleSchema.safeParse(input);
+	if (!parsed.success) return invalidResult(parsed.error);
+
+	try {
+		await auth.api.updateMemberRole({
+			body: { memberId, role: parsed.data.role, organizationId },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/organization");
+	return { success: true, message: `Role changed to ${parsed.data.role}` };
+}
+
+export async function removeMember(memberId: string): Promise<ActionResult> {
+	const { organizationId } = await requireOrganization(["owner", "admin"]);
+
+	try {
+		await auth.api.removeMember({
+			body: { memberIdOrEmail: memberId, organizationId },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	revalidatePath("/organization");
+	return { success: true, message: "Member removed" };
+}
+
+export async function leaveOrganization(): Promise<ActionResult> {
+	const { organizationId } = await requireOrganization();
+
+	try {
+		await auth.api.leaveOrganization({
+			body: { organizationId },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	return { success: true, message: "You left the organization" };
+}
+
+export async function deleteOrganization(): Promise<ActionResult> {
+	const { organizationId } = await requireOrganization("owner");
+
+	try {
+		await auth.api.deleteOrganization({
+			body: { organizationId },
+			headers: await headers(),
+		});
+	} catch (error) {
+		return apiErrorResult(error);
+	}
+
+	return { success: true, message: "Organization deleted" };
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useActionForm } from "@/lib/hooks";
+import {
+	type InviteMemberInput,
+	inviteMemberSchema,
+	ORGANIZATION_ROLES,
+} from "@/lib/validations";
+import { inviteMember } from "./actions";
+
+export function InviteMemberForm() {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useActionForm({
+			schema: inviteMemberSchema,
+			action: inviteMember,
+			initialData: { email: "", role: "member" } satisfies InviteMemberInput,
+		});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Invite a Member</CardTitle>
+				<CardDescription>
+					We&apos;ll email them a link to join. Invitations expire after 48
+					hours.
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				<form onSubmit={handleSubmit} className="space-y-2">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					<Label htmlFor="invite-email">Email</Label>
+					<div className="flex gap-2">
+						<Input
+							id="invite-email"
+							type="email"
+							value={formData.email}
+							onChange={(e) => handleChange("email", e.target.value)}
+							aria-invalid={!!errors.email}
+							aria-describedby={errors.email ? "invite-email-error" : undefined}
+						/>
+						<select
+							aria-label="Role"
+							className="h-9 rounded-md border bg-transparent px-2 text-sm"
+							value={formData.role}
+							onChange={(e) => handleChange("role", e.target.value)}
+						>
+							{ORGANIZATION_ROLES.map((role) => (
+								<option key={role} value={role}>
+									{role}
+								</option>
+							))}
+						</select>
+						<Button type="submit" disabled={loading}>
+							{loading ? "Sending..." : "Invite"}
+						</Button>
+					</div>
+					{errors.email && (
+						<p id="invite-email-error" className="text-sm text-red-500">
+							{errors.email}
+						</p>
+					)}
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { ActionButton } from "@/components/action-button";
+import { notifyOrganizationChange } from "@/lib/auth-client";
+import { deleteOrganization, leaveOrganization } from "./actions";
+
+/**
+ * Leave (members) or delete (owner) the active organization.
+ */
+export function LeaveOrganization({ isOwner }: { isOwner: boolean }) {
+	const router = useRouter();
+
+	function done() {
+		notifyOrganizationChange();
+		router.push("/");
+		router.refresh();
+	}
+
+	return isOwner ? (
+		<ActionButton
+			action={deleteOrganization}
+			label="Delete Organization"
+			pendingLabel="Deleting..."
+			variant="destructive"
+			onSuccess={done}
+		/>
+	) : (
+		<ActionButton
+			action={leaveOrganization}
+			label="Leave Organization"
+			pendingLabel="Leaving..."
+			variant="destructive"
+			onSuccess={done}
+		/>
+	);
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { ORGANIZATION_ROLES, type OrganizationRole } from "@/lib/validations";
+import { updateMemberRole } from "./actions";
+
+interface MemberRoleSelectProps {
+	memberId: string;
+	email: string;
+	role: string;
+}
+
+export function MemberRoleSelect({
+	memberId,
+	email,
+	role,
+}: MemberRoleSelectProps) {
+	const [pending, startTransition] = useTransition();
+	const [error, setError] = useState("");
+
+	function handleChange(next: OrganizationRole) {
+		setError("");
+		startTransition(async () => {
+			const result = await updateMemberRole(memberId, { role: next });
+			if (!result.success) setError(result.message ?? "An error occurred");
+		});
+	}
+
+	return (
+		<div className="flex flex-col items-end gap-1">
+			<select
+				aria-label={`Role for ${email}`}
+				className="h-8 rounded-md border bg-transparent px-2 text-sm"
+				value={role}
+				disabled={pending}
+				onChange={(e) => handleChange(e.target.value as OrganizationRole)}
+			>
+				{ORGANIZATION_ROLES.map((option) => (
+					<option key={option} value={option}>
+						{option}
+					</option>
+				))}
+			</select>
+			{error && <p className="text-sm text-red-500">{error}</p>}
+		</div>
+	);
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { notifyOrganizationChange } from "@/lib/auth-client";
+import { useActionForm } from "@/lib/hooks";
+import {
+	type CreateOrganizationInput,
+	createOrganizationSchema,
+} from "@/lib/validations";
+import { createOrganization } from "../actions";
+
+const fields = [
+	{ name: "name", label: "Name", placeholder: "Acme Inc." },
+	{ name: "slug", label: "URL Slug", placeholder: "acme" },
+] as const;
+
+export function CreateOrganizationForm() {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useActionForm({
+			schema: createOrganizationSchema,
+			action: createOrganization,
+			initialData: { name: "", slug: "" } satisfies CreateOrganizationInput,
+			onSuccess: notifyOrganizationChange,
+			redirectTo: "/organization",
+		});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Create an Organization</CardTitle>
+				<CardDescription>
+					Organizations let you invite teammates and share data. You&apos;ll be
+					its owner.
+				</CardDescription>
+			</CardHeader>
+			<form onSubmit={handleSubmit}>
+				<CardContent className="space-y-4">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					{fields.map((field) => (
+						<div key={field.name} className="space-y-2">
+							<Label htmlFor={field.name}>{field.label}</Label>
+							<Input
+								id={field.name}
+								placeholder={field.placeholder}
+								value={formData[field.name]}
+								onChange={(e) => handleChange(field.name, e.target.value)}
+								aria-invalid={!!errors[field.name]}
+								aria-describedby={
+									errors[field.name] ? `${field.name}-error` : undefined
+								}
+							/>
+							{errors[field.name] && (
+								<p id={`${field.name}-error`} className="text-sm text-red-500">
+									{errors[field.name]}
+								</p>
+							)}
+						</div>
+					))}
+				</CardContent>
+				<CardFooter className="mt-6">
+					<Button type="submit" disabled={loading}>
+						{loading ? "Creating..." : "Create Organization"}
+					</Button>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
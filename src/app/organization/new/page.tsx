@@ -0,0 +1,63 @@
+import { headers } from "next/headers";
+import Link from "next/link";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { requireUser } from "@/lib/session";
+import { CreateOrganizationForm } from "./create-organization-form";
+
+export default async function NewOrganization() {
+	await requireUser("/organization/new");
+	const invitations = await auth.api.listUserInvitations({
+		headers: await headers(),
+	});
+	const pending = invitations.filter(
+		(invitation) =>
+			invitation.status === "pending" && invitation.expiresAt > new Date(),
+	);
+
+	return (
+		<main className="container mx-auto max-w-2xl space-y-6 px-4 py-8">
+			<h1 className="text-2xl font-bold">New Organization</h1>
+			{pending.length > 0 && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Pending Invitations</CardTitle>
+						<CardDescription>
+							You&apos;ve been invited to join these organizations
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<ul className="divide-y">
+							{pending.map((invitation) => (
+								<li
+									key={invitation.id}
+									className="flex items-center justify-between gap-4 py-3"
+								>
+									<p className="text-sm">
+										<span className="font-medium">
+											{invitation.organizationName}
+										</span>{" "}
+										as {invitation.role}
+									</p>
+									<Link
+										href={`/invitations/${invitation.id}`}
+										className="text-sm underline"
+									>
+										View
+									</Link>
+								</li>
+							))}
+						</ul>
+					</CardContent>
+				</Card>
+			)}
+			<CreateOrganizationForm />
+		</main>
+	);
+}
@@ -0,0 +1,127 @@
+import { ActionButton } from "@/components/action-button";
+import {
+	Card,
+	CardAction,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { prisma } from "@/lib/prisma";
+import { requireOrganization } from "@/lib/tenant";
+import { cancelInvitation, removeMember } from "./actions";
+import { InviteMemberForm } from "./invite-member-form";
+import { LeaveOrganization } from "./leave-organization";
+import { MemberRoleSelect } from "./member-role-select";
+
+export default async function OrganizationPage() {
+	const { user, member, organizationId, db } = await requireOrganization(
+		undefined,
+		"/organization",
+	);
+	const [organization, members, invitations] = await Promise.all([
+		prisma.organization.findUniqueOrThrow({ where: { id: organizationId } }),
+		db.member.findMany({
+			include: { user: { select: { name: true, email: true } } },
+			orderBy: { createdAt: "asc" },
+		}),
+		db.invitation.findMany({
+			where: { status: "pending", expiresAt: { gt: new Date() } },
+			orderBy: { createdAt: "desc" },
+		}),
+	]);
+	const canManage = member.role === "owner" || member.role === "admin";
+
+	return (
+		<main className="container mx-auto max-w-3xl space-y-6 px-4 py-8">
+			<h1 className="text-2xl font-bold">{organization.name}</h1>
+			<Card>
+				<CardHeader>
+					<CardTitle>Members</CardTitle>
+					<CardDescription>
+						{organization.slug} &middot; Your role: {member.role}
+					</CardDescription>
+					<CardAction>
+						<LeaveOrganization isOwner={member.role === "owner"} />
+					</CardAction>
+				</CardHeader>
+				<CardContent>
+					<ul className="divide-y">
+						{members.map((item) => (
+							<li
+								key={item.id}
+								className="flex items-center justify-between gap-4 py-4"
+							>
+								<div className="space-y-1">
+									<p className="text-sm font-medium">
+										{item.user.name}
+										{item.userId === user.id && " (you)"}
+									</p>
+									<p className="text-sm text-muted-foreground">
+										{item.user.email} &middot; Joined{" "}
+										{item.createdAt.toLocaleDateString()}
+									</p>
+								</div>
+								{canManage && item.userId !== user.id ? (
+									<div className="flex items-start gap-2">
+										<MemberRoleSelect
+											memberId={item.id}
+											email={item.user.email}
+											role={item.role}
+										/>
+										<ActionButton
+											action={removeMember.bind(null, item.id)}
+											label="Remove"
+											pendingLabel="Removing..."
+										/>
+									</div>
+								) : (
+									<span className="text-sm text-muted-foreground">
+										{item.role}
+									</span>
+								)}
+							</li>
+						))}
+					</ul>
+				</CardContent>
+			</Card>
+			{canManage && (
+				<>
+					<InviteMemberForm />
+					{invitations.length > 0 && (
+						<Card>
+							<CardHeader>
+								<CardTitle>Pending Invitations</CardTitle>
+							</CardHeader>
+							<CardContent>
+								<ul className="divide-y">
+									{invitations.map((invitation) => (
+										<li
+											key={invitation.id}
+											className="flex items-center justify-between gap-4 py-4"
+										>
+											<div className="space-y-1">
+												<p className="text-sm font-medium">
+													{invitation.email}
+												</p>
+												<p className="text-sm text-muted-foreground">
+													{invitation.role ?? "member"} &middot; Expires{" "}
+													{invitation.expiresAt.toLocaleString()}
+												</p>
+											</div>
+											<ActionButton
+												action={cancelInvitation.bind(null, invitation.id)}
+												label="Cancel"
+												pendingLabel="Canceling..."
+											/>
+										</li>
+									))}
+								</ul>
+							</CardContent>
+						</Card>
+					)}
+				</>
+			)}
+		</main>
+	);
+}
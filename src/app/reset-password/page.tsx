@@ -0,0 +1,39 @@
+import Link from "next/link";
+import {
+	Card,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { ResetPasswordForm } from "./reset-password-form";
+
+export default async function ResetPassword({
+	searchParams,
+}: {
+	searchParams: Promise<{ token?: string; error?: string }>;
+}) {
+	const { token, error } = await searchParams;
+
+	return (
+		<div className="flex min-h-screen items-center justify-center">
+			{token && !error ? (
+				<ResetPasswordForm token={token} />
+			) : (
+				<Card className="w-full max-w-sm">
+					<CardHeader>
+						<CardTitle>Invalid Link</CardTitle>
+						<CardDescription>
+							This password reset link is invalid or has expired.
+						</CardDescription>
+					</CardHeader>
+					<CardFooter>
+						<Link href="/forgot-password" className="text-sm underline">
+							Request a new link
+						</Link>
+					</CardFooter>
+				</Card>
+			)}
+		</div>
+	);
+}
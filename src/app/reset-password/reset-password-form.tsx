@@ -0,0 +1,88 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+import { useAuthForm } from "@/lib/hooks";
+import {
+	type ResetPasswordInput,
+	resetPasswordSchema,
+} from "@/lib/validations";
+
+export function ResetPasswordForm({ token }: { token: string }) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof resetPasswordSchema>({
+			schema: resetPasswordSchema,
+			initialData: {
+				password: "",
+				confirmPassword: "",
+			} satisfies ResetPasswordInput,
+			onSubmit: (data) =>
+				authClient.resetPassword({ newPassword: data.password, token }),
+			redirectTo: "/sign-in",
+		});
+
+	return (
+		<Card className="w-full max-w-sm">
+			<CardHeader>
+				<CardTitle>Reset Password</CardTitle>
+				<CardDescription>
+					Choose a new password for your account
+				</CardDescription>
+			</CardHeader>
+			<form onSubmit={handleSubmit}>
+				<CardContent className="space-y-4">
+					{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+					<div className="space-y-2">
+						<Label htmlFor="password">New Password</Label>
+						<Input
+							id="password"
+							type="password"
+							value={formData.password}
+							onChange={(e) => handleChange("password", e.target.value)}
+							aria-invalid={!!errors.password}
+							aria-describedby={errors.password ? "password-error" : undefined}
+						/>
+						{errors.password && (
+							<p id="password-error" className="text-sm text-red-500">
+								{errors.password}
+							</p>
+						)}
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="confirmPassword">Confirm Password</Label>
+						<Input
+							id="confirmPassword"
+							type="password"
+							value={formData.confirmPassword}
+							onChange={(e) => handleChange("confirmPassword", e.target.value)}
+							aria-invalid={!!errors.confirmPassword}
+							aria-describedby={
+								errors.confirmPassword ? "confirmPassword-error" : undefined
+							}
+						/>
+						{errors.confirmPassword && (
+							<p id="confirmPassword-error" className="text-sm text-red-500">
+								{errors.confirmPassword}
+							</p>
+						)}
+					</div>
+				</CardContent>
+				<CardFooter>
+					<Button type="submit" className="w-full" disabled={loading}>
+						{loading ? "Saving..." : "Reset Password"}
+					</Button>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
@@ -1,91 +1,19 @@
-"use client";
+import { describeOAuthError, getEnabledProviders } from "@/lib/auth-providers";
+import { SignInForm } from "./sign-in-form";
 
-import Link from "next/link";
-import { Button } from "@/components/ui/button";
-import {
-	Card,
-	CardContent,
-	CardDescription,
-	CardFooter,
-	CardHeader,
-	CardTitle,
-} from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { authClient } from "@/lib/auth-client";
-import { useAuthForm } from "@/lib/hooks";
-import { type SignInInput, signInSchema } from "@/lib/validations";
-
-export default function SignIn() {
-	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
-		useAuthForm<typeof signInSchema>({
-			schema: signInSchema,
-			initialData: { email: "", password: "" } satisfies SignInInput,
-			onSubmit: (data) => authClient.signIn.email(data),
-		});
+export default async function SignIn({
+	searchParams,
+}: {
+	searchParams: Promise<{ error?: string }>;
+}) {
+	const { error } = await searchParams;
 
 	return (
 		<div className="flex min-h-screen items-center justify-center">
-			<Card className="w-full max-w-sm">
-				<CardHeader>
-					<CardTitle>Sign In</CardTitle>
-					<CardDescription>
-						Enter your credentials to access your account
-					</CardDescription>
-				</CardHeader>
-				<form onSubmit={handleSubmit}>
-					<CardContent className="space-y-4">
-						{submitError && (
-							<p className="text-sm text-red-500">{submitError}</p>
-						)}
-						<div className="space-y-2">
-							<Label htmlFor="email">Email</Label>
-							<Input
-								id="email"
-								type="email"
-								value={formData.email}
-								onChange={(e) => handleChange("email", e.target.value)}
-								aria-invalid={!!errors.email}
-								aria-describedby={errors.email ? "email-error" : undefined}
-							/>
-							{errors.email && (
-								<p id="email-error" className="text-sm text-red-500">
-									{errors.email}
-								</p>
-							)}
-						</div>
-						<div className="space-y-2">
-							<Label htmlFor="password">Password</Label>
-							<Input
-								id="password"
-								type="password"
-								value={formData.password}
-								onChange={(e) => handleChange("password", e.target.value)}
-								aria-invalid={!!errors.password}
-								aria-describedby={
-									errors.password ? "password-error" : undefined
-								}
-							/>
-							{errors.password && (
-								<p id="password-error" className="text-sm text-red-500">
-									{errors.password}
-								</p>
-							)}
-						</div>
-					</CardContent>
-					<CardFooter className="flex flex-col gap-4">
-						<Button type="submit" className="w-full" disabled={loading}>
-							{loading ? "Signing in..." : "Sign In"}
-						</Button>
-						<p className="text-sm text-muted-foreground">
-							Don&apos;t have an account?{" "}
-							<Link href="/sign-up" className="underline">
-								Sign up
-							</Link>
-						</p>
-					</CardFooter>
-				</form>
-			</Card>
+			<SignInForm
+				providers={getEnabledProviders()}
+				error={describeOAuthError(error)}
+			/>
 		</div>
 	);
 }
@@ -0,0 +1,116 @@
+"use client";
+
+import Link from "next/link";
+import { OAuthButtons } from "@/components/oauth-buttons";
+import { PasskeySignIn } from "@/components/passkey-sign-in";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+import type { OAuthProviderInfo } from "@/lib/auth-providers";
+import { useAuthForm } from "@/lib/hooks";
+import { type SignInInput, signInSchema } from "@/lib/validations";
+
+interface SignInFormProps {
+	providers: OAuthProviderInfo[];
+	error?: string;
+}
+
+export function SignInForm({ providers, error }: SignInFormProps) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof signInSchema>({
+			schema: signInSchema,
+			initialData: { email: "", password: "" } satisfies SignInInput,
+			onSubmit: async (data) => {
+				const { data: result, error } = await authClient.signIn.email(data);
+				// 2FA users get no session yet; keep callbackUrl for the next step
+				if (result && "twoFactorRedirect" in result) {
+					return { redirectTo: `/two-factor${window.location.search}` };
+				}
+				return { error };
+			},
+		});
+
+	return (
+		<Card className="w-full max-w-sm">
+			<CardHeader>
+				<CardTitle>Sign In</CardTitle>
+				<CardDescription>
+					Enter your credentials to access your account
+				</CardDescription>
+			</CardHeader>
+			<form onSubmit={handleSubmit}>
+				<CardContent className="space-y-4">
+					<OAuthButtons providers={providers} errorCallbackURL="/sign-in" />
+					{(submitError || error) && (
+						<p className="text-sm text-red-500">{submitError || error}</p>
+					)}
+					<div className="space-y-2">
+						<Label htmlFor="email">Email</Label>
+						<Input
+							id="email"
+							type="email"
+							autoComplete="username webauthn"
+							value={formData.email}
+							onChange={(e) => handleChange("email", e.target.value)}
+							aria-invalid={!!errors.email}
+							aria-describedby={errors.email ? "email-error" : undefined}
+						/>
+						{errors.email && (
+							<p id="email-error" className="text-sm text-red-500">
+								{errors.email}
+							</p>
+						)}
+					</div>
+					<div className="space-y-2">
+						<div className="flex items-center justify-between">
+							<Label htmlFor="password">Password</Label>
+							<Link
+								href="/forgot-password"
+								className="text-sm text-muted-foreground underline"
+							>
+								Forgot password?
+							</Link>
+						</div>
+						<Input
+							id="password"
+							type="password"
+							autoComplete="current-password"
+							value={formData.password}
+							onChange={(e) => handleChange("password", e.target.value)}
+							aria-invalid={!!errors.password}
+							aria-describedby={errors.password ? "password-error" : undefined}
+						/>
+						{errors.password && (
+							<p id="password-error" className="text-sm text-red-500">
+								{errors.password}
+							</p>
+						)}
+					</div>
+				</CardContent>
+				<CardFooter className="flex flex-col gap-4">
+					<Button type="submit" className="w-full" disabled={loading}>
+						{loading ? "Signing in..." : "Sign In"}
+					</Button>
+					<div className="w-full">
+						<PasskeySignIn />
+					</div>
+					<p className="text-sm text-muted-foreground">
+						Don&apos;t have an account?{" "}
+						<Link href="/sign-up" className="underline">
+							Sign up
+						</Link>
+					</p>
+				</CardFooter>
+			</form>
+		</Card>
+	);
+}
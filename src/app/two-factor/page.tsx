@@ -0,0 +1,9 @@
+import { TwoFactorForm } from "./two-factor-form";
+
+export default function TwoFactor() {
+	return (
+		<div className="flex min-h-screen items-center justify-center">
+			<TwoFactorForm />
+		</div>
+	);
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+import { useAuthForm } from "@/lib/hooks";
+import {
+	type BackupCodeInput,
+	backupCodeSchema,
+	type TwoFactorCodeInput,
+	twoFactorCodeSchema,
+} from "@/lib/validations";
+
+type Mode = "totp" | "backup";
+
+const copy: Record<Mode, { description: string; label: string }> = {
+	totp: {
+		description: "Enter the 6-digit code from your authenticator app",
+		label: "Authentication Code",
+	},
+	backup: {
+		description: "Enter one of the backup codes you saved when enabling 2FA",
+		label: "Backup Code",
+	},
+};
+
+function CodeForm({ mode, trustDevice }: { mode: Mode; trustDevice: boolean }) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof twoFactorCodeSchema | typeof backupCodeSchema>({
+			schema: mode === "totp" ? twoFactorCodeSchema : backupCodeSchema,
+			initialData: { code: "" } satisfies TwoFactorCodeInput & BackupCodeInput,
+			onSubmit: (data) =>
+				mode === "totp"
+					? authClient.twoFactor.verifyTotp({ code: data.code, trustDevice })
+					: authClient.twoFactor.verifyBackupCode({
+							code: data.code,
+							trustDevice,
+						}),
+		});
+
+	return (
+		<form onSubmit={handleSubmit} className="space-y-4">
+			{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+			<div className="space-y-2">
+				<Label htmlFor="code">{copy[mode].label}</Label>
+				<Input
+					id="code"
+					type="text"
+					inputMode={mode === "totp" ? "numeric" : "text"}
+					autoComplete="one-time-code"
+					autoFocus
+					value={formData.code}
+					onChange={(e) => handleChange("code", e.target.value)}
+					aria-invalid={!!errors.code}
+					aria-describedby={errors.code ? "code-error" : undefined}
+				/>
+				{errors.code && (
+					<p id="code-error" className="text-sm text-red-500">
+						{errors.code}
+					</p>
+				)}
+			</div>
+			<Button type="submit" className="w-full" disabled={loading}>
+				{loading ? "Verifying..." : "Verify"}
+			</Button>
+		</form>
+	);
+}
+
+export function TwoFactorForm() {
+	const [mode, setMode] = useState<Mode>("totp");
+	const [trustDevice, setTrustDevice] = useState(false);
+
+	return (
+		<Card className="w-full max-w-sm">
+			<CardHeader>
+				<CardTitle>Two-Factor Authentication</CardTitle>
+				<CardDescription>{copy[mode].description}</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{/* key resets the form state when switching modes */}
+				<CodeForm key={mode} mode={mode} trustDevice={trustDevice} />
+				<label className="flex items-center gap-2 text-sm">
+					<input
+						type="checkbox"
+						checked={trustDevice}
+						onChange={(e) => setTrustDevice(e.target.checked)}
+					/>
+					Trust this device for 30 days
+				</label>
+			</CardContent>
+			<CardFooter className="flex flex-col gap-2 text-sm text-muted-foreground">
+				<button
+					type="button"
+					className="underline"
+					onClick={() => setMode(mode === "totp" ? "backup" : "totp")}
+				>
+					{mode === "totp"
+						? "Use a backup code instead"
+						: "Use your authenticator app instead"}
+				</button>
+				<Link href="/sign-in" className="underline">
+					Back to sign in
+				</Link>
+			</CardFooter>
+		</Card>
+	);
+}
@@ -0,0 +1,59 @@
+import Link from "next/link";
+import {
+	Card,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { getSession } from "@/lib/session";
+import { ResendVerificationForm } from "./resend-verification-form";
+
+export default async function VerifyEmail({
+	searchParams,
+}: {
+	searchParams: Promise<{ error?: string; sent?: string }>;
+}) {
+	const { error, sent } = await searchParams;
+	const session = await getSession();
+
+	if (session?.user.emailVerified) {
+		return (
+			<div className="flex min-h-screen items-center justify-center">
+				<Card className="w-full max-w-sm">
+					<CardHeader>
+						<CardTitle>Email Verified</CardTitle>
+						<CardDescription>
+							{session.user.email} has been confirmed.
+						</CardDescription>
+					</CardHeader>
+					<CardFooter>
+						<Link href="/" className="text-sm underline">
+							Continue
+						</Link>
+					</CardFooter>
+				</Card>
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex min-h-screen items-center justify-center">
+			<Card className="w-full max-w-sm">
+				<CardHeader>
+					<CardTitle>
+						{error ? "Verification Failed" : "Verify Your Email"}
+					</CardTitle>
+					<CardDescription>
+						{error
+							? "This verification link is invalid or has expired. Request a new one below."
+							: sent
+								? "A new verification link is on its way. Check your inbox."
+								: "We sent a verification link to your email address. Didn't get it? Request a new one below."}
+					</CardDescription>
+				</CardHeader>
+				<ResendVerificationForm email={session?.user.email} />
+			</Card>
+		</div>
+	);
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { CardContent, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authClient } from "@/lib/auth-client";
+import { useAuthForm } from "@/lib/hooks";
+import {
+	type ResendVerificationInput,
+	resendVerificationSchema,
+} from "@/lib/validations";
+
+export function ResendVerificationForm({ email }: { email?: string }) {
+	const { formData, errors, submitError, loading, handleChange, handleSubmit } =
+		useAuthForm<typeof resendVerificationSchema>({
+			schema: resendVerificationSchema,
+			initialData: { email: email ?? "" } satisfies ResendVerificationInput,
+			onSubmit: (data) =>
+				authClient.sendVerificationEmail({
+					email: data.email,
+					callbackURL: "/verify-email",
+				}),
+			redirectTo: "/verify-email?sent=1",
+		});
+
+	return (
+		<form onSubmit={handleSubmit}>
+			<CardContent className="space-y-4">
+				{submitError && <p className="text-sm text-red-500">{submitError}</p>}
+				<div className="space-y-2">
+					<Label htmlFor="email">Email</Label>
+					<Input
+						id="email"
+						type="email"
+						value={formData.email}
+						onChange={(e) => handleChange("email", e.target.value)}
+						aria-invalid={!!errors.email}
+						aria-describedby={errors.email ? "email-error" : undefined}
+					/>
+					{errors.email && (
+						<p id="email-error" className="text-sm text-red-500">
+							{errors.email}
+						</p>
+					)}
+				</div>
+			</CardContent>
+			<CardFooter className="mt-6">
+				<Button type="submit" className="w-full" disabled={loading}>
+					{loading ? "Sending..." : "Resend Verification Email"}
+				</Button>
+			</CardFooter>
+		</form>
+	);
+}
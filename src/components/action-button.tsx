@@ -0,0 +1,51 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import type { ActionResult } from "@/lib/validations";
+
+interface ActionButtonProps {
+	action: () => Promise<ActionResult>;
+	label: string;
+	pendingLabel: string;
+	variant?: "default" | "outline" | "destructive";
+	/** Runs after the action succeeds (e.g. to navigate) */
+	onSuccess?: () => void;
+}
+
+export function ActionButton({
+	action,
+	label,
+	pendingLabel,
+	variant = "outline",
+	onSuccess,
+}: ActionButtonProps) {
+	const [pending, startTransition] = useTransition();
+	const [error, setError] = useState("");
+
+	function handleClick() {
+		setError("");
+		startTransition(async () => {
+			const result = await action();
+			if (!result.success) {
+				setError(result.message ?? "An error occurred");
+				return;
+			}
+			onSuccess?.();
+		});
+	}
+
+	return (
+		<div className="flex flex-col items-end gap-1">
+			<Button
+				variant={variant}
+				size="sm"
+				onClick={handleClick}
+				disabled={pending}
+			>
+				{pending ? pendingLabel : label}
+			</Button>
+			{error && <p className="text-sm text-red-500">{error}</p>}
+		</div>
+	);
+}
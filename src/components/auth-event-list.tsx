@@ -0,0 +1,62 @@
+import type { AuthEvent } from "@/generated/prisma/client";
+import { parseUserAgent } from "@/lib/user-agent";
+import { formatRelativeTime } from "@/lib/utils";
+import type { AuthEventType } from "@/lib/validations";
+
+export const AUTH_EVENT_LABELS: Record<AuthEventType, string> = {
+	"sign-in.success": "Signed in",
+	"sign-in.failure": "Failed sign-in",
+	"sign-up": "Account created",
+	"sign-out": "Signed out",
+	"session.revoke": "Session revoked",
+	"password.change": "Password changed",
+	"password.reset": "Password reset",
+};
+
+interface AuthEventListProps {
+	events: AuthEvent[];
+	/** Show which account each event belongs to (admin view) */
+	showEmail?: boolean;
+}
+
+export function AuthEventList({ events, showEmail }: AuthEventListProps) {
+	return (
+		<ul className="divide-y">
+			{events.map((event) => {
+				const { browser, os } = parseUserAgent(event.userAgent);
+				const label =
+					AUTH_EVENT_LABELS[event.type as AuthEventType] ?? event.type;
+
+				return (
+					<li key={event.id} className="space-y-1 py-3">
+						<p className="text-sm font-medium">
+							<span
+								className={
+									event.type === "sign-in.failure" ? "text-red-600" : undefined
+								}
+							>
+								{label}
+							</span>
+							{event.method && (
+								<span className="font-normal text-muted-foreground">
+									{" "}
+									with {event.method}
+								</span>
+							)}
+							{showEmail && event.email && (
+								<span className="font-normal"> &middot; {event.email}</span>
+							)}
+						</p>
+						<p
+							className="text-sm text-muted-foreground"
+							title={event.createdAt.toLocaleString()}
+						>
+							{formatRelativeTime(event.createdAt)} &middot; {browser} on {os}{" "}
+							&middot; {event.ipAddress ?? "Unknown IP"}
+						</p>
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
@@ -2,6 +2,8 @@
 
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
+import { OrganizationSwitcher } from "@/components/organization-switcher";
 import { Button } from "@/components/ui/button";
 import { authClient } from "@/lib/auth-client";
 
@@ -15,8 +17,17 @@ export function Header() {
 		router.refresh();
 	}
 
+	async function handleSignOutEverywhere() {
+		// Revokes every session (this one included), then clears the cookie
+		await authClient.revokeSessions();
+		await handleSignOut();
+	}
+
 	return (
 		<header className="border-b">
+			{session?.session.impersonatedBy && (
+				<ImpersonationBanner email={session.user.email} />
+			)}
 			<div className="container mx-auto flex h-14 items-center justify-between px-4">
 				<Link href="/" className="font-semibold">
 					App
@@ -24,12 +35,43 @@ export function Header() {
 				<nav className="flex items-center gap-4">
 					{isPending ? null : session ? (
 						<>
-							<span className="text-sm text-muted-foreground">
+							<OrganizationSwitcher
+								activeOrganizationId={
+									session.session.activeOrganizationId ?? null
+								}
+							/>
+							{session.session.activeOrganizationId && (
+								<Link
+									href="/organization"
+									className="text-sm text-muted-foreground hover:underline"
+								>
+									Members
+								</Link>
+							)}
+							{session.user.role === "admin" && (
+								<Link
+									href="/admin"
+									className="text-sm text-muted-foreground hover:underline"
+								>
+									Admin
+								</Link>
+							)}
+							<Link
+								href="/account"
+								className="text-sm text-muted-foreground hover:underline"
+							>
 								{session.user.email}
-							</span>
+							</Link>
 							<Button variant="outline" size="sm" onClick={handleSignOut}>
 								Sign Out
 							</Button>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={handleSignOutEverywhere}
+							>
+								Sign Out Everywhere
+							</Button>
 						</>
 					) : (
 						<>
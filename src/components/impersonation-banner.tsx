@@ -0,0 +1,30 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { stopImpersonating } from "@/app/admin/users/actions";
+import { ActionButton } from "@/components/action-button";
+import { authClient } from "@/lib/auth-client";
+
+/**
+ * Shown while an admin is browsing as another user.
+ */
+export function ImpersonationBanner({ email }: { email: string }) {
+	const router = useRouter();
+
+	return (
+		<div className="flex items-center justify-center gap-4 bg-amber-100 px-4 py-2 text-sm text-amber-900">
+			<span>You are signed in as {email} by impersonation.</span>
+			<ActionButton
+				action={stopImpersonating}
+				label="Stop impersonating"
+				pendingLabel="Stopping..."
+				onSuccess={() => {
+					// The server swapped the cookie back; refresh useSession() too
+					authClient.$store.notify("$sessionSignal");
+					router.push("/admin/users");
+					router.refresh();
+				}}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { authClient } from "@/lib/auth-client";
+import type { OAuthProviderInfo, SocialProviderId } from "@/lib/auth-providers";
+import { getSafeCallbackUrl } from "@/lib/routes";
+
+interface OAuthButtonsProps {
+	providers: OAuthProviderInfo[];
+	/** Page to return to when the provider reports an error */
+	errorCallbackURL: string;
+}
+
+export function OAuthButtons({
+	providers,
+	errorCallbackURL,
+}: OAuthButtonsProps) {
+	const [pending, setPending] = useState<string | null>(null);
+
+	if (providers.length === 0) return null;
+
+	async function handleClick(provider: OAuthProviderInfo) {
+		setPending(provider.id);
+		const callbackURL = getSafeCallbackUrl(
+			new URLSearchParams(window.location.search).get("callbackUrl"),
+		);
+
+		// Both calls redirect the browser to the provider on success
+		const { error } =
+			provider.kind === "oidc"
+				? await authClient.signIn.oauth2({
+						providerId: provider.id,
+						callbackURL,
+						errorCallbackURL,
+					})
+				: await authClient.signIn.social({
+						provider: provider.id as SocialProviderId,
+						callbackURL,
+						errorCallbackURL,
+					});
+
+		if (error) setPending(null);
+	}
+
+	return (
+		<div className="space-y-2">
+			{providers.map((provider) => (
+				<Button
+					key={provider.id}
+					type="button"
+					variant="outline"
+					className="w-full"
+					disabled={pending !== null}
+					onClick={() => handleClick(provider)}
+				>
+					{pending === provider.id
+						? "Redirecting..."
+						: `Continue with ${provider.name}`}
+				</Button>
+			))}
+			<div className="flex items-center gap-2 text-xs text-muted-foreground">
+				<span className="h-px flex-1 bg-border" />
+				or
+				<span className="h-px flex-1 bg-border" />
+			</div>
+		</div>
+	);
+}
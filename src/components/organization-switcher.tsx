@@ -0,0 +1,57 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { authClient } from "@/lib/auth-client";
+
+const NEW_ORGANIZATION = "__new__";
+
+/**
+ * Select for the session's active organization, shown in the header.
+ */
+export function OrganizationSwitcher({
+	activeOrganizationId,
+}: {
+	activeOrganizationId: string | null;
+}) {
+	const router = useRouter();
+	const { data: organizations } = authClient.useListOrganizations();
+	const [pending, setPending] = useState(false);
+
+	async function handleChange(value: string) {
+		if (value === NEW_ORGANIZATION) {
+			router.push("/organization/new");
+			return;
+		}
+
+		setPending(true);
+		await authClient.organization.setActive({ organizationId: value });
+		setPending(false);
+		// Server components read the active organization from the session
+		router.refresh();
+	}
+
+	if (!organizations) return null;
+
+	return (
+		<select
+			aria-label="Active organization"
+			className="h-8 max-w-48 rounded-md border bg-transparent px-2 text-sm"
+			value={activeOrganizationId ?? ""}
+			disabled={pending}
+			onChange={(e) => handleChange(e.target.value)}
+		>
+			{!activeOrganizationId && (
+				<option value="" disabled>
+					No organization
+				</option>
+			)}
+			{organizations.map((organization) => (
+				<option key={organization.id} value={organization.id}>
+					{organization.name}
+				</option>
+			))}
+			<option value={NEW_ORGANIZATION}>+ New organization</option>
+		</select>
+	);
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { authClient } from "@/lib/auth-client";
+import { getSafeCallbackUrl } from "@/lib/routes";
+
+function getCallbackUrl() {
+	return getSafeCallbackUrl(
+		new URLSearchParams(window.location.search).get("callbackUrl"),
+	);
+}
+
+/**
+ * "Sign in with passkey" button. Also starts a conditional-UI request on
+ * mount so browsers offer saved passkeys in the autofill dropdown of any
+ * input marked `autoComplete="username webauthn"`.
+ */
+export function PasskeySignIn() {
+	const router = useRouter();
+	const [pending, setPending] = useState(false);
+	const [error, setError] = useState("");
+
+	useEffect(() => {
+		let cancelled = false;
+
+		async function startAutofill() {
+			if (!(await PublicKeyCredential.isConditionalMediationAvailable?.())) {
+				return;
+			}
+			// Errors here are expected (the request is aborted when the button
+			// starts its own ceremony), so only success is acted on
+			const { data } = await authClient.signIn.passkey({ autoFill: true });
+			if (data && !cancelled) {
+				router.push(getCallbackUrl());
+				router.refresh();
+			}
+		}
+
+		if (typeof PublicKeyCredential !== "undefined") startAutofill();
+		return () => {
+			cancelled = true;
+		};
+	}, [router]);
+
+	async function handleClick() {
+		setPending(true);
+		setError("");
+
+		const { data, error } = await authClient.signIn.passkey();
+		if (!data) {
+			setError(error?.message ?? "Passkey sign-in was cancelled");
+			setPending(false);
+			return;
+		}
+
+		router.push(getCallbackUrl());
+		router.refresh();
+	}
+
+	return (
+		<div className="space-y-2">
+			<Button
+				type="button"
+				variant="outline"
+				className="w-full"
+				disabled={pending}
+				onClick={handleClick}
+			>
+				{pending ? "Waiting for passkey..." : "Sign in with passkey"}
+			</Button>
+			{error && <p className="text-sm text-red-500">{error}</p>}
+		</div>
+	);
+}
@@ -0,0 +1,47 @@
+import type { Instrumentation } from "next";
+
+/**
+ * Runs once when a server instance starts.
+ */
+export async function register() {
+	if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+	// Refuses to start with missing or invalid environment variables
+	const { env } = await import("./lib/env");
+
+	const { startTelemetry } = await import("./lib/telemetry");
+	startTelemetry();
+
+	// Run background jobs in the app server unless a separate worker
+	// (`pnpm worker`, see scripts/worker.ts) is deployed
+	if (env.JOB_WORKER !== "external") {
+		const { logger } = await import("./lib/logger");
+		const { runWorker } = await import("./lib/jobs/worker");
+		runWorker().catch((error) => {
+			logger.error("Job worker stopped", { err: error });
+		});
+	}
+}
+
+/**
+ * Logs errors thrown while rendering, in route handlers, server actions and
+ * the proxy, tagged with the request ID set by src/proxy.ts.
+ */
+export const onRequestError: Instrumentation.onRequestError = async (
+	error,
+	request,
+	context,
+) => {
+	if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+	const { logger, REQUEST_ID_HEADER } = await import("./lib/logger");
+	logger.error("Unhandled error", {
+		err: error,
+		requestId: request.headers[REQUEST_ID_HEADER],
+		method: request.method,
+		// Query strings can hold tokens (e.g. email verification links)
+		path: request.path.split("?")[0],
+		route: context.routePath,
+		routeType: context.routeType,
+	});
+};
@@ -0,0 +1,87 @@
+import { APIError } from "better-auth/api";
+import { z } from "zod/v4";
+import { Prisma } from "@/generated/prisma/client";
+import type { ActionResult } from "./validations";
+
+/**
+ * Throw from an action handler to fail with a message shown to the user.
+ */
+export class ActionError extends Error {
+	constructor(
+		message: string,
+		readonly errors?: Record<string, string[]>,
+	) {
+		super(message);
+		this.name = "ActionError";
+	}
+}
+
+/**
+ * ActionResult for input that failed schema validation.
+ */
+export function invalidResult(error: z.ZodError): ActionResult<never> {
+	return {
+		success: false,
+		message: "Please fix the highlighted fields",
+		errors: z.flattenError(error).fieldErrors as Record<string, string[]>,
+	};
+}
+
+/**
+ * ActionResult for a better-auth APIError; anything else is rethrown.
+ */
+export function apiErrorResult(error: unknown): ActionResult<never> {
+	if (error instanceof APIError) {
+		return { success: false, message: error.message };
+	}
+	throw error;
+}
+
+/** Friendlier wording for unique fields users type in themselves */
+const UNIQUE_FIELD_MESSAGES: Record<string, string> = {
+	email: "An account with this email already exists",
+	slug: "This slug is already taken",
+};
+
+/**
+ * Fields of a failed unique constraint. Prisma reports them in `target`
+ * for its own engine and on the driver adapter error otherwise.
+ */
+function uniqueConstraintFields(error: Prisma.PrismaClientKnownRequestError) {
+	const { target, driverAdapterError } = error.meta as {
+		target?: string | string[];
+		driverAdapterError?: { cause?: { constraint?: { fields?: string[] } } };
+	};
+	if (Array.isArray(target)) return target;
+	if (typeof target === "string") return [target];
+	return driverAdapterError?.cause?.constraint?.fields ?? [];
+}
+
+/**
+ * ActionResult for a Prisma unique-constraint or record-not-found error;
+ * anything else is rethrown.
+ */
+export function prismaErrorResult(error: unknown): ActionResult<never> {
+	if (!(error instanceof Prisma.PrismaClientKnownRequestError)) throw error;
+
+	switch (error.code) {
+		case "P2002": {
+			const fields = uniqueConstraintFields(error).map((field) =>
+				field.replaceAll('"', ""),
+			);
+			const field = fields.find((name) => name in UNIQUE_FIELD_MESSAGES);
+			const message = field
+				? UNIQUE_FIELD_MESSAGES[field]
+				: "A record with these details already exists";
+			return {
+				success: false,
+				message,
+				errors: field ? { [field]: [message] } : undefined,
+			};
+		}
+		case "P2025":
+			return { success: false, message: "That record no longer exists" };
+		default:
+			throw error;
+	}
+}
@@ -0,0 +1,96 @@
+import type { Prisma } from "@/generated/prisma/client";
+import { prisma } from "./prisma";
+import {
+	type AdminAuditAction,
+	type AdminUserList,
+	adminUserListSchema,
+	type PaginationInput,
+	type SearchInput,
+} from "./validations";
+
+// =============================================================================
+// ADMIN - User queries and audit trail for the admin console
+// =============================================================================
+
+/**
+ * Users matching `q` (name or email), newest first.
+ */
+export async function listUsers({
+	q,
+	page,
+	limit,
+}: SearchInput): Promise<AdminUserList> {
+	const where: Prisma.UserWhereInput = q
+		? {
+				OR: [
+					{ email: { contains: q, mode: "insensitive" } },
+					{ name: { contains: q, mode: "insensitive" } },
+				],
+			}
+		: {};
+
+	const [users, total] = await Promise.all([
+		prisma.user.findMany({
+			where,
+			orderBy: { createdAt: "desc" },
+			skip: (page - 1) * limit,
+			take: limit,
+		}),
+		prisma.user.count({ where }),
+	]);
+
+	return adminUserListSchema.parse({
+		items: users,
+		meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+	});
+}
+
+interface AdminActionRecord {
+	action: AdminAuditAction;
+	actor: { id: string; email: string };
+	target: { id: string; email: string };
+	details?: Prisma.InputJsonObject;
+	ipAddress?: string | null;
+}
+
+/**
+ * Append an entry to the admin audit trail.
+ */
+export async function recordAdminAction({
+	action,
+	actor,
+	target,
+	details,
+	ipAddress,
+}: AdminActionRecord) {
+	await prisma.adminAuditLog.create({
+		data: {
+			action,
+			actorId: actor.id,
+			actorEmail: actor.email,
+			targetId: target.id,
+			targetEmail: target.email,
+			details,
+			ipAddress,
+		},
+	});
+}
+
+/**
+ * Audit trail entries, newest first.
+ */
+export async function listAdminActions({ page, limit }: PaginationInput) {
+	const [items, total] = await Promise.all([
+		prisma.adminAuditLog.findMany({
+			orderBy: { createdAt: "desc" },
+			skip: (page - 1) * limit,
+			take: limit,
+		}),
+		prisma.adminAuditLog.count(),
+	]);
+
+	return {
+		items,
+		meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+	};
+}
@@ -0,0 +1,76 @@
+import { prisma } from "./prisma";
+import { type ApiKeyScope, apiKeyScopeSchema } from "./validations";
+
+// =============================================================================
+// API KEYS - Personal keys sent as `Authorization: Bearer <key>`
+// =============================================================================
+
+/** Keys look like `app_<64 letters>` so they are easy to spot in leaks */
+export const API_KEY_PREFIX = "app_";
+
+/**
+ * The token from an `Authorization: Bearer <token>` header, or null.
+ */
+export function getBearerToken(headers: Headers | null | undefined) {
+	const match = headers?.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+	return match?.[1] ?? null;
+}
+
+/**
+ * better-auth stores permissions as `{ resource: [action] }`; scopes are
+ * the flattened "resource:action" form.
+ */
+export function scopesToPermissions(scopes: ApiKeyScope[]) {
+	const permissions: Record<string, string[]> = {};
+	for (const scope of scopes) {
+		const [resource, action] = scope.split(":");
+		permissions[resource] = [...(permissions[resource] ?? []), action];
+	}
+	return permissions;
+}
+
+function permissionsToScopes(permissions: string | null): ApiKeyScope[] {
+	if (!permissions) return [];
+
+	const parsed = JSON.parse(permissions) as Record<string, string[]>;
+	return Object.entries(parsed).flatMap(([resource, actions]) =>
+		actions.flatMap((action) => {
+			const scope = apiKeyScopeSchema.safeParse(`${resource}:${action}`);
+			return scope.success ? [scope.data] : [];
+		}),
+	);
+}
+
+/**
+ * Scopes granted to an API key.
+ */
+export async function getApiKeyScopes(apiKeyId: string) {
+	const apiKey = await prisma.apiKey.findUnique({
+		where: { id: apiKeyId },
+		select: { permissions: true },
+	});
+	return permissionsToScopes(apiKey?.permissions ?? null);
+}
+
+/**
+ * A user's API keys for the account page; never includes the key hash.
+ */
+export async function listApiKeys(userId: string) {
+	const apiKeys = await prisma.apiKey.findMany({
+		where: { userId },
+		orderBy: { createdAt: "desc" },
+		select: {
+			id: true,
+			name: true,
+			start: true,
+			permissions: true,
+			expiresAt: true,
+			lastRequest: true,
+			createdAt: true,
+		},
+	});
+	return apiKeys.map(({ permissions, ...apiKey }) => ({
+		...apiKey,
+		scopes: permissionsToScopes(permissions),
+	}));
+}
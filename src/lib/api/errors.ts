@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { z } from "zod/v4";
+import { Prisma } from "@/generated/prisma/client";
+import { logger } from "@/lib/logger";
+import type { ApiErrorBody } from "@/lib/validations";
+
+/**
+ * Throw from a route handler to respond with a JSON error envelope.
+ *
+ * @example
+ * throw new ApiError(404, "NOT_FOUND", "User not found");
+ */
+export class ApiError extends Error {
+	constructor(
+		readonly status: number,
+		readonly code: string,
+		message: string,
+		readonly details?: Record<string, string[]>,
+		readonly headers?: Record<string, string>,
+	) {
+		super(message);
+		this.name = "ApiError";
+	}
+}
+
+export function errorResponse(
+	status: number,
+	code: string,
+	message: string,
+	details?: Record<string, string[]>,
+	headers?: Record<string, string>,
+) {
+	return NextResponse.json<ApiErrorBody>(
+		{ error: { code, message, details } },
+		{ status, headers },
+	);
+}
+
+/**
+ * 400 for input that failed schema validation, with errors per field.
+ */
+export function validationError(error: z.ZodError) {
+	const { formErrors, fieldErrors } = z.flattenError(error);
+	return new ApiError(
+		400,
+		"VALIDATION_ERROR",
+		formErrors[0] ?? "Invalid request",
+		fieldErrors as Record<string, string[]>,
+	);
+}
+
+/**
+ * JSON error envelope for anything a route handler throws. Unexpected
+ * errors are logged and hidden behind a generic 500, including a ZodError
+ * not wrapped by `validationError`: that is the server's own data failing
+ * its schema, not bad input.
+ */
+export function toErrorResponse(error: unknown) {
+	if (error instanceof ApiError) {
+		return errorResponse(
+			error.status,
+			error.code,
+			error.message,
+			error.details,
+			error.headers,
+		);
+	}
+	if (error instanceof Prisma.PrismaClientKnownRequestError) {
+		if (error.code === "P2025") {
+			return errorResponse(404, "NOT_FOUND", "Resource not found");
+		}
+		if (error.code === "P2002") {
+			return errorResponse(409, "CONFLICT", "Resource already exists");
+		}
+	}
+
+	logger.error("Unhandled error in route handler", { err: error });
+	return errorResponse(500, "INTERNAL_ERROR", "Something went wrong");
+}
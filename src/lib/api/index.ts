@@ -0,0 +1,138 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod/v4";
+import { withRequestContext } from "@/lib/logger";
+import type { Operation, OperationAuth } from "@/lib/openapi";
+import { getCurrentUser } from "@/lib/session";
+import type { SessionUser } from "@/lib/validations";
+import { requireApiUser } from "./auth";
+import { ApiError, toErrorResponse, validationError } from "./errors";
+
+export { requireApiUser };
+export { ApiError, errorResponse, toErrorResponse } from "./errors";
+export {
+	cursorArgs,
+	cursorPage,
+	pageArgs,
+	pageMeta,
+	sortArgs,
+} from "./pagination";
+
+// =============================================================================
+// API - Route handler toolkit: input parsing and JSON error envelopes
+// =============================================================================
+
+interface RouteContext {
+	params: Promise<unknown>;
+}
+
+/** What an `apiRoute` handler receives, parsed with the operation's schemas */
+export interface ApiInput<
+	TQuery extends z.ZodType,
+	TParams extends z.ZodType,
+	TBody extends z.ZodType,
+	TAuth extends OperationAuth,
+> {
+	request: Request;
+	user: TAuth extends "public" ? SessionUser | null : SessionUser;
+	query: z.output<TQuery>;
+	params: z.output<TParams>;
+	body: z.output<TBody>;
+}
+
+/**
+ * Route handler for an operation from `src/lib/openapi/operations.ts`, so
+ * the route and the OpenAPI spec share one contract. Checks `auth` (and
+ * `scope` for API keys), parses query, params and body, and validates the
+ * returned data against `response`. Anything thrown (ApiError, Prisma
+ * not-found/unique errors) becomes a JSON error envelope; invalid input is a
+ * 400, while a response that breaks its schema is logged as a 500. Logs
+ * written while handling the request carry its request ID.
+ *
+ * @example
+ * export const GET = apiRoute(getUser, async ({ params }) =>
+ * 	getUserById(params.id),
+ * );
+ */
+export function apiRoute<
+	TQuery extends z.ZodType,
+	TParams extends z.ZodType,
+	TBody extends z.ZodType,
+	TResponse extends z.ZodType,
+	TAuth extends OperationAuth,
+>(
+	operation: Operation<TQuery, TParams, TBody, TResponse, TAuth>,
+	handler: (
+		input: ApiInput<TQuery, TParams, TBody, TAuth>,
+	) => Promise<z.input<TResponse>>,
+) {
+	return (request: Request, context: RouteContext) =>
+		withRequestContext(request.headers, async () => {
+			try {
+				const user =
+					operation.auth === "public"
+						? await getCurrentUser()
+						: await requireApiUser(
+								operation.auth === "admin" ? "admin" : undefined,
+								operation.scope,
+							);
+				const input = {
+					request,
+					user,
+					query: operation.query && parseQuery(request, operation.query),
+					params:
+						operation.params &&
+						(await parseParams(context.params, operation.params)),
+					body: operation.body && (await parseBody(request, operation.body)),
+				} as ApiInput<TQuery, TParams, TBody, TAuth>;
+
+				const data = await handler(input);
+				return NextResponse.json(operation.response.parse(data));
+			} catch (error) {
+				return toErrorResponse(error);
+			}
+		});
+}
+
+function parseWith<TSchema extends z.ZodType>(
+	schema: TSchema,
+	input: unknown,
+): z.output<TSchema> {
+	const result = schema.safeParse(input);
+	if (!result.success) throw validationError(result.error);
+	return result.data;
+}
+
+/**
+ * Query string parsed with `schema`; throws a 400 on invalid input.
+ */
+export function parseQuery<TSchema extends z.ZodType>(
+	request: Request,
+	schema: TSchema,
+) {
+	const query = Object.fromEntries(new URL(request.url).searchParams);
+	return parseWith(schema, query);
+}
+
+/**
+ * Dynamic route params parsed with `schema`; throws a 400 on invalid input.
+ */
+export async function parseParams<TSchema extends z.ZodType>(
+	params: Promise<unknown>,
+	schema: TSchema,
+) {
+	return parseWith(schema, await params);
+}
+
+/**
+ * JSON body parsed with `schema`; throws a 400 on invalid JSON or input.
+ */
+export async function parseBody<TSchema extends z.ZodType>(
+	request: Request,
+	schema: TSchema,
+) {
+	const body = await request.json().catch(() => undefined);
+	if (body === undefined) {
+		throw new ApiError(400, "INVALID_JSON", "Request body must be JSON");
+	}
+	return parseWith(schema, body);
+}
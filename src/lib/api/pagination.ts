@@ -0,0 +1,56 @@
+import type {
+	CursorPaginationInput,
+	PaginationInput,
+	SortValue,
+} from "@/lib/validations";
+
+/**
+ * `meta` for an offset-paginated response.
+ */
+export function pageMeta({ page, limit }: PaginationInput, total: number) {
+	return { page, limit, total, totalPages: Math.ceil(total / limit) };
+}
+
+/**
+ * Prisma `skip`/`take` for a page.
+ */
+export function pageArgs({ page, limit }: PaginationInput) {
+	return { skip: (page - 1) * limit, take: limit };
+}
+
+/**
+ * Prisma `orderBy` for a `sortSchema` value, with `id` as a tiebreaker so
+ * cursor pagination is stable when the sort field has duplicates.
+ */
+export function sortArgs<T extends string>(sort: SortValue<T>) {
+	const descending = sort.startsWith("-");
+	const field = (descending ? sort.slice(1) : sort) as T;
+	const direction = descending ? ("desc" as const) : ("asc" as const);
+	return [
+		{ [field]: direction } as Record<T, "asc" | "desc">,
+		{ id: direction },
+	];
+}
+
+/**
+ * Prisma `cursor`/`skip`/`take` for a cursor page. One extra row is fetched
+ * to tell whether there is a next page; pass the rows to `cursorPage`.
+ */
+export function cursorArgs({ cursor, limit }: CursorPaginationInput): {
+	cursor?: { id: string };
+	skip?: number;
+	take: number;
+} {
+	return cursor
+		? { cursor: { id: cursor }, skip: 1, take: limit + 1 }
+		: { take: limit + 1 };
+}
+
+/**
+ * Trim the extra row fetched by `cursorArgs` and build the response.
+ */
+export function cursorPage<T extends { id: string }>(rows: T[], limit: number) {
+	const items = rows.slice(0, limit);
+	const nextCursor = rows.length > limit ? (items.at(-1)?.id ?? null) : null;
+	return { items, meta: { limit, nextCursor } };
+}
@@ -1,5 +1,32 @@
 "use client";
 
+import { passkeyClient } from "@better-auth/passkey/client";
+import {
+	adminClient,
+	genericOAuthClient,
+	organizationClient,
+	twoFactorClient,
+} from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
+import { clientEnv } from "./env";
+import { ac, roles } from "./permissions";
 
-export const authClient = createAuthClient();
+export const authClient = createAuthClient({
+	baseURL: clientEnv.NEXT_PUBLIC_APP_URL,
+	plugins: [
+		genericOAuthClient(),
+		twoFactorClient(),
+		passkeyClient(),
+		adminClient({ ac, roles }),
+		organizationClient(),
+	],
+});
+
+/**
+ * Refetch useSession() and the organization list after a server action
+ * created, joined, left or switched an organization.
+ */
+export function notifyOrganizationChange() {
+	authClient.$store.notify("$listOrg");
+	authClient.$store.notify("$sessionSignal");
+}
@@ -0,0 +1,291 @@
+import type { BetterAuthPlugin } from "better-auth";
+import {
+	APIError,
+	createAuthMiddleware,
+	getSessionFromCtx,
+} from "better-auth/api";
+import type { Prisma } from "@/generated/prisma/client";
+import { getClientIp } from "./client-ip";
+import { metrics } from "./metrics";
+import { prisma } from "./prisma";
+import type { AuthEventFilterInput, AuthEventType } from "./validations";
+
+// =============================================================================
+// AUTH EVENTS - Security log of sign-ins, sign-outs and credential changes
+// =============================================================================
+
+interface AuthEventRecord {
+	type: AuthEventType;
+	userId?: string | null;
+	email?: string | null;
+	method?: string | null;
+	/** Request headers, for IP address and user agent */
+	headers?: Headers | null;
+	metadata?: Prisma.InputJsonObject;
+}
+
+/**
+ * Append an event to the AuthEvent log. IP and user agent are read from the
+ * request headers the same way better-auth fills them in on Session.
+ */
+export async function recordAuthEvent({
+	type,
+	userId,
+	email,
+	method,
+	headers,
+	metadata,
+}: AuthEventRecord) {
+	metrics.authEvents.inc({ type, method: method ?? "" });
+	await prisma.authEvent.create({
+		data: {
+			type,
+			userId,
+			email,
+			method,
+			ipAddress: headers ? getClientIp(headers) : null,
+			userAgent: headers?.get("user-agent") ?? null,
+			metadata,
+		},
+	});
+}
+
+/** Endpoints whose failure counts as a failed sign-in, and their method */
+const SIGN_IN_FAILURE_METHODS: Record<string, string> = {
+	"/sign-in/email": "email",
+	"/two-factor/verify-totp": "two-factor",
+	"/two-factor/verify-backup-code": "two-factor",
+	"/passkey/verify-authentication": "passkey",
+};
+
+const SESSION_REVOKE_PATHS = new Set([
+	"/revoke-session",
+	"/revoke-sessions",
+	"/revoke-other-sessions",
+]);
+
+const ADMIN_SESSION_REVOKE_PATHS = new Set([
+	"/admin/revoke-user-session",
+	"/admin/revoke-user-sessions",
+	"/admin/ban-user",
+]);
+
+/**
+ * "email", "passkey", "two-factor" or the OAuth provider ID for an
+ * endpoint that creates a session.
+ */
+function signInMethod(path: string, params?: Record<string, string>) {
+	if (path.startsWith("/callback/")) return params?.id ?? "oauth";
+	if (path.startsWith("/oauth2/callback/")) return params?.providerId ?? "oidc";
+	if (path.startsWith("/two-factor/")) return "two-factor";
+	if (path.startsWith("/passkey/")) return "passkey";
+	if (path === "/verify-email") return "email-verification";
+	return path.split("/").at(-1) ?? path;
+}
+
+/**
+ * better-auth plugin that records AuthEvents. Must come after twoFactor()
+ * in the plugin list so a password sign-in that still needs a second
+ * factor isn't logged as a success.
+ */
+export function authEvents() {
+	return {
+		id: "auth-events",
+		init() {
+			return {
+				options: {
+					databaseHooks: {
+						user: {
+							create: {
+								// Covers email sign-up and first-time OAuth sign-in
+								after: async (user, ctx) => {
+									await recordAuthEvent({
+										type: "sign-up",
+										userId: user.id,
+										email: user.email,
+										method: ctx ? signInMethod(ctx.path, ctx.params) : null,
+										headers: ctx?.headers ?? ctx?.request?.headers,
+									});
+								},
+							},
+						},
+					},
+				},
+			};
+		},
+		hooks: {
+			before: [
+				{
+					// Sessions are gone after the endpoint runs, so log first
+					matcher: (ctx) => ctx.path === "/sign-out",
+					handler: createAuthMiddleware(async (ctx) => {
+						const session = await getSessionFromCtx(ctx);
+						if (!session) return;
+						await recordAuthEvent({
+							type: "sign-out",
+							userId: session.user.id,
+							email: session.user.email,
+							headers: ctx.headers ?? ctx.request?.headers,
+						});
+					}),
+				},
+			],
+			after: [
+				{
+					matcher: () => true,
+					handler: createAuthMiddleware(async (ctx) => {
+						const { path } = ctx;
+						const returned = ctx.context.returned;
+						const headers = ctx.headers ?? ctx.request?.headers;
+						const failed = returned instanceof APIError;
+
+						if (failed && path in SIGN_IN_FAILURE_METHODS) {
+							const email =
+								typeof ctx.body?.email === "string"
+									? ctx.body.email.toLowerCase()
+									: null;
+							const reason = returned.body?.code ?? returned.message;
+							metrics.signInFailures.inc({
+								method: SIGN_IN_FAILURE_METHODS[path],
+								reason,
+							});
+							const user = email
+								? await prisma.user.findUnique({
+										where: { email },
+										select: { id: true },
+									})
+								: null;
+							await recordAuthEvent({
+								type: "sign-in.failure",
+								userId: user?.id,
+								email,
+								method: SIGN_IN_FAILURE_METHODS[path],
+								headers,
+								metadata: { reason },
+							});
+							return;
+						}
+						if (failed) return;
+
+						const newSession = ctx.context.newSession;
+						const needsSecondFactor =
+							returned !== null &&
+							typeof returned === "object" &&
+							"twoFactorRedirect" in returned;
+						if (
+							newSession &&
+							!needsSecondFactor &&
+							!path.startsWith("/sign-up") &&
+							!newSession.session.impersonatedBy
+						) {
+							await recordAuthEvent({
+								type: "sign-in.success",
+								userId: newSession.user.id,
+								email: newSession.user.email,
+								method: signInMethod(path, ctx.params),
+								headers,
+							});
+							return;
+						}
+
+						const user = ctx.context.session?.user;
+						if (path === "/change-password" && user) {
+							await recordAuthEvent({
+								type: "password.change",
+								userId: user.id,
+								email: user.email,
+								headers,
+							});
+						} else if (SESSION_REVOKE_PATHS.has(path) && user) {
+							await recordAuthEvent({
+								type: "session.revoke",
+								userId: user.id,
+								email: user.email,
+								headers,
+								metadata: { scope: path.slice(1) },
+							});
+						} else if (
+							ADMIN_SESSION_REVOKE_PATHS.has(path) &&
+							typeof ctx.body?.userId === "string"
+						) {
+							await recordAuthEvent({
+								type: "session.revoke",
+								userId: ctx.body.userId,
+								headers,
+								metadata: { scope: path.slice(1), by: user?.id ?? null },
+							});
+						}
+					}),
+				},
+			],
+		},
+	} satisfies BetterAuthPlugin;
+}
+
+function adminWhere({
+	q,
+	type,
+}: Pick<AuthEventFilterInput, "q" | "type">): Prisma.AuthEventWhereInput {
+	return {
+		type,
+		...(q && {
+			OR: [
+				{ email: { contains: q, mode: "insensitive" } },
+				{ ipAddress: { startsWith: q } },
+			],
+		}),
+	};
+}
+
+/**
+ * A user's most recent events, newest first.
+ */
+export async function listRecentAuthEvents(userId: string, take = 50) {
+	return prisma.authEvent.findMany({
+		where: { userId },
+		orderBy: { createdAt: "desc" },
+		take,
+	});
+}
+
+/**
+ * Events across all users matching `q` (email or IP prefix) and `type`.
+ */
+export async function listAuthEvents({
+	q,
+	type,
+	page,
+	limit,
+}: AuthEventFilterInput) {
+	const where = adminWhere({ q, type });
+	const [items, total] = await Promise.all([
+		prisma.authEvent.findMany({
+			where,
+			orderBy: { createdAt: "desc" },
+			skip: (page - 1) * limit,
+			take: limit,
+		}),
+		prisma.authEvent.count({ where }),
+	]);
+
+	return {
+		items,
+		meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+	};
+}
+
+/** Upper bound on rows in one export */
+export const AUTH_EVENT_EXPORT_LIMIT = 10_000;
+
+/**
+ * Events matching the admin filters for export, newest first.
+ */
+export async function exportAuthEvents(
+	filter: Pick<AuthEventFilterInput, "q" | "type">,
+) {
+	return prisma.authEvent.findMany({
+		where: adminWhere(filter),
+		orderBy: { createdAt: "desc" },
+		take: AUTH_EVENT_EXPORT_LIMIT,
+	});
+}
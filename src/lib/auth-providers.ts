@@ -0,0 +1,107 @@
+import type { GenericOAuthConfig } from "better-auth/plugins";
+import type { SocialProviders } from "better-auth/social-providers";
+import { env } from "./env";
+
+// =============================================================================
+// OAUTH PROVIDERS - Each provider is enabled only when its env vars are set
+// =============================================================================
+
+export type SocialProviderId = "github" | "google" | "microsoft";
+
+/**
+ * Provider metadata that is safe to send to the browser.
+ * Used for: sign-in/sign-up buttons, linked accounts page
+ */
+export interface OAuthProviderInfo {
+	id: string;
+	name: string;
+	/** "social" uses signIn.social, "oidc" uses the generic OAuth plugin */
+	kind: "social" | "oidc";
+}
+
+export const socialProviders: SocialProviders = {
+	...(env.GITHUB_CLIENT_ID &&
+		env.GITHUB_CLIENT_SECRET && {
+			github: {
+				clientId: env.GITHUB_CLIENT_ID,
+				clientSecret: env.GITHUB_CLIENT_SECRET,
+			},
+		}),
+	...(env.GOOGLE_CLIENT_ID &&
+		env.GOOGLE_CLIENT_SECRET && {
+			google: {
+				clientId: env.GOOGLE_CLIENT_ID,
+				clientSecret: env.GOOGLE_CLIENT_SECRET,
+			},
+		}),
+	...(env.MICROSOFT_CLIENT_ID &&
+		env.MICROSOFT_CLIENT_SECRET && {
+			microsoft: {
+				clientId: env.MICROSOFT_CLIENT_ID,
+				clientSecret: env.MICROSOFT_CLIENT_SECRET,
+				// Single-tenant apps use their Entra ID tenant; "common" allows any
+				tenantId: env.MICROSOFT_TENANT_ID ?? "common",
+			},
+		}),
+};
+
+/**
+ * Any standards-compliant OpenID Connect provider via discovery.
+ * Used for: a local mock OIDC server in development, or an in-house IdP
+ */
+export const oidcProviders: GenericOAuthConfig[] =
+	env.OIDC_DISCOVERY_URL && env.OIDC_CLIENT_ID
+		? [
+				{
+					providerId: "oidc",
+					discoveryUrl: env.OIDC_DISCOVERY_URL,
+					clientId: env.OIDC_CLIENT_ID,
+					clientSecret: env.OIDC_CLIENT_SECRET,
+					scopes: ["openid", "email", "profile"],
+					pkce: true,
+				},
+			]
+		: [];
+
+const SOCIAL_PROVIDER_NAMES: Record<SocialProviderId, string> = {
+	github: "GitHub",
+	google: "Google",
+	microsoft: "Microsoft",
+};
+
+/**
+ * Providers configured for this deployment, in display order.
+ */
+export function getEnabledProviders(): OAuthProviderInfo[] {
+	const social = (Object.keys(SOCIAL_PROVIDER_NAMES) as SocialProviderId[])
+		.filter((id) => id in socialProviders)
+		.map((id) => ({
+			id,
+			name: SOCIAL_PROVIDER_NAMES[id],
+			kind: "social" as const,
+		}));
+
+	const oidc = oidcProviders.map((provider) => ({
+		id: provider.providerId,
+		name: env.OIDC_PROVIDER_NAME ?? "Single Sign-On",
+		kind: "oidc" as const,
+	}));
+
+	return [...social, ...oidc];
+}
+
+// better-auth appends ?error=<code> to errorCallbackURL when OAuth fails
+const OAUTH_ERRORS: Record<string, string> = {
+	account_not_linked:
+		"An account with this email already exists. Sign in with your password, then link the provider from your account settings.",
+	email_not_found: "The provider did not share an email address.",
+	signup_disabled: "Sign-up is currently disabled.",
+};
+
+/**
+ * Readable message for an OAuth `?error=` code.
+ */
+export function describeOAuthError(code: string | undefined) {
+	if (!code) return undefined;
+	return OAUTH_ERRORS[code] ?? "Signing in with that provider failed.";
+}
@@ -1,12 +1,210 @@
+import { passkey } from "@better-auth/passkey";
 import { betterAuth } from "better-auth";
 import { prismaAdapter } from "better-auth/adapters/prisma";
+import { nextCookies } from "better-auth/next-js";
+import {
+	admin,
+	apiKey,
+	genericOAuth,
+	organization,
+	twoFactor,
+} from "better-auth/plugins";
+import { API_KEY_PREFIX, getBearerToken } from "./api-keys";
+import { authEvents, recordAuthEvent } from "./auth-events";
+import { oidcProviders, socialProviders } from "./auth-providers";
+import { queueTemplate } from "./email";
+import { env } from "./env";
+import { logger } from "./logger";
+import { ac, roles } from "./permissions";
 import { prisma } from "./prisma";
+import { emitWebhookEvent, webhookUser } from "./webhooks";
+
+const log = logger.child({ module: "better-auth" });
+
+/**
+ * ADMIN_EMAILS only counts once the address is verified, so signing up
+ * with a listed email (or linking an account that reports one) isn't
+ * enough to become an admin.
+ */
+function isVerifiedAdminEmail(user: { email: string; emailVerified: boolean }) {
+	return (
+		user.emailVerified && env.ADMIN_EMAILS.includes(user.email.toLowerCase())
+	);
+}
 
 export const auth = betterAuth({
+	secret: env.BETTER_AUTH_SECRET,
+	baseURL: env.BETTER_AUTH_URL,
 	database: prismaAdapter(prisma, {
 		provider: "postgresql",
 	}),
+	// Filtering by LOG_LEVEL happens in our logger
+	logger: {
+		level: "debug",
+		log: (level, message, ...args) => {
+			log[level](message, args.length > 0 ? { args } : undefined);
+		},
+	},
 	emailAndPassword: {
 		enabled: true,
+		requireEmailVerification: env.AUTH_REQUIRE_EMAIL_VERIFICATION,
+		revokeSessionsOnPasswordReset: true,
+		onPasswordReset: async ({ user }, request) => {
+			await recordAuthEvent({
+				type: "password.reset",
+				userId: user.id,
+				email: user.email,
+				headers: request?.headers,
+			});
+		},
+		sendResetPassword: async ({ user, url }) => {
+			await queueTemplate("resetPassword", user.email, {
+				name: user.name,
+				url,
+			});
+		},
+	},
+	emailVerification: {
+		sendOnSignUp: true,
+		sendOnSignIn: env.AUTH_REQUIRE_EMAIL_VERIFICATION,
+		autoSignInAfterVerification: true,
+		afterEmailVerification: async (user) => {
+			await emitWebhookEvent("user.email-verified", {
+				user: webhookUser(user),
+			});
+		},
+		sendVerificationEmail: async ({ user, url }) => {
+			await queueTemplate("verification", user.email, {
+				name: user.name,
+				url,
+			});
+		},
+	},
+	// Throttling and lockout live in src/lib/rate-limit/auth.ts instead
+	rateLimit: {
+		enabled: false,
+	},
+	socialProviders,
+	account: {
+		accountLinking: {
+			enabled: true,
+			// Linking from the account page is explicit, so the provider's
+			// email does not have to match the user's
+			allowDifferentEmails: true,
+		},
+	},
+	user: {
+		// Sends a verification link to the new address; the email only
+		// changes once that link is opened
+		changeEmail: {
+			enabled: true,
+		},
+		// Users delete their account from Account > Privacy, which waits out
+		// a grace period first (src/lib/privacy); the immediate endpoint stays
+		// off so it can't be skipped
+		deleteUser: {
+			enabled: false,
+		},
+	},
+	databaseHooks: {
+		user: {
+			create: {
+				// OAuth sign-ups whose provider vouches for the email
+				before: async (user) => {
+					if (!isVerifiedAdminEmail(user)) return;
+					return { data: { ...user, role: "admin" } };
+				},
+				after: async (user) => {
+					await emitWebhookEvent("user.created", { user: webhookUser(user) });
+				},
+			},
+			update: {
+				// Email verification, or a verified change to a listed address.
+				// Only on that path, so admins can still demote a listed user
+				after: async (user, context) => {
+					if (context?.path !== "/verify-email") return;
+					if (!user?.id || !isVerifiedAdminEmail(user)) return;
+					await prisma.user.updateMany({
+						where: { id: user.id, role: { not: "admin" } },
+						data: { role: "admin" },
+					});
+				},
+			},
+			// Admins removing a user; self-service deletion emits its own event
+			delete: {
+				after: async (user) => {
+					await emitWebhookEvent("user.deleted", { user: { id: user.id } });
+				},
+			},
+		},
+		session: {
+			create: {
+				// Start every session in the user's oldest organization
+				before: async (session) => {
+					const membership = await prisma.member.findFirst({
+						where: { userId: session.userId },
+						orderBy: { createdAt: "asc" },
+					});
+					if (!membership) return;
+					return {
+						data: {
+							...session,
+							activeOrganizationId: membership.organizationId,
+						},
+					};
+				},
+				after: async (session) => {
+					if (!env.EMAIL_SIGN_IN_ALERTS) return;
+
+					const user = await prisma.user.findUnique({
+						where: { id: session.userId },
+					});
+					if (!user) return;
+
+					await queueTemplate("signInAlert", user.email, {
+						name: user.name,
+						signedInAt: session.createdAt,
+						ipAddress: session.ipAddress,
+						userAgent: session.userAgent,
+					});
+				},
+			},
+		},
 	},
+	// nextCookies() must be the last plugin: it applies Set-Cookie from
+	// auth.api calls made inside server actions
+	plugins: [
+		genericOAuth({ config: oidcProviders }),
+		// TOTP + backup codes; "trust this device" lasts 30 days
+		twoFactor({ issuer: "App" }),
+		// Relying party ID and origin default to BETTER_AUTH_URL's host
+		passkey({ rpName: "App" }),
+		// Roles, bans, forced sign-out and impersonation (1 hour sessions)
+		admin({ ac, roles, defaultRole: "user", adminRoles: ["admin"] }),
+		// Organizations with owner/admin/member roles; invitations last 48 hours
+		organization({
+			sendInvitationEmail: async ({ id, email, organization, inviter }) => {
+				await queueTemplate("invite", email, {
+					inviterName: inviter.user.name,
+					teamName: organization.name,
+					url: `${env.BETTER_AUTH_URL}/invitations/${id}`,
+				});
+			},
+		}),
+		// Personal API keys. A Bearer key only stands in for a session when
+		// looking it up (getSession()), so it can't call auth endpoints such as
+		// change-password. The plugin's limit only applies to that lookup;
+		// requireApiUser() limits each key's /api requests instead
+		apiKey({
+			defaultPrefix: API_KEY_PREFIX,
+			enableSessionForAPIKeys: true,
+			customAPIKeyGetter: (ctx) =>
+				ctx.path === "/get-session" ? getBearerToken(ctx.headers) : null,
+			rateLimit: { enabled: false },
+			schema: { apikey: { modelName: "apiKey" } },
+		}),
+		// Security log; after twoFactor() so pending 2FA isn't logged as success
+		authEvents(),
+		nextCookies(),
+	],
 });
@@ -0,0 +1,20 @@
+import { env } from "./env";
+
+/**
+ * Client IP as seen by the outermost of `trustedHops` proxies, or null
+ * when unknown. Proxies append to X-Forwarded-For, so entries to the left
+ * of theirs came from the client and are ignored.
+ */
+export function getClientIp(
+	headers: Headers,
+	trustedHops = env.TRUSTED_PROXY_HOPS,
+) {
+	if (trustedHops === 0) return null;
+
+	const forwarded = (headers.get("x-forwarded-for") ?? "")
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter(Boolean);
+	if (forwarded.length === 0) return null;
+	return forwarded[Math.max(forwarded.length - trustedHops, 0)];
+}
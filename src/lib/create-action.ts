@@ -0,0 +1,136 @@
+import { APIError } from "better-auth/api";
+import { headers } from "next/headers";
+import { z } from "zod/v4";
+import { Prisma } from "@/generated/prisma/client";
+import {
+	ActionError,
+	apiErrorResult,
+	invalidResult,
+	prismaErrorResult,
+} from "./action-result";
+import { withRequestContext } from "./logger";
+import { getCurrentUser } from "./session";
+import type { ActionResult, Role, SessionUser } from "./validations";
+
+/**
+ * Who may call an action: anyone, any signed-in user, or users with one of
+ * the given roles.
+ */
+export type ActionAuth = "public" | "signed-in" | { role: Role | Role[] };
+
+export interface ActionContext<TAuth extends ActionAuth> {
+	user: TAuth extends "public" ? SessionUser | null : SessionUser;
+}
+
+interface CreateActionOptions<
+	TSchema extends z.ZodType,
+	TData,
+	TAuth extends ActionAuth,
+> {
+	schema: TSchema;
+	/** Defaults to "signed-in" */
+	auth?: TAuth;
+	handler: (
+		input: z.output<TSchema>,
+		context: ActionContext<TAuth>,
+	) => Promise<TData>;
+	/** Message returned on success, optionally built from the parsed input */
+	successMessage?: string | ((input: z.output<TSchema>) => string);
+}
+
+/**
+ * Plain object from FormData; repeated keys become arrays.
+ */
+function formDataToObject(formData: FormData) {
+	const object: Record<string, FormDataEntryValue | FormDataEntryValue[]> = {};
+	for (const key of new Set(formData.keys())) {
+		// Next adds $ACTION_* fields when a form posts to a server action
+		if (key.startsWith("$ACTION")) continue;
+		const values = formData.getAll(key);
+		object[key] = values.length === 1 ? values[0] : values;
+	}
+	return object;
+}
+
+function hasRole(user: SessionUser, roles: Role | Role[]) {
+	return (Array.isArray(roles) ? roles : [roles]).includes(user.role);
+}
+
+/**
+ * Map errors a handler may throw to an ActionResult. Unknown errors are
+ * rethrown so they reach the error boundary and logs.
+ */
+function errorResult(error: unknown): ActionResult<never> {
+	if (error instanceof ActionError) {
+		return { success: false, message: error.message, errors: error.errors };
+	}
+	if (error instanceof z.ZodError) return invalidResult(error);
+	if (error instanceof APIError) return apiErrorResult(error);
+	if (error instanceof Prisma.PrismaClientKnownRequestError) {
+		return prismaErrorResult(error);
+	}
+	throw error;
+}
+
+/**
+ * Build a server action that validates its input, checks the session and
+ * always resolves to an ActionResult. Accepts a plain object or FormData,
+ * so it works with both `useActionForm` and `<form action={...}>`. Logs
+ * written by the handler carry the request ID.
+ *
+ * @example
+ * // in a "use server" file
+ * export const renameProject = createAction({
+ * 	schema: renameProjectSchema,
+ * 	handler: async ({ id, name }, { user }) => {
+ * 		await db.project.update({ where: { id, ownerId: user.id }, data: { name } });
+ * 	},
+ * 	successMessage: "Project renamed",
+ * });
+ */
+export function createAction<
+	TSchema extends z.ZodType,
+	TData = void,
+	TAuth extends ActionAuth = "signed-in",
+>({
+	schema,
+	auth = "signed-in" as TAuth,
+	handler,
+	successMessage,
+}: CreateActionOptions<TSchema, TData, TAuth>) {
+	return async (
+		input: z.input<TSchema> | FormData,
+	): Promise<ActionResult<TData>> =>
+		withRequestContext(await headers(), async () => {
+			const user = await getCurrentUser();
+			if (auth !== "public") {
+				if (!user) {
+					return { success: false, message: "You need to sign in to do that" };
+				}
+				if (typeof auth === "object" && !hasRole(user, auth.role)) {
+					return {
+						success: false,
+						message: "You don't have permission to do that",
+					};
+				}
+			}
+
+			const parsed = await schema.safeParseAsync(
+				input instanceof FormData ? formDataToObject(input) : input,
+			);
+			if (!parsed.success) return invalidResult(parsed.error);
+
+			try {
+				const data = await handler(parsed.data, {
+					user,
+				} as ActionContext<TAuth>);
+				const message =
+					typeof successMessage === "function"
+						? successMessage(parsed.data)
+						: successMessage;
+				return { success: true, message, data };
+			} catch (error) {
+				return errorResult(error);
+			}
+		});
+}
@@ -0,0 +1,31 @@
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+/** Leading characters spreadsheets treat as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell(value: CsvValue) {
+	if (value === null || value === undefined) return "";
+
+	let text = value instanceof Date ? value.toISOString() : String(value);
+	// Neutralise formulas so opening an export can't run them
+	if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a header row, in the order of `columns`.
+ */
+export function toCsv<T extends Record<string, unknown>>(
+	rows: T[],
+	columns: (keyof T & string)[],
+) {
+	const lines = [columns.join(",")];
+	for (const row of rows) {
+		lines.push(
+			columns.map((column) => formatCell(row[column] as CsvValue)).join(","),
+		);
+	}
+	return `${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,103 @@
+import { render } from "@react-email/components";
+import { env } from "../env";
+import { enqueueJob } from "../jobs";
+import { type TemplateName, type TemplateProps, templates } from "./templates";
+import { createTransportFromEnv } from "./transports";
+import type {
+	EmailMessage,
+	MailTransport,
+	OutboxTransport,
+	StoredEmail,
+} from "./types";
+
+export type { TemplateName, TemplateProps } from "./templates";
+export type {
+	EmailMessage,
+	MailTransport,
+	OutboxTransport,
+	OutgoingEmail,
+	StoredEmail,
+} from "./types";
+
+let transport: MailTransport | undefined;
+
+function getTransport() {
+	transport ??= createTransportFromEnv();
+	return transport;
+}
+
+/**
+ * Send an email through the configured transport.
+ */
+export async function sendEmail(message: EmailMessage) {
+	await getTransport().send({
+		from: env.EMAIL_FROM,
+		...message,
+	});
+}
+
+async function renderTemplate<TName extends TemplateName>(
+	name: TName,
+	to: string,
+	props: TemplateProps<TName>,
+): Promise<EmailMessage> {
+	const template = templates[name] as unknown as {
+		subject: (props: TemplateProps<TName>) => string;
+		component: (props: TemplateProps<TName>) => React.ReactElement;
+	};
+	const element = template.component(props);
+
+	return {
+		to,
+		subject: template.subject(props),
+		html: await render(element),
+		text: await render(element, { plainText: true }),
+	};
+}
+
+/**
+ * Render a registered template to HTML + plain text and send it.
+ *
+ * @example
+ * await sendTemplate("verification", user.email, { name: user.name, url })
+ */
+export async function sendTemplate<TName extends TemplateName>(
+	name: TName,
+	to: string,
+	props: TemplateProps<TName>,
+) {
+	await sendEmail(await renderTemplate(name, to, props));
+}
+
+/**
+ * Send a template from the job queue, so the request doesn't wait on the
+ * mail server and failed sends are retried. Only the template name and
+ * props are stored; the job renders them.
+ */
+export async function queueTemplate<TName extends TemplateName>(
+	name: TName,
+	to: string,
+	props: TemplateProps<TName>,
+) {
+	await enqueueJob("send-email", { template: name, to, props: { ...props } });
+}
+
+function isOutbox(value: MailTransport): value is OutboxTransport {
+	return "list" in value && "clear" in value;
+}
+
+/**
+ * The current transport's outbox, or null when it does not keep messages
+ * (console, smtp).
+ */
+export function getOutbox(): OutboxTransport | null {
+	const current = getTransport();
+	return isOutbox(current) ? current : null;
+}
+
+/**
+ * Messages in the outbox, newest first. Empty when there is no outbox.
+ */
+export async function listOutbox(): Promise<StoredEmail[]> {
+	return (await getOutbox()?.list()) ?? [];
+}
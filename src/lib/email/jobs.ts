@@ -0,0 +1,28 @@
+import { z } from "zod/v4";
+import { defineJob } from "../jobs/define";
+import { sendTemplate } from ".";
+import { type TemplateName, type TemplateProps, templates } from "./templates";
+
+const sendEmailSchema = z.object({
+	template: z.enum(Object.keys(templates) as [TemplateName, ...TemplateName[]]),
+	to: z.string(),
+	props: z.record(z.string(), z.unknown()),
+});
+
+export const EMAIL_JOBS = {
+	/**
+	 * Render and send a template; see queueTemplate(). Props often hold
+	 * links with tokens, so they are rendered here rather than stored as
+	 * HTML, and hidden from admins.
+	 */
+	"send-email": defineJob({
+		schema: sendEmailSchema,
+		handler: async ({ template, to, props }) => {
+			const schema = templates[template].props as z.ZodType<
+				TemplateProps<TemplateName>
+			>;
+			await sendTemplate(template, to, await schema.parseAsync(props));
+		},
+		redact: ["props"],
+	}),
+};
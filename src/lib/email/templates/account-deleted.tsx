@@ -0,0 +1,21 @@
+import { Text } from "@react-email/components";
+import { EmailLayout, textStyle } from "./layout";
+
+export interface AccountDeletedEmailProps {
+	name: string;
+}
+
+export function AccountDeletedEmail({ name }: AccountDeletedEmailProps) {
+	return (
+		<EmailLayout
+			preview="Your account has been deleted"
+			heading="Your account has been deleted"
+		>
+			<Text style={textStyle}>Hi {name},</Text>
+			<Text style={textStyle}>
+				As requested, your account and the data associated with it have been
+				deleted. This is the last email you&apos;ll receive from us.
+			</Text>
+		</EmailLayout>
+	);
+}
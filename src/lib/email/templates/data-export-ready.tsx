@@ -0,0 +1,34 @@
+import { Button, Text } from "@react-email/components";
+import { buttonStyle, EmailLayout, textStyle } from "./layout";
+
+export interface DataExportReadyEmailProps {
+	name: string;
+	url: string;
+	expiresAt: Date;
+}
+
+export function DataExportReadyEmail({
+	name,
+	url,
+	expiresAt,
+}: DataExportReadyEmailProps) {
+	return (
+		<EmailLayout
+			preview="Your data export is ready"
+			heading="Your data export is ready"
+		>
+			<Text style={textStyle}>Hi {name},</Text>
+			<Text style={textStyle}>
+				The copy of your account data you asked for is ready. You&apos;ll need
+				to be signed in to download it.
+			</Text>
+			<Button href={url} style={buttonStyle}>
+				Download my data
+			</Button>
+			<Text style={textStyle}>
+				The download is available until {expiresAt.toUTCString()}. If you
+				didn&apos;t request it, change your password right away.
+			</Text>
+		</EmailLayout>
+	);
+}
@@ -0,0 +1,38 @@
+import { Button, Text } from "@react-email/components";
+import { buttonStyle, EmailLayout, textStyle } from "./layout";
+
+export interface DeletionScheduledEmailProps {
+	name: string;
+	scheduledAt: Date;
+	/** Privacy page, where the deletion can be canceled */
+	url: string;
+}
+
+export function DeletionScheduledEmail({
+	name,
+	scheduledAt,
+	url,
+}: DeletionScheduledEmailProps) {
+	return (
+		<EmailLayout
+			preview="Your account is scheduled for deletion"
+			heading="Your account is scheduled for deletion"
+		>
+			<Text style={textStyle}>Hi {name},</Text>
+			<Text style={textStyle}>
+				We received a request to delete your account. It will be deleted on{" "}
+				{scheduledAt.toUTCString()}, along with your data.
+			</Text>
+			<Text style={textStyle}>
+				Changed your mind? Cancel the deletion any time before then.
+			</Text>
+			<Button href={url} style={buttonStyle}>
+				Keep my account
+			</Button>
+			<Text style={textStyle}>
+				If this wasn&apos;t you, cancel the deletion and reset your password
+				right away.
+			</Text>
+		</EmailLayout>
+	);
+}
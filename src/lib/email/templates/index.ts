@@ -0,0 +1,87 @@
+import { z } from "zod/v4";
+import {
+	AccountDeletedEmail,
+	type AccountDeletedEmailProps,
+} from "./account-deleted";
+import {
+	DataExportReadyEmail,
+	type DataExportReadyEmailProps,
+} from "./data-export-ready";
+import {
+	DeletionScheduledEmail,
+	type DeletionScheduledEmailProps,
+} from "./deletion-scheduled";
+import { InviteEmail, type InviteEmailProps } from "./invite";
+import { APP_NAME } from "./layout";
+import {
+	ResetPasswordEmail,
+	type ResetPasswordEmailProps,
+} from "./reset-password";
+import { SignInAlertEmail, type SignInAlertEmailProps } from "./sign-in-alert";
+import { VerificationEmail, type VerificationEmailProps } from "./verification";
+
+interface EmailTemplate<TProps> {
+	subject: (props: TProps) => string;
+	component: (props: TProps) => React.ReactElement;
+	/** Reads the props back from a queued job's JSON (dates become strings) */
+	props: z.ZodType<TProps>;
+}
+
+const nameProps = z.object({ name: z.string() });
+const linkProps = nameProps.extend({ url: z.string() });
+
+/**
+ * Template registry - add new emails here to make them sendable
+ * through `sendTemplate` with type-checked props.
+ */
+export const templates = {
+	verification: {
+		subject: () => "Verify your email address",
+		component: VerificationEmail,
+		props: linkProps,
+	} satisfies EmailTemplate<VerificationEmailProps>,
+	resetPassword: {
+		subject: () => "Reset your password",
+		component: ResetPasswordEmail,
+		props: linkProps,
+	} satisfies EmailTemplate<ResetPasswordEmailProps>,
+	signInAlert: {
+		subject: () => `New sign-in to your ${APP_NAME} account`,
+		component: SignInAlertEmail,
+		props: nameProps.extend({
+			signedInAt: z.coerce.date(),
+			ipAddress: z.string().nullish(),
+			userAgent: z.string().nullish(),
+		}),
+	} satisfies EmailTemplate<SignInAlertEmailProps>,
+	invite: {
+		subject: ({ teamName }) => `You've been invited to join ${teamName}`,
+		component: InviteEmail,
+		props: z.object({
+			inviterName: z.string(),
+			teamName: z.string(),
+			url: z.string(),
+		}),
+	} satisfies EmailTemplate<InviteEmailProps>,
+	dataExportReady: {
+		subject: () => "Your data export is ready",
+		component: DataExportReadyEmail,
+		props: linkProps.extend({ expiresAt: z.coerce.date() }),
+	} satisfies EmailTemplate<DataExportReadyEmailProps>,
+	deletionScheduled: {
+		subject: () => `Your ${APP_NAME} account is scheduled for deletion`,
+		component: DeletionScheduledEmail,
+		props: linkProps.extend({ scheduledAt: z.coerce.date() }),
+	} satisfies EmailTemplate<DeletionScheduledEmailProps>,
+	accountDeleted: {
+		subject: () => `Your ${APP_NAME} account has been deleted`,
+		component: AccountDeletedEmail,
+		props: nameProps,
+	} satisfies EmailTemplate<AccountDeletedEmailProps>,
+};
+
+export type TemplateName = keyof typeof templates;
+
+export type TemplateProps<TName extends TemplateName> = Parameters<
+	(typeof templates)[TName]["component"]
+>[0];
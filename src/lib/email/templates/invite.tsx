@@ -0,0 +1,28 @@
+import { Button, Text } from "@react-email/components";
+import { buttonStyle, EmailLayout, textStyle } from "./layout";
+
+export interface InviteEmailProps {
+	inviterName: string;
+	teamName: string;
+	url: string;
+}
+
+export function InviteEmail({ inviterName, teamName, url }: InviteEmailProps) {
+	return (
+		<EmailLayout
+			preview={`${inviterName} invited you to ${teamName}`}
+			heading={`Join ${teamName}`}
+		>
+			<Text style={textStyle}>
+				{inviterName} has invited you to join {teamName}.
+			</Text>
+			<Button href={url} style={buttonStyle}>
+				Accept invitation
+			</Button>
+			<Text style={textStyle}>
+				If you weren&apos;t expecting this invitation, you can ignore this
+				email.
+			</Text>
+		</EmailLayout>
+	);
+}
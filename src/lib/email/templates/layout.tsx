@@ -0,0 +1,66 @@
+import {
+	Body,
+	Container,
+	Head,
+	Heading,
+	Hr,
+	Html,
+	Preview,
+	Text,
+} from "@react-email/components";
+
+export const APP_NAME = "App";
+
+const styles = {
+	body: {
+		backgroundColor: "#f5f5f5",
+		fontFamily:
+			"-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif",
+	},
+	container: {
+		backgroundColor: "#ffffff",
+		borderRadius: "12px",
+		margin: "40px auto",
+		maxWidth: "480px",
+		padding: "32px",
+	},
+	heading: { fontSize: "20px", fontWeight: 600, margin: "0 0 16px" },
+	footer: { color: "#737373", fontSize: "12px" },
+};
+
+export const buttonStyle = {
+	backgroundColor: "#171717",
+	borderRadius: "8px",
+	color: "#fafafa",
+	fontSize: "14px",
+	fontWeight: 500,
+	padding: "10px 16px",
+};
+
+export const textStyle = { fontSize: "14px", lineHeight: "24px" };
+
+interface EmailLayoutProps {
+	preview: string;
+	heading: string;
+	children: React.ReactNode;
+}
+
+export function EmailLayout({ preview, heading, children }: EmailLayoutProps) {
+	return (
+		<Html lang="en">
+			<Head />
+			<Preview>{preview}</Preview>
+			<Body style={styles.body}>
+				<Container style={styles.container}>
+					<Heading style={styles.heading}>{heading}</Heading>
+					{children}
+					<Hr />
+					<Text style={styles.footer}>
+						This email was sent by {APP_NAME}. If you have questions, reply to
+						this message.
+					</Text>
+				</Container>
+			</Body>
+		</Html>
+	);
+}
@@ -0,0 +1,25 @@
+import { Button, Text } from "@react-email/components";
+import { buttonStyle, EmailLayout, textStyle } from "./layout";
+
+export interface ResetPasswordEmailProps {
+	name: string;
+	url: string;
+}
+
+export function ResetPasswordEmail({ name, url }: ResetPasswordEmailProps) {
+	return (
+		<EmailLayout preview="Reset your password" heading="Reset your password">
+			<Text style={textStyle}>Hi {name},</Text>
+			<Text style={textStyle}>
+				Someone requested a password reset for your account. Choose a new
+				password using the button below.
+			</Text>
+			<Button href={url} style={buttonStyle}>
+				Reset password
+			</Button>
+			<Text style={textStyle}>
+				If this wasn&apos;t you, you can ignore this email.
+			</Text>
+		</EmailLayout>
+	);
+}
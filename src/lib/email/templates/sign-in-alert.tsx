@@ -0,0 +1,36 @@
+import { Text } from "@react-email/components";
+import { EmailLayout, textStyle } from "./layout";
+
+export interface SignInAlertEmailProps {
+	name: string;
+	signedInAt: Date;
+	ipAddress?: string | null;
+	userAgent?: string | null;
+}
+
+export function SignInAlertEmail({
+	name,
+	signedInAt,
+	ipAddress,
+	userAgent,
+}: SignInAlertEmailProps) {
+	return (
+		<EmailLayout
+			preview="New sign-in to your account"
+			heading="New sign-in to your account"
+		>
+			<Text style={textStyle}>Hi {name},</Text>
+			<Text style={textStyle}>Your account was just signed in to.</Text>
+			<Text style={textStyle}>
+				Time: {signedInAt.toUTCString()}
+				<br />
+				IP address: {ipAddress ?? "Unknown"}
+				<br />
+				Device: {userAgent ?? "Unknown"}
+			</Text>
+			<Text style={textStyle}>
+				If this wasn&apos;t you, reset your password right away.
+			</Text>
+		</EmailLayout>
+	);
+}
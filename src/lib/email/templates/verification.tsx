@@ -0,0 +1,27 @@
+import { Button, Text } from "@react-email/components";
+import { buttonStyle, EmailLayout, textStyle } from "./layout";
+
+export interface VerificationEmailProps {
+	name: string;
+	url: string;
+}
+
+export function VerificationEmail({ name, url }: VerificationEmailProps) {
+	return (
+		<EmailLayout
+			preview="Confirm your email address"
+			heading="Verify your email"
+		>
+			<Text style={textStyle}>Hi {name},</Text>
+			<Text style={textStyle}>
+				Confirm your email address to finish setting up your account.
+			</Text>
+			<Button href={url} style={buttonStyle}>
+				Verify email
+			</Button>
+			<Text style={textStyle}>
+				If you did not create an account, you can ignore this email.
+			</Text>
+		</EmailLayout>
+	);
+}
@@ -0,0 +1,23 @@
+import type { MailTransport } from "../types";
+
+/**
+ * Console transport - prints messages to stdout.
+ * Used for: local development without any mail setup
+ */
+export function createConsoleTransport(): MailTransport {
+	return {
+		async send(email) {
+			console.info(
+				[
+					"----- email -----",
+					`From: ${email.from}`,
+					`To: ${email.to}`,
+					`Subject: ${email.subject}`,
+					"",
+					email.text,
+					"-----------------",
+				].join("\n"),
+			);
+		},
+	};
+}
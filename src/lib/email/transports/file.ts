@@ -0,0 +1,42 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { OutboxTransport, StoredEmail } from "../types";
+
+/**
+ * File transport - writes each message as JSON into an outbox directory.
+ * Used for: offline testing across processes (dev server + test runner)
+ */
+export function createFileTransport(dir: string): OutboxTransport {
+	return {
+		async send(email) {
+			await mkdir(dir, { recursive: true });
+			const stored: StoredEmail = {
+				...email,
+				id: randomUUID(),
+				sentAt: new Date().toISOString(),
+			};
+			await writeFile(
+				path.join(dir, `${Date.now()}-${stored.id}.json`),
+				JSON.stringify(stored, null, 2),
+			);
+		},
+
+		async list() {
+			const files = await readdir(dir).catch(() => []);
+			const emails = await Promise.all(
+				files
+					.filter((file) => file.endsWith(".json"))
+					.map(async (file) => {
+						const content = await readFile(path.join(dir, file), "utf8");
+						return JSON.parse(content) as StoredEmail;
+					}),
+			);
+			return emails.sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+		},
+
+		async clear() {
+			await rm(dir, { recursive: true, force: true });
+		},
+	};
+}
@@ -0,0 +1,33 @@
+import { env } from "../../env";
+import type { MailTransport } from "../types";
+import { createConsoleTransport } from "./console";
+import { createFileTransport } from "./file";
+import { createMemoryTransport } from "./memory";
+import { createSmtpTransport } from "./smtp";
+
+export {
+	createConsoleTransport,
+	createFileTransport,
+	createMemoryTransport,
+	createSmtpTransport,
+};
+
+/**
+ * Build the transport selected by EMAIL_TRANSPORT.
+ */
+export function createTransportFromEnv(): MailTransport {
+	switch (env.EMAIL_TRANSPORT) {
+		case "console":
+			return createConsoleTransport();
+		case "file":
+			return createFileTransport(env.EMAIL_OUTBOX_DIR);
+		case "memory":
+			return createMemoryTransport();
+		case "smtp":
+			// Checked in src/lib/env.ts
+			if (!env.SMTP_URL) {
+				throw new Error("SMTP_URL is required when EMAIL_TRANSPORT=smtp");
+			}
+			return createSmtpTransport(env.SMTP_URL);
+	}
+}
@@ -0,0 +1,34 @@
+import { randomUUID } from "node:crypto";
+import type { OutboxTransport, StoredEmail } from "../types";
+
+// Keep messages across hot reloads, same as the Prisma client singleton
+const globalForOutbox = global as unknown as {
+	emailOutbox: StoredEmail[] | undefined;
+};
+
+/**
+ * Memory transport - keeps messages in process memory.
+ * Used for: tests and single-process dev servers
+ */
+export function createMemoryTransport(): OutboxTransport {
+	globalForOutbox.emailOutbox ??= [];
+	const outbox = globalForOutbox.emailOutbox;
+
+	return {
+		async send(email) {
+			outbox.unshift({
+				...email,
+				id: randomUUID(),
+				sentAt: new Date().toISOString(),
+			});
+		},
+
+		async list() {
+			return [...outbox];
+		},
+
+		async clear() {
+			outbox.length = 0;
+		},
+	};
+}
@@ -0,0 +1,32 @@
+export interface EmailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	html?: string;
+}
+
+export interface OutgoingEmail extends EmailMessage {
+	from: string;
+}
+
+export interface StoredEmail extends OutgoingEmail {
+	id: string;
+	sentAt: string;
+}
+
+/**
+ * A mail transport delivers a fully-addressed message.
+ * Swap implementations via EMAIL_TRANSPORT without touching callers.
+ */
+export interface MailTransport {
+	send(email: OutgoingEmail): Promise<void>;
+}
+
+/**
+ * A transport that keeps what it sends so it can be inspected.
+ * Used for: dev outbox route, tests
+ */
+export interface OutboxTransport extends MailTransport {
+	list(): Promise<StoredEmail[]>;
+	clear(): Promise<void>;
+}
@@ -0,0 +1,247 @@
+import { z } from "zod/v4";
+
+// =============================================================================
+// ENV - Validated configuration, the only place process.env is read
+// =============================================================================
+// Server code imports `env`; values the browser may see start with
+// NEXT_PUBLIC_ and are in `clientEnv`. Missing or invalid variables stop
+// the server at startup (see src/instrumentation.ts) with one message
+// listing every problem. Documented in .env.example.
+
+/** Unset, or set to an empty string as in .env.example */
+const optional = <T extends z.ZodType>(schema: T) =>
+	z.preprocess(
+		(value) => (value === "" ? undefined : value),
+		schema.optional(),
+	);
+
+const flag = z
+	.enum(["true", "false"], { error: 'Must be "true" or "false"' })
+	.default("false")
+	.transform((value) => value === "true");
+
+const commaList = z
+	.string()
+	.default("")
+	.transform((value) =>
+		value
+			.split(",")
+			.map((item) => item.trim().toLowerCase())
+			.filter(Boolean),
+	);
+
+/** Placeholder from .env.example, rejected in production */
+const EXAMPLE_SECRET = "generate-a-random-secret-here";
+
+// =============================================================================
+// SERVER
+// =============================================================================
+
+const serverShape = {
+	NODE_ENV: z
+		.enum(["development", "production", "test"])
+		.default("development"),
+
+	// Database
+	DATABASE_URL: z.url({
+		protocol: /^postgres(ql)?$/,
+		error: "Must be a postgresql:// connection string",
+	}),
+	/** Queries taking at least this many ms are logged as warnings */
+	PRISMA_SLOW_QUERY_MS: z.coerce.number().int().positive().default(500),
+
+	// Auth
+	BETTER_AUTH_SECRET: z.string().min(1),
+	BETTER_AUTH_URL: z.url().default("http://localhost:3000"),
+	AUTH_REQUIRE_EMAIL_VERIFICATION: flag,
+	/** Emails given the admin role once the user has verified them */
+	ADMIN_EMAILS: commaList,
+	/** Defaults to "database" in production, "memory" otherwise */
+	RATE_LIMIT_STORE: optional(z.enum(["memory", "database"])),
+	/**
+	 * Proxies in front of the app that append to X-Forwarded-For; the client
+	 * IP is the entry the outermost one added. 0 ignores the header
+	 */
+	TRUSTED_PROXY_HOPS: z.coerce.number().int().min(0).default(1),
+
+	// OAuth providers: each is enabled when its client ID and secret are set
+	GITHUB_CLIENT_ID: optional(z.string()),
+	GITHUB_CLIENT_SECRET: optional(z.string()),
+	GOOGLE_CLIENT_ID: optional(z.string()),
+	GOOGLE_CLIENT_SECRET: optional(z.string()),
+	MICROSOFT_CLIENT_ID: optional(z.string()),
+	MICROSOFT_CLIENT_SECRET: optional(z.string()),
+	MICROSOFT_TENANT_ID: optional(z.string()),
+	OIDC_DISCOVERY_URL: optional(z.url()),
+	OIDC_CLIENT_ID: optional(z.string()),
+	OIDC_CLIENT_SECRET: optional(z.string()),
+	OIDC_PROVIDER_NAME: optional(z.string()),
+
+	// Email
+	EMAIL_TRANSPORT: z
+		.enum(["console", "file", "memory", "smtp"])
+		.default("console"),
+	EMAIL_OUTBOX_DIR: z.string().default(".outbox"),
+	EMAIL_FROM: z.string().default("App <no-reply@localhost>"),
+	SMTP_URL: optional(z.url({ protocol: /^smtps?$/ })),
+	EMAIL_SIGN_IN_ALERTS: flag,
+
+	// File storage
+	STORAGE_DRIVER: z.enum(["local"]).default("local"),
+	STORAGE_LOCAL_DIR: z.string().default(".uploads"),
+
+	// Privacy
+	/** Days between a deletion request and the account being deleted */
+	ACCOUNT_DELETION_GRACE_DAYS: z.coerce.number().int().min(0).default(14),
+	/** "anonymize" keeps the user row with personal data removed */
+	ACCOUNT_DELETION_MODE: z.enum(["delete", "anonymize"]).default("delete"),
+
+	// Background jobs
+	/** "external" when a separate worker process runs the jobs */
+	JOB_WORKER: z.enum(["inline", "external"]).default("inline"),
+	JOB_CONCURRENCY: z.coerce.number().int().positive().default(5),
+
+	// Monitoring
+	LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+	/** Defaults to "json" in production, "pretty" otherwise */
+	LOG_FORMAT: optional(z.enum(["json", "pretty"])),
+	METRICS_TOKEN: optional(z.string().min(16)),
+	OTEL_EXPORTER_OTLP_ENDPOINT: optional(z.url()),
+	OTEL_SERVICE_NAME: optional(z.string()),
+	APPLICATIONINSIGHTS_CONNECTION_STRING: optional(z.string()),
+};
+
+type ServerInput = z.output<z.ZodObject<typeof serverShape>>;
+
+/** Defaults that depend on NODE_ENV */
+function withDefaults(env: ServerInput) {
+	const production = env.NODE_ENV === "production";
+	return {
+		...env,
+		RATE_LIMIT_STORE:
+			env.RATE_LIMIT_STORE ?? (production ? "database" : "memory"),
+		LOG_FORMAT: env.LOG_FORMAT ?? (production ? "json" : "pretty"),
+	};
+}
+
+/**
+ * Run cross-field checks even when other variables failed, so a single
+ * start-up reports every problem.
+ */
+const always = { when: () => true };
+
+const serverSchema = z
+	.object(serverShape)
+	.refine((env) => env.EMAIL_TRANSPORT !== "smtp" || Boolean(env.SMTP_URL), {
+		...always,
+		path: ["SMTP_URL"],
+		message: 'Required when EMAIL_TRANSPORT is "smtp"',
+	})
+	.refine(
+		// The other transports print or keep messages, including their
+		// verification and password-reset links
+		(env) => env.NODE_ENV !== "production" || env.EMAIL_TRANSPORT === "smtp",
+		{
+			...always,
+			path: ["EMAIL_TRANSPORT"],
+			message: 'Must be "smtp" in production',
+		},
+	)
+	.refine(
+		({ NODE_ENV, BETTER_AUTH_SECRET: secret }) =>
+			NODE_ENV !== "production" ||
+			!secret ||
+			(secret.length >= 32 && secret !== EXAMPLE_SECRET),
+		{
+			...always,
+			path: ["BETTER_AUTH_SECRET"],
+			message:
+				"Must be a random value of at least 32 characters in production (openssl rand -base64 32)",
+		},
+	)
+	.transform(withDefaults);
+
+export type ServerEnv = z.output<typeof serverSchema>;
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+// Next.js only inlines NEXT_PUBLIC_ variables into the browser bundle when
+// they are read by name, so each one is listed in `clientValues` below.
+
+const clientSchema = z.object({
+	/** Origin the browser sends auth requests to; defaults to the page's */
+	NEXT_PUBLIC_APP_URL: optional(z.url()),
+});
+
+const clientValues = {
+	NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,
+};
+
+export type ClientEnv = z.output<typeof clientSchema>;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * One line per problem, e.g. "  DATABASE_URL: is not set".
+ */
+function formatIssues(issues: z.core.$ZodIssue[], values: object) {
+	return issues
+		.map((issue) => {
+			const key = issue.path.join(".");
+			const unset =
+				issue.code === "invalid_type" &&
+				(values as Record<string, unknown>)[key] === undefined;
+			return `  ${key}: ${unset ? "is not set" : issue.message}`;
+		})
+		.join("\n");
+}
+
+function parse<T extends z.ZodType>(schema: T, values: object): z.output<T> {
+	const result = schema.safeParse(values);
+	if (!result.success) {
+		throw new Error(
+			`Invalid environment variables:\n${formatIssues(result.error.issues, values)}\nSee .env.example for what each one does.`,
+		);
+	}
+	return result.data;
+}
+
+function parseServerEnv(): ServerEnv {
+	// `next build` loads server modules without the runtime secrets, so only
+	// reject values that are set but invalid
+	if (process.env.NEXT_PHASE === "phase-production-build") {
+		const lenient = z
+			.object(serverShape)
+			.partial()
+			.transform((values) => withDefaults(values as ServerInput));
+		return parse(lenient, process.env);
+	}
+	return parse(serverSchema, process.env);
+}
+
+/**
+ * Server configuration. Reading it in the browser throws, so a server value
+ * can't end up in a client component by accident.
+ *
+ * @example
+ * import { env } from "@/lib/env";
+ * if (env.EMAIL_SIGN_IN_ALERTS) { ... }
+ */
+export const env: ServerEnv =
+	typeof window === "undefined"
+		? parseServerEnv()
+		: new Proxy({} as ServerEnv, {
+				get(_, key) {
+					throw new Error(
+						`${String(key)} is a server environment variable and can't be read in the browser`,
+					);
+				},
+			});
+
+/**
+ * Configuration that is safe to use in client components.
+ */
+export const clientEnv: ClientEnv = parse(clientSchema, clientValues);
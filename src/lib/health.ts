@@ -0,0 +1,137 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import { prisma } from "./prisma";
+
+// =============================================================================
+// HEALTH - Readiness checks for /api/ready
+// =============================================================================
+
+export interface CheckResult {
+	status: "ok" | "error" | "skipped";
+	/** Time the check took, in milliseconds */
+	duration: number;
+	message?: string;
+}
+
+/** A hung database counts as down rather than holding the probe open */
+const CHECK_TIMEOUT_MS = 3000;
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "prisma", "migrations");
+
+async function timed(
+	check: () => Promise<Omit<CheckResult, "duration">>,
+): Promise<CheckResult> {
+	const start = performance.now();
+	let timer: NodeJS.Timeout | undefined;
+	try {
+		const result = await Promise.race([
+			check(),
+			new Promise<never>((_, reject) => {
+				timer = setTimeout(
+					() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+					CHECK_TIMEOUT_MS,
+				);
+			}),
+		]);
+		return { ...result, duration: Math.round(performance.now() - start) };
+	} catch (error) {
+		return {
+			status: "error",
+			duration: Math.round(performance.now() - start),
+			message: error instanceof Error ? error.message : String(error),
+		};
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Names of the migrations in prisma/migrations, or null when the project
+ * has none (schema changes applied with `db push`).
+ */
+async function localMigrations() {
+	try {
+		const entries = await readdir(MIGRATIONS_DIR, { withFileTypes: true });
+		return entries.filter((entry) => entry.isDirectory()).map((e) => e.name);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+		throw error;
+	}
+}
+
+/**
+ * Database accepts queries.
+ */
+export function checkDatabase() {
+	return timed(async () => {
+		await prisma.$queryRaw`SELECT 1`;
+		return { status: "ok" };
+	});
+}
+
+/**
+ * Every migration shipped with the build has been applied and none failed.
+ * Skipped when there is no prisma/migrations folder.
+ */
+export function checkMigrations() {
+	return timed(async () => {
+		const local = await localMigrations();
+		if (!local) return { status: "skipped", message: "No migrations folder" };
+
+		const [{ exists }] = await prisma.$queryRaw<{ exists: boolean }[]>`
+			SELECT to_regclass('_prisma_migrations') IS NOT NULL AS "exists"
+		`;
+		const applied = exists
+			? await prisma.$queryRaw<
+					{
+						migration_name: string;
+						finished_at: Date | null;
+						rolled_back_at: Date | null;
+					}[]
+				>`
+					SELECT migration_name, finished_at, rolled_back_at
+					FROM _prisma_migrations
+				`
+			: [];
+
+		const failed = applied.filter(
+			(row) => !row.finished_at && !row.rolled_back_at,
+		);
+		if (failed.length > 0) {
+			return {
+				status: "error",
+				message: `Failed migrations: ${failed.map((row) => row.migration_name).join(", ")}`,
+			};
+		}
+
+		const done = new Set(
+			applied
+				.filter((row) => row.finished_at && !row.rolled_back_at)
+				.map((row) => row.migration_name),
+		);
+		const pending = local.filter((name) => !done.has(name));
+		if (pending.length > 0) {
+			return {
+				status: "error",
+				message: `Pending migrations: ${pending.join(", ")}`,
+			};
+		}
+		return { status: "ok" };
+	});
+}
+
+/**
+ * Run every readiness check. `ready` is false when any check errors.
+ * Used for: /api/ready
+ */
+export async function checkReadiness() {
+	const [database, migrations] = await Promise.all([
+		checkDatabase(),
+		checkMigrations(),
+	]);
+	const checks = { database, migrations };
+	return {
+		ready: Object.values(checks).every((check) => check.status !== "error"),
+		checks,
+	};
+}
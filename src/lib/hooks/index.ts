@@ -1 +1,7 @@
-export { useAuthForm } from "./use-auth-form";
+export { useActionForm } from "./use-action-form";
+export { fromActionResult, useAuthForm } from "./use-auth-form";
+export {
+	type FormErrors,
+	type SubmitOutcome,
+	useZodForm,
+} from "./use-zod-form";
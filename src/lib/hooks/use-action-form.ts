@@ -0,0 +1,47 @@
+"use client";
+
+import type { z } from "zod/v4";
+import type { ActionResult } from "@/lib/validations";
+import { fromActionResult, useAuthForm } from "./use-auth-form";
+
+interface UseActionFormOptions<TSchema extends z.ZodSchema, TData> {
+	schema: TSchema;
+	/** A server action built with `createAction` */
+	action: (input: z.infer<TSchema>) => Promise<ActionResult<TData>>;
+	initialData: z.input<TSchema>;
+	/** Called with the action's result before any redirect */
+	onSuccess?: (result: ActionResult<TData>) => void;
+	/** Where to go on success; defaults to staying on the page */
+	redirectTo?: string | false;
+}
+
+/**
+ * useAuthForm wired to a server action. Validates on the client, then
+ * shows the action's message or per-field errors.
+ *
+ * @example
+ * const form = useActionForm({
+ * 	schema: updateProfileSchema,
+ * 	action: updateProfile,
+ * 	initialData: { name },
+ * 	onSuccess: (result) => setNotice(result.message),
+ * });
+ */
+export function useActionForm<TSchema extends z.ZodSchema, TData = void>({
+	schema,
+	action,
+	initialData,
+	onSuccess,
+	redirectTo = false,
+}: UseActionFormOptions<TSchema, TData>) {
+	return useAuthForm<TSchema>({
+		schema,
+		initialData,
+		redirectTo,
+		onSubmit: async (data) => {
+			const result = await action(data);
+			if (result.success) onSuccess?.(result);
+			return fromActionResult(result);
+		},
+	});
+}
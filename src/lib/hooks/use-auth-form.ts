@@ -1,86 +1,125 @@
 "use client";
 
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import type { z } from "zod/v4";
+import { getSafeCallbackUrl } from "@/lib/routes";
+import { formatDuration } from "@/lib/utils";
+import type { ActionResult } from "@/lib/validations";
+import { useZodForm } from "./use-zod-form";
 
 type FieldErrors<T> = Partial<Record<keyof T, string>>;
 
+/** Error shape of better-auth client calls; 429s also carry `retryAfter` */
+interface SubmitError {
+	message?: string;
+	status?: number;
+	/** Seconds until the request may be retried */
+	retryAfter?: number;
+}
+
 interface UseAuthFormOptions<TSchema extends z.ZodSchema> {
 	schema: TSchema;
-	initialData: z.infer<TSchema>;
-	onSubmit: (
-		data: z.infer<TSchema>,
-	) => Promise<{ error?: { message?: string } }>;
-	redirectTo?: string;
+	initialData: z.input<TSchema>;
+	onSubmit: (data: z.infer<TSchema>) => Promise<{
+		error?: SubmitError | null;
+		/** Server-side validation errors, shown next to their fields */
+		fieldErrors?: Record<string, string[]>;
+		redirectTo?: string;
+	}>;
+	/** Where to go on success; `false` stays on the page (multi-step forms) */
+	redirectTo?: string | false;
 }
 
 interface UseAuthFormReturn<TSchema extends z.ZodSchema> {
-	formData: z.infer<TSchema>;
-	errors: FieldErrors<z.infer<TSchema>>;
+	formData: z.input<TSchema>;
+	errors: FieldErrors<z.input<TSchema>>;
 	submitError: string;
 	loading: boolean;
-	handleChange: (field: keyof z.infer<TSchema>, value: string) => void;
+	handleChange: (field: keyof z.input<TSchema>, value: string) => void;
 	handleSubmit: (e: React.FormEvent) => Promise<void>;
 }
 
+/**
+ * Adapt a server action's ActionResult to the shape `onSubmit` expects.
+ *
+ * @example
+ * onSubmit: async (data) => fromActionResult(await updateProfile(data))
+ */
+export function fromActionResult<T>(result: ActionResult<T>) {
+	if (result.success) return {};
+
+	const firstFieldError = Object.values(result.errors ?? {})[0]?.[0];
+	return {
+		error: { message: result.message ?? firstFieldError },
+		fieldErrors: result.errors,
+	};
+}
+
+function describeSubmitError(error: SubmitError) {
+	if (error.status === 429 && !error.message) {
+		return error.retryAfter
+			? `Too many attempts. Try again in ${formatDuration(error.retryAfter)}.`
+			: "Too many attempts. Try again later.";
+	}
+	return error.message ?? "An error occurred";
+}
+
+/**
+ * useZodForm for flat string forms with better-auth style results. On
+ * success it navigates to the step returned by `onSubmit`, then
+ * ?callbackUrl=, then `redirectTo`.
+ */
 export function useAuthForm<TSchema extends z.ZodSchema>({
 	schema,
 	initialData,
 	onSubmit,
 	redirectTo = "/",
 }: UseAuthFormOptions<TSchema>): UseAuthFormReturn<TSchema> {
-	type FormData = z.infer<TSchema>;
+	type FormData = z.input<TSchema>;
 
 	const router = useRouter();
-	const [formData, setFormData] = useState<FormData>(initialData);
-	const [errors, setErrors] = useState<FieldErrors<FormData>>({});
-	const [submitError, setSubmitError] = useState("");
-	const [loading, setLoading] = useState(false);
-
-	function handleChange(field: keyof FormData, value: string) {
-		setFormData((prev) => ({ ...prev, [field]: value }));
-		if (errors[field]) {
-			setErrors((prev) => ({ ...prev, [field]: undefined }));
-		}
-	}
-
-	async function handleSubmit(e: React.FormEvent) {
-		e.preventDefault();
-		setSubmitError("");
-		setErrors({});
+	const [navigating, setNavigating] = useState(false);
+	const nextStep = useRef<string | undefined>(undefined);
 
-		const result = schema.safeParse(formData);
-		if (!result.success) {
-			const fieldErrors: FieldErrors<FormData> = {};
-			for (const issue of result.error.issues) {
-				const field = issue.path[0] as keyof FormData;
-				fieldErrors[field] = issue.message;
-			}
-			setErrors(fieldErrors);
-			return;
-		}
+	const form = useZodForm({
+		schema,
+		initialData,
+		validateOn: "submit",
+		onSubmit: async (data) => {
+			const result = await onSubmit(data);
+			nextStep.current = result.redirectTo;
+			return {
+				error: result.error ? describeSubmitError(result.error) : null,
+				fieldErrors: result.fieldErrors,
+			};
+		},
+		onSuccess: () => {
+			if (redirectTo === false && !nextStep.current) return;
 
-		setLoading(true);
-
-		const { error } = await onSubmit(result.data);
-
-		if (error) {
-			setSubmitError(error.message ?? "An error occurred");
-			setLoading(false);
-			return;
-		}
-
-		router.push(redirectTo);
-		router.refresh();
-	}
+			// An extra step returned by onSubmit (e.g. 2FA) comes first, then a
+			// ?callbackUrl= set by the route guard, then the default target
+			const callbackUrl = new URLSearchParams(window.location.search).get(
+				"callbackUrl",
+			);
+			setNavigating(true);
+			router.push(
+				nextStep.current ??
+					getSafeCallbackUrl(callbackUrl, redirectTo || undefined),
+			);
+			router.refresh();
+		},
+	});
 
 	return {
-		formData,
-		errors,
-		submitError,
-		loading,
-		handleChange,
-		handleSubmit,
+		formData: form.values as FormData,
+		errors: form.errors as FieldErrors<FormData>,
+		submitError: form.submitError,
+		loading: form.submitting || navigating,
+		handleChange: (field, value) =>
+			form.setValue(field as never, value as never),
+		handleSubmit: async (e) => {
+			await form.handleSubmit(e);
+		},
 	};
 }
@@ -0,0 +1,325 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { z } from "zod/v4";
+
+// =============================================================================
+// PATHS - Dot-separated field paths into nested objects and arrays
+// =============================================================================
+
+type Leaf = string | number | boolean | bigint | Date | Blob | null | undefined;
+
+/**
+ * Every dot-separated path into `T`, e.g. "name", "address.city", "tags.0".
+ * Stops a few levels deep to keep type checking fast.
+ */
+export type FieldPath<
+	T,
+	Depth extends unknown[] = [],
+> = Depth["length"] extends 5
+	? never
+	: T extends Leaf
+		? never
+		: T extends readonly (infer Item)[]
+			? `${number}` | `${number}.${FieldPath<NonNullable<Item>, [...Depth, 1]>}`
+			: {
+					[K in keyof T & string]:
+						| K
+						| `${K}.${FieldPath<NonNullable<T[K]>, [...Depth, 1]>}`;
+				}[keyof T & string];
+
+type Segment<T, K extends string> = T extends readonly (infer Item)[]
+	? Item
+	: K extends keyof T
+		? T[K]
+		: never;
+
+/** Type of the value at `P` in `T` */
+export type FieldValue<
+	T,
+	P extends string,
+> = P extends `${infer K}.${infer Rest}`
+	? FieldValue<NonNullable<Segment<T, K>>, Rest>
+	: Segment<T, P>;
+
+function splitPath(path: string) {
+	return path === "" ? [] : path.split(".");
+}
+
+function getIn(source: unknown, path: string): unknown {
+	let value = source;
+	for (const key of splitPath(path)) {
+		if (value === null || typeof value !== "object") return undefined;
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+}
+
+/** Copy of `source` with the value at `path` replaced */
+function setIn<T>(source: T, path: string, value: unknown): T {
+	const [key, ...rest] = splitPath(path);
+	if (key === undefined) return value as T;
+
+	const current = (source ?? (/^\d+$/.test(key) ? [] : {})) as Record<
+		string,
+		unknown
+	>;
+	const copy = (
+		Array.isArray(current) ? [...current] : { ...current }
+	) as Record<string, unknown>;
+	copy[key] = setIn(current[key], rest.join("."), value);
+	return copy as T;
+}
+
+/** Issue path as a field path; numeric keys become array indexes */
+function issuePath(issue: z.core.$ZodIssue) {
+	return issue.path.map(String).join(".");
+}
+
+function isWithin(path: string, field: string) {
+	return path === field || path.startsWith(`${field}.`);
+}
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+export type FormErrors = Record<string, string | undefined>;
+
+/** Form-level error when `onSubmit` throws instead of reporting an outcome */
+export const SUBMIT_FAILED_MESSAGE = "Something went wrong. Please try again.";
+
+/** What `onSubmit` may report back, e.g. from a server action */
+export interface SubmitOutcome {
+	/** Message for the whole form; `fromActionResult` returns `{ message }` */
+	error?: string | { message?: string } | null;
+	/** Errors for individual fields, keyed by path */
+	fieldErrors?: Record<string, string[] | string | undefined>;
+}
+
+export interface UseZodFormOptions<TSchema extends z.ZodType> {
+	schema: TSchema;
+	initialData: z.input<TSchema>;
+	/** A throw shows SUBMIT_FAILED_MESSAGE as the form's error */
+	onSubmit: (data: z.output<TSchema>) => Promise<SubmitOutcome | undefined>;
+	/** Called after `onSubmit` finishes without errors */
+	onSuccess?: (data: z.output<TSchema>) => void;
+	/**
+	 * "blur" (default) checks a field when it loses focus and again on every
+	 * change once it has an error; "submit" only validates on submit
+	 */
+	validateOn?: "blur" | "submit";
+}
+
+interface FieldOptions {
+	/** How to read the input: `checked`, `valueAsNumber` or `files` */
+	type?: "text" | "checkbox" | "number" | "file";
+}
+
+/**
+ * Form state driven by a zod schema. Fields are addressed by path
+ * ("address.city", "tags.0"), so nested objects and arrays work, and values
+ * keep their type (booleans, numbers, files). The schema is parsed with
+ * `safeParseAsync`, so async refinements run on blur and submit.
+ *
+ * @example
+ * const form = useZodForm({
+ * 	schema: projectSchema,
+ * 	initialData: { name: "", public: false, tags: [] },
+ * 	onSubmit: async (data) => fromActionResult(await saveProject(data)),
+ * 	onSuccess: () => router.refresh(),
+ * });
+ *
+ * <Input {...form.register("name")} />
+ * <input type="checkbox" {...form.register("public", { type: "checkbox" })} />
+ */
+export function useZodForm<TSchema extends z.ZodType>({
+	schema,
+	initialData,
+	onSubmit,
+	onSuccess,
+	validateOn = "blur",
+}: UseZodFormOptions<TSchema>) {
+	type Values = z.input<TSchema>;
+	type Path = FieldPath<Values>;
+
+	const [initial, setInitial] = useState<Values>(initialData);
+	const [values, setValues] = useState<Values>(initialData);
+	const [errors, setErrors] = useState<FormErrors>({});
+	const [touched, setTouched] = useState<Record<string, boolean>>({});
+	const [dirty, setDirty] = useState<Record<string, boolean>>({});
+	const [submitError, setSubmitError] = useState("");
+	const [submitting, setSubmitting] = useState(false);
+
+	// Handlers read the latest values without waiting for a re-render, and
+	// stale async validations are dropped
+	const valuesRef = useRef(values);
+	const errorsRef = useRef(errors);
+	const validationRun = useRef<Record<string, number>>({});
+
+	function updateErrors(update: (prev: FormErrors) => FormErrors) {
+		errorsRef.current = update(errorsRef.current);
+		setErrors(errorsRef.current);
+	}
+
+	async function validateField(path: string) {
+		const run = (validationRun.current[path] ?? 0) + 1;
+		validationRun.current[path] = run;
+
+		const result = await schema.safeParseAsync(valuesRef.current);
+		if (validationRun.current[path] !== run) return;
+
+		const message = result.success
+			? undefined
+			: result.error.issues.find((issue) => isWithin(issuePath(issue), path))
+					?.message;
+		updateErrors((prev) => {
+			const next = { ...prev };
+			for (const key of Object.keys(next)) {
+				if (isWithin(key, path)) delete next[key];
+			}
+			if (message) next[path] = message;
+			return next;
+		});
+	}
+
+	function setValue<P extends Path>(path: P, value: FieldValue<Values, P>) {
+		valuesRef.current = setIn(valuesRef.current, path, value);
+		setValues(valuesRef.current);
+		setDirty((prev) => ({
+			...prev,
+			[path]: !Object.is(value, getIn(initial, path)),
+		}));
+
+		if (validateOn === "blur" && errorsRef.current[path]) {
+			void validateField(path);
+		} else if (errorsRef.current[path]) {
+			updateErrors((prev) => ({ ...prev, [path]: undefined }));
+		}
+	}
+
+	function handleBlur(path: Path) {
+		setTouched((prev) => ({ ...prev, [path]: true }));
+		if (validateOn === "blur") void validateField(path);
+	}
+
+	/** Set errors from outside, e.g. an async availability check */
+	function setFieldErrors(
+		fieldErrors: NonNullable<SubmitOutcome["fieldErrors"]>,
+	) {
+		updateErrors((prev) => {
+			const next = { ...prev };
+			for (const [path, messages] of Object.entries(fieldErrors)) {
+				next[path] = Array.isArray(messages) ? messages[0] : messages;
+			}
+			return next;
+		});
+	}
+
+	/**
+	 * Props for an `<input>`: name, value (or checked), onChange, onBlur
+	 * and aria-invalid.
+	 */
+	function register(path: Path, { type = "text" }: FieldOptions = {}) {
+		const value = getIn(values, path);
+		const onChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+			const input = event.target;
+			const next =
+				type === "checkbox"
+					? input.checked
+					: type === "number"
+						? Number.isNaN(input.valueAsNumber)
+							? undefined
+							: input.valueAsNumber
+						: type === "file"
+							? (input.files?.[0] ?? undefined)
+							: input.value;
+			setValue(path, next as FieldValue<Values, typeof path>);
+		};
+
+		return {
+			name: path,
+			onChange,
+			onBlur: () => handleBlur(path),
+			"aria-invalid": !!errors[path],
+			...(type === "checkbox"
+				? { checked: Boolean(value) }
+				: type === "file"
+					? {}
+					: { value: (value as string | number | undefined) ?? "" }),
+		};
+	}
+
+	/** Start over from `nextValues`, or the initial data */
+	function reset(nextValues: Values = initial) {
+		valuesRef.current = nextValues;
+		errorsRef.current = {};
+		setInitial(nextValues);
+		setValues(nextValues);
+		setErrors({});
+		setTouched({});
+		setDirty({});
+		setSubmitError("");
+	}
+
+	async function handleSubmit(event?: React.FormEvent) {
+		event?.preventDefault();
+		setSubmitError("");
+
+		const result = await schema.safeParseAsync(valuesRef.current);
+		if (!result.success) {
+			const next: FormErrors = {};
+			const nextTouched: Record<string, boolean> = {};
+			for (const issue of result.error.issues) {
+				const path = issuePath(issue);
+				next[path] ??= issue.message;
+				nextTouched[path] = true;
+			}
+			errorsRef.current = next;
+			setErrors(next);
+			setTouched((prev) => ({ ...prev, ...nextTouched }));
+			if (next[""]) setSubmitError(next[""]);
+			return false;
+		}
+
+		errorsRef.current = {};
+		setErrors({});
+		setSubmitting(true);
+		try {
+			const outcome = await onSubmit(result.data);
+			if (outcome?.fieldErrors) setFieldErrors(outcome.fieldErrors);
+			if (outcome?.error || outcome?.fieldErrors) {
+				const { error } = outcome;
+				setSubmitError(
+					typeof error === "string" ? error : (error?.message ?? ""),
+				);
+				return false;
+			}
+			onSuccess?.(result.data);
+			return true;
+		} catch {
+			// e.g. a network failure or an action that threw; its message is
+			// not meant for users
+			setSubmitError(SUBMIT_FAILED_MESSAGE);
+			return false;
+		} finally {
+			setSubmitting(false);
+		}
+	}
+
+	return {
+		values,
+		errors,
+		touched,
+		dirty,
+		isDirty: Object.values(dirty).some(Boolean),
+		submitError,
+		submitting,
+		setValue,
+		setFieldErrors,
+		handleBlur,
+		register,
+		reset,
+		handleSubmit,
+	};
+}
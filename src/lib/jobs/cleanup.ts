@@ -0,0 +1,69 @@
+import { z } from "zod/v4";
+import { logger } from "../logger";
+import { prisma } from "../prisma";
+import { defineJob } from "./define";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long finished jobs stay visible in the admin console */
+const COMPLETED_JOB_RETENTION_MS = 7 * DAY_MS;
+const FAILED_JOB_RETENTION_MS = 30 * DAY_MS;
+
+/** How long finished webhook deliveries (and their payloads) are kept */
+const WEBHOOK_DELIVERY_RETENTION_MS = 30 * DAY_MS;
+
+export const CLEANUP_JOBS = {
+	/**
+	 * Delete expired sessions, verification tokens and rate-limit buckets,
+	 * and finished jobs and webhook deliveries past their retention.
+	 */
+	"purge-expired": defineJob({
+		schema: z.object({}),
+		handler: async () => {
+			const now = new Date();
+			const [sessions, verifications, buckets, jobs, deliveries] =
+				await prisma.$transaction([
+					prisma.session.deleteMany({ where: { expiresAt: { lt: now } } }),
+					prisma.verification.deleteMany({
+						where: { expiresAt: { lt: now } },
+					}),
+					prisma.rateLimitBucket.deleteMany({
+						where: { resetAt: { lt: now } },
+					}),
+					prisma.job.deleteMany({
+						where: {
+							OR: [
+								{
+									status: "completed",
+									completedAt: {
+										lt: new Date(now.getTime() - COMPLETED_JOB_RETENTION_MS),
+									},
+								},
+								{
+									status: "failed",
+									updatedAt: {
+										lt: new Date(now.getTime() - FAILED_JOB_RETENTION_MS),
+									},
+								},
+							],
+						},
+					}),
+					prisma.webhookDelivery.deleteMany({
+						where: {
+							status: { not: "pending" },
+							createdAt: {
+								lt: new Date(now.getTime() - WEBHOOK_DELIVERY_RETENTION_MS),
+							},
+						},
+					}),
+				]);
+			logger.info("Purged expired rows", {
+				sessions: sessions.count,
+				verifications: verifications.count,
+				rateLimitBuckets: buckets.count,
+				jobs: jobs.count,
+				webhookDeliveries: deliveries.count,
+			});
+		},
+	}),
+};
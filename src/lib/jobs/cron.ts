@@ -0,0 +1,61 @@
+import { CronExpressionParser } from "cron-parser";
+import { enqueueJob } from "./queue";
+import type { JobName, JobPayload } from "./registry";
+
+// =============================================================================
+// CRON - Jobs enqueued on a schedule by the worker
+// =============================================================================
+
+/** Jobs that take an empty payload, the only kind a schedule can run */
+type ScheduledJobName = {
+	[TName in JobName]: JobPayload<TName> extends Record<string, never>
+		? TName
+		: never;
+}[JobName];
+
+export interface CronSchedule {
+	/** Five-field cron expression, evaluated in UTC */
+	cron: string;
+	job: ScheduledJobName;
+	description: string;
+}
+
+export const CRON_SCHEDULES: CronSchedule[] = [
+	{
+		cron: "0 * * * *",
+		job: "purge-expired",
+		description: "Delete expired sessions, tokens and old jobs",
+	},
+	{
+		cron: "30 * * * *",
+		job: "expire-data-exports",
+		description: "Delete data export archives past their download window",
+	},
+];
+
+function parse(cron: string, currentDate: Date) {
+	return CronExpressionParser.parse(cron, { currentDate, tz: "UTC" });
+}
+
+export function nextCronRun(schedule: CronSchedule, after = new Date()) {
+	return parse(schedule.cron, after).next().toDate();
+}
+
+/**
+ * Enqueue each schedule's most recent occurrence. The job key names the
+ * occurrence, so every worker can call this and each run happens once; a
+ * worker that was down catches up with one run, not one per missed slot.
+ */
+export async function enqueueDueCronJobs(now = new Date()) {
+	for (const schedule of CRON_SCHEDULES) {
+		const occurrence = parse(schedule.cron, now).prev().toDate();
+		await enqueueJob(
+			schedule.job,
+			{},
+			{
+				runAt: occurrence,
+				key: `cron:${schedule.job}:${occurrence.toISOString()}`,
+			},
+		);
+	}
+}
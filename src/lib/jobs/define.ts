@@ -0,0 +1,47 @@
+import type { z } from "zod/v4";
+
+export interface JobContext {
+	jobId: string;
+	/** 1 on the first run */
+	attempt: number;
+	maxAttempts: number;
+	/** When the job runs again if this attempt throws; null on the last one */
+	retryAt: Date | null;
+}
+
+/**
+ * A kind of background job. The payload is stored as JSON and parsed with
+ * `schema` before `handler` runs; throwing schedules a retry.
+ */
+export interface JobDefinition<TSchema extends z.ZodType = z.ZodType> {
+	schema: TSchema;
+	handler: (payload: z.output<TSchema>, context: JobContext) => Promise<void>;
+	/** Defaults to 5 */
+	maxAttempts?: number;
+	/** Milliseconds to wait after failed attempt number `attempt` */
+	backoff?: (attempt: number) => number;
+	/** Payload fields hidden on the admin jobs page, e.g. links with tokens */
+	redact?: string[];
+}
+
+export interface EnqueueOptions {
+	/** Earliest time to run; defaults to now */
+	runAt?: Date;
+	/** Skip the job if one with this key already exists */
+	key?: string;
+}
+
+/**
+ * Identity function that types a job definition. Kept apart from the
+ * registry so modules defining jobs don't import it.
+ *
+ * @example
+ * export const EMAIL_JOBS = {
+ * 	"send-email": defineJob({ schema: emailMessageSchema, handler: ... }),
+ * };
+ */
+export function defineJob<TSchema extends z.ZodType>(
+	definition: JobDefinition<TSchema>,
+) {
+	return definition;
+}
@@ -0,0 +1,93 @@
+import type { Prisma } from "@/generated/prisma/client";
+import { prisma } from "../prisma";
+import type { JobFilterInput, JobStatus } from "../validations";
+
+export type { EnqueueOptions, JobContext, JobDefinition } from "./define";
+export { defineJob } from "./define";
+export { enqueueJob } from "./queue";
+export type { JobName, JobPayload } from "./registry";
+
+// =============================================================================
+// JOBS - Background work queued in PostgreSQL
+// =============================================================================
+// enqueueJob() stores a row; a worker (src/lib/jobs/worker.ts) claims and
+// runs it, retrying with backoff when the handler throws. The worker runs
+// inside the app server unless JOB_WORKER="external", in which case run
+// `pnpm worker` (or the worker image) separately.
+
+const REDACTED = "[redacted]";
+
+/**
+ * `payload` with the fields its job definition marks as secret replaced.
+ */
+function redactPayload(
+	redact: string[] | undefined,
+	payload: Prisma.JsonValue,
+): Prisma.JsonValue {
+	if (!redact || !payload || typeof payload !== "object") return payload;
+	if (Array.isArray(payload)) return REDACTED;
+	return Object.fromEntries(
+		Object.entries(payload).map(([field, value]) => [
+			field,
+			redact.includes(field) ? REDACTED : value,
+		]),
+	);
+}
+
+/**
+ * Jobs matching `status` and `name`, soonest to run first for queued jobs
+ * and newest first otherwise. Payload fields listed in the job's `redact`
+ * are hidden.
+ */
+export async function listJobs({ status, name, page, limit }: JobFilterInput) {
+	// Loaded lazily: job definitions import the modules that enqueue jobs
+	const { getJobDefinition } = await import("./registry");
+	const where: Prisma.JobWhereInput = { status, name };
+	const [items, total] = await Promise.all([
+		prisma.job.findMany({
+			where,
+			orderBy: status === "queued" ? { runAt: "asc" } : { updatedAt: "desc" },
+			skip: (page - 1) * limit,
+			take: limit,
+		}),
+		prisma.job.count({ where }),
+	]);
+
+	return {
+		items: items.map((job) => ({
+			...job,
+			payload: redactPayload(getJobDefinition(job.name)?.redact, job.payload),
+		})),
+		meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+	};
+}
+
+/**
+ * Number of jobs in each status.
+ */
+export async function countJobsByStatus() {
+	const groups = await prisma.job.groupBy({
+		by: ["status"],
+		_count: { _all: true },
+	});
+	return Object.fromEntries(
+		groups.map((group) => [group.status, group._count._all]),
+	) as Partial<Record<JobStatus, number>>;
+}
+
+/**
+ * Queue a failed job again with a fresh set of attempts.
+ */
+export async function retryJob(id: string) {
+	await prisma.job.update({
+		where: { id, status: "failed" },
+		data: { status: "queued", attempts: 0, runAt: new Date() },
+	});
+}
+
+/**
+ * Delete a job that isn't running.
+ */
+export async function deleteJob(id: string) {
+	await prisma.job.delete({ where: { id, status: { not: "running" } } });
+}
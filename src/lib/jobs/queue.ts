@@ -0,0 +1,175 @@
+import type { Prisma } from "@/generated/prisma/client";
+import { prisma } from "../prisma";
+import type { EnqueueOptions } from "./define";
+import type { JobName, JobPayload } from "./registry";
+
+// =============================================================================
+// QUEUE - Adding, claiming and finishing jobs in the `job` table
+// =============================================================================
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** Stored errors are cut to this length */
+const MAX_ERROR_LENGTH = 2000;
+
+// Shared across module copies (dev reloads, instrumentation) so an
+// in-process worker hears about jobs enqueued by route handlers
+const globalForJobs = global as unknown as {
+	jobListeners: Set<() => void> | undefined;
+};
+globalForJobs.jobListeners ??= new Set();
+const listeners = globalForJobs.jobListeners;
+
+/**
+ * Call `listener` whenever a job that is due now is enqueued in this
+ * process. Returns an unsubscribe function.
+ */
+export function onJobEnqueued(listener: () => void) {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Add a job to the queue. The payload is checked against the job's schema
+ * here, so mistakes fail in the caller rather than in the worker. Returns
+ * the job ID, or null when `key` matched an existing job.
+ *
+ * @example
+ * await enqueueJob("send-email", { to, subject, text });
+ * await enqueueJob("purge-expired", {}, { key: `purge:${day}` });
+ */
+export async function enqueueJob<TName extends JobName>(
+	name: TName,
+	payload: JobPayload<TName>,
+	{ runAt = new Date(), key }: EnqueueOptions = {},
+) {
+	// Loaded lazily: job definitions import the modules that enqueue jobs
+	const { getJobDefinition } = await import("./registry");
+	const definition = getJobDefinition(name);
+	if (!definition) throw new Error(`Unknown job "${name}"`);
+
+	const data = {
+		name,
+		payload: (await definition.schema.parseAsync(
+			payload,
+		)) as Prisma.InputJsonValue,
+		maxAttempts: definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+		runAt,
+		key,
+	};
+	const job = key
+		? (
+				await prisma.job.createManyAndReturn({
+					data: [data],
+					skipDuplicates: true,
+					select: { id: true },
+				})
+			)[0]
+		: await prisma.job.create({ data, select: { id: true } });
+
+	if (job && runAt.getTime() <= Date.now()) {
+		for (const listener of listeners) listener();
+	}
+	return job?.id ?? null;
+}
+
+export interface ClaimedJob {
+	id: string;
+	name: string;
+	payload: Prisma.JsonValue;
+	/** Including this run */
+	attempts: number;
+	maxAttempts: number;
+}
+
+/**
+ * Mark up to `limit` due jobs as running for `workerId` and return them.
+ * SKIP LOCKED lets concurrent workers claim different rows without waiting
+ * on each other.
+ */
+export async function claimJobs(workerId: string, limit: number) {
+	// Timestamps are bound rather than now(): Prisma's DateTime columns hold
+	// UTC without a zone, whatever the session time zone is
+	const now = new Date();
+	return prisma.$queryRaw<ClaimedJob[]>`
+		UPDATE "job"
+		SET "status" = 'running',
+			"attempts" = "attempts" + 1,
+			"lockedAt" = ${now},
+			"lockedBy" = ${workerId},
+			"updatedAt" = ${now}
+		WHERE "id" IN (
+			SELECT "id" FROM "job"
+			WHERE "status" = 'queued' AND "runAt" <= ${now}
+			ORDER BY "runAt"
+			LIMIT ${limit}
+			FOR UPDATE SKIP LOCKED
+		)
+		RETURNING "id", "name", "payload", "attempts", "maxAttempts"
+	`;
+}
+
+export async function completeJob(id: string) {
+	await prisma.job.update({
+		where: { id },
+		data: {
+			status: "completed",
+			completedAt: new Date(),
+			lockedAt: null,
+			lockedBy: null,
+		},
+	});
+}
+
+/**
+ * Record a failed run: requeue for `retryAt`, or mark the job failed when
+ * it is null.
+ */
+export async function failJob(
+	id: string,
+	error: unknown,
+	retryAt: Date | null,
+) {
+	const message =
+		error instanceof Error ? (error.stack ?? error.message) : String(error);
+	await prisma.job.update({
+		where: { id },
+		data: {
+			status: retryAt ? "queued" : "failed",
+			runAt: retryAt ?? undefined,
+			lastError: message.slice(0, MAX_ERROR_LENGTH),
+			lockedAt: null,
+			lockedBy: null,
+		},
+	});
+}
+
+/**
+ * Requeue jobs whose worker stopped without finishing them (crash,
+ * deploy). The interrupted run still counts as an attempt, so jobs that
+ * were on their last one are marked failed.
+ */
+export async function releaseStaleJobs(lockTimeoutMs: number) {
+	const stale = {
+		status: "running",
+		lockedAt: { lt: new Date(Date.now() - lockTimeoutMs) },
+	};
+	const unlock = { lockedAt: null, lockedBy: null };
+	const [requeued] = await prisma.$transaction([
+		prisma.job.updateMany({
+			where: { ...stale, attempts: { lt: prisma.job.fields.maxAttempts } },
+			data: { ...unlock, status: "queued" },
+		}),
+		prisma.job.updateMany({
+			where: stale,
+			data: {
+				...unlock,
+				status: "failed",
+				lastError: "Worker stopped while running the job",
+			},
+		}),
+	]);
+	return requeued.count;
+}
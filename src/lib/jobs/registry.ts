@@ -0,0 +1,29 @@
+import type { z } from "zod/v4";
+import { EMAIL_JOBS } from "../email/jobs";
+import { PRIVACY_JOBS } from "../privacy/jobs";
+import { WEBHOOK_JOBS } from "../webhooks/jobs";
+import { CLEANUP_JOBS } from "./cleanup";
+import type { JobDefinition } from "./define";
+
+// =============================================================================
+// JOB REGISTRY - Every job the worker knows how to run, by name
+// =============================================================================
+// Add a job by exporting definitions from the module that owns the work
+// (see src/lib/email/jobs.ts) and spreading them in here.
+
+export const JOBS = {
+	...EMAIL_JOBS,
+	...WEBHOOK_JOBS,
+	...CLEANUP_JOBS,
+	...PRIVACY_JOBS,
+} satisfies Record<string, JobDefinition>;
+
+export type JobName = keyof typeof JOBS;
+
+export type JobPayload<TName extends JobName> = z.input<
+	(typeof JOBS)[TName]["schema"]
+>;
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+	return Object.hasOwn(JOBS, name) ? JOBS[name as JobName] : undefined;
+}
@@ -0,0 +1,146 @@
+import { hostname } from "node:os";
+import { z } from "zod/v4";
+import { logger, withLogContext } from "../logger";
+import { enqueueDueCronJobs } from "./cron";
+import {
+	type ClaimedJob,
+	claimJobs,
+	completeJob,
+	failJob,
+	onJobEnqueued,
+	releaseStaleJobs,
+} from "./queue";
+import { getJobDefinition } from "./registry";
+
+// =============================================================================
+// WORKER - Polls the queue and runs jobs
+// =============================================================================
+
+const POLL_INTERVAL_MS = 2000;
+
+/** How often to enqueue cron jobs and release stale locks */
+const MAINTENANCE_INTERVAL_MS = 30 * 1000;
+
+/** A job running longer than this is assumed to have lost its worker */
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+const log = logger.child({ module: "jobs" });
+
+/** 30 seconds, doubling with each attempt */
+function defaultBackoff(attempt: number) {
+	return 30 * 1000 * 2 ** (attempt - 1);
+}
+
+async function runJob(job: ClaimedJob) {
+	const definition = getJobDefinition(job.name);
+	if (!definition) {
+		await failJob(job.id, new Error(`Unknown job "${job.name}"`), null);
+		return;
+	}
+
+	const backoff = definition.backoff ?? defaultBackoff;
+	const retryAt =
+		job.attempts < job.maxAttempts
+			? new Date(Date.now() + backoff(job.attempts))
+			: null;
+
+	try {
+		const payload = await definition.schema.parseAsync(job.payload);
+		await definition.handler(payload, {
+			jobId: job.id,
+			attempt: job.attempts,
+			maxAttempts: job.maxAttempts,
+			retryAt,
+		});
+		await completeJob(job.id);
+	} catch (error) {
+		// A payload that doesn't parse won't parse next time either
+		const next = error instanceof z.ZodError ? null : retryAt;
+		log.warn(next ? "Job failed, will retry" : "Job failed", {
+			err: error,
+			attempt: job.attempts,
+			retryAt: next,
+		});
+		await failJob(job.id, error, next);
+	}
+}
+
+export interface WorkerOptions {
+	/** Jobs run at the same time; defaults to 5 */
+	concurrency?: number;
+	pollInterval?: number;
+	/** Stops polling; resolves once running jobs finish */
+	signal?: AbortSignal;
+}
+
+/**
+ * Run jobs until `signal` aborts. Also enqueues cron jobs and requeues
+ * jobs left running by a worker that died. Any number of workers can run
+ * against the same database.
+ *
+ * @example
+ * const controller = new AbortController();
+ * process.once("SIGTERM", () => controller.abort());
+ * await runWorker({ signal: controller.signal });
+ */
+export async function runWorker({
+	concurrency = 5,
+	pollInterval = POLL_INTERVAL_MS,
+	signal,
+}: WorkerOptions = {}) {
+	const workerId = `${hostname()}:${process.pid}`;
+	const running = new Set<Promise<void>>();
+	let wake: (() => void) | undefined;
+	const unsubscribe = onJobEnqueued(() => wake?.());
+	let lastMaintenance = 0;
+
+	function sleep(ms: number) {
+		return new Promise<void>((resolve) => {
+			const done = () => {
+				clearTimeout(timer);
+				signal?.removeEventListener("abort", done);
+				wake = undefined;
+				resolve();
+			};
+			const timer = setTimeout(done, ms);
+			signal?.addEventListener("abort", done);
+			wake = done;
+		});
+	}
+
+	try {
+		while (!signal?.aborted) {
+			try {
+				if (Date.now() - lastMaintenance >= MAINTENANCE_INTERVAL_MS) {
+					lastMaintenance = Date.now();
+					await releaseStaleJobs(LOCK_TIMEOUT_MS);
+					await enqueueDueCronJobs();
+				}
+
+				const free = concurrency - running.size;
+				const jobs = free > 0 ? await claimJobs(workerId, free) : [];
+				for (const job of jobs) {
+					const task = withLogContext({ jobId: job.id, job: job.name }, () =>
+						runJob(job),
+					)
+						.catch((error) => {
+							log.error("Job crashed", { err: error, jobId: job.id });
+						})
+						.finally(() => {
+							running.delete(task);
+							wake?.();
+						});
+					running.add(task);
+				}
+				// A full batch means more may be waiting
+				if (free > 0 && jobs.length === free) continue;
+			} catch (error) {
+				log.error("Job worker poll failed", { err: error });
+			}
+			await sleep(pollInterval);
+		}
+	} finally {
+		unsubscribe();
+		await Promise.all(running);
+	}
+}
@@ -0,0 +1,57 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+// =============================================================================
+// LOG CONTEXT - Fields added to every log line inside a request or job
+// =============================================================================
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+export type LogContext = Record<string, unknown>;
+
+// Shared across module copies so the proxy, route handlers and Prisma
+// events all see the same store
+const globalForContext = global as unknown as {
+	logContext: AsyncLocalStorage<LogContext> | undefined;
+};
+
+globalForContext.logContext ??= new AsyncLocalStorage<LogContext>();
+
+const storage = globalForContext.logContext;
+
+/**
+ * Fields for the code currently running, e.g. `{ requestId }`.
+ */
+export function getLogContext(): LogContext {
+	return storage.getStore() ?? {};
+}
+
+/**
+ * Run `fn` with `fields` added to every log line it writes, on top of the
+ * surrounding context.
+ *
+ * @example
+ * await withLogContext({ jobId: job.id }, () => runJob(job));
+ */
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+	return storage.run({ ...getLogContext(), ...fields }, fn);
+}
+
+/**
+ * The incoming request's ID, or a new one. IDs from clients are only
+ * trusted when short and free of odd characters.
+ */
+export function requestIdFrom(headers: Headers) {
+	const incoming = headers.get(REQUEST_ID_HEADER);
+	return incoming && /^[\w.:-]{1,128}$/.test(incoming)
+		? incoming
+		: randomUUID();
+}
+
+/**
+ * Run `fn` with the request's ID in the log context.
+ * Used for: route handlers, server actions
+ */
+export function withRequestContext<T>(headers: Headers, fn: () => T): T {
+	return withLogContext({ requestId: requestIdFrom(headers) }, fn);
+}
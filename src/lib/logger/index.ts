@@ -0,0 +1,103 @@
+import { trace } from "@opentelemetry/api";
+import { env } from "../env";
+import { getLogContext } from "./context";
+import { redact } from "./redact";
+
+export {
+	getLogContext,
+	REQUEST_ID_HEADER,
+	requestIdFrom,
+	withLogContext,
+	withRequestContext,
+} from "./context";
+export { REDACTED, redact } from "./redact";
+
+// =============================================================================
+// LOGGER - JSON lines on stdout for Log Analytics
+// =============================================================================
+// Each entry is one JSON object: time, level, msg, then the request or job
+// context, the OpenTelemetry trace ID and the fields passed in. Outside
+// production lines are printed readably instead (LOG_FORMAT overrides).
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+	debug(msg: string, fields?: LogFields): void;
+	info(msg: string, fields?: LogFields): void;
+	warn(msg: string, fields?: LogFields): void;
+	error(msg: string, fields?: LogFields): void;
+	/** Logger that adds `bindings` to every entry */
+	child(bindings: LogFields): Logger;
+}
+
+/** LOG_LEVEL, default "info"; "debug" also logs every database query */
+const minLevel = LOG_LEVELS.indexOf(env.LOG_LEVEL);
+
+const pretty = env.LOG_FORMAT === "pretty";
+
+function traceFields() {
+	const span = trace.getActiveSpan()?.spanContext();
+	return span && span.traceId !== "00000000000000000000000000000000"
+		? { traceId: span.traceId, spanId: span.spanId }
+		: {};
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields) {
+	const entry = redact({
+		time: new Date().toISOString(),
+		level,
+		msg,
+		...getLogContext(),
+		...traceFields(),
+		...fields,
+	}) as LogFields;
+
+	if (!pretty) {
+		process.stdout.write(`${JSON.stringify(entry)}\n`);
+		return;
+	}
+
+	const { time, level: _level, msg: _msg, ...rest } = entry;
+	// Print error stacks as they are rather than as an escaped string
+	let stack = "";
+	const err = rest.err as LogFields | undefined;
+	if (typeof err?.stack === "string") {
+		stack = `\n${err.stack}`;
+		const { stack: _stack, ...errFields } = err;
+		rest.err = errFields;
+	}
+	const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : "";
+	process.stdout.write(
+		`${time} ${level.toUpperCase().padEnd(5)} ${msg}${extra}${stack}\n`,
+	);
+}
+
+function createLogger(bindings: LogFields = {}): Logger {
+	const log = (level: LogLevel) => (msg: string, fields?: LogFields) => {
+		if (LOG_LEVELS.indexOf(level) < minLevel) return;
+		write(level, msg, { ...bindings, ...fields });
+	};
+
+	return {
+		debug: log("debug"),
+		info: log("info"),
+		warn: log("warn"),
+		error: log("error"),
+		child: (more) => createLogger({ ...bindings, ...more }),
+	};
+}
+
+/**
+ * Application logger. Pass errors as `err` so they keep their stack.
+ *
+ * @example
+ * logger.info("Invitation sent", { organizationId, email });
+ * logger.error("Payment webhook failed", { err: error });
+ *
+ * const log = logger.child({ module: "billing" });
+ */
+export const logger = createLogger();
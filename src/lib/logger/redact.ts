@@ -0,0 +1,93 @@
+// =============================================================================
+// REDACTION - Secrets never reach the logs
+// =============================================================================
+
+export const REDACTED = "[redacted]";
+
+/**
+ * Keys whose values are replaced, compared case-insensitively and ignoring
+ * "-" and "_", so "accessToken", "access_token" and "Access-Token" all match.
+ */
+const SECRET_KEYS = new Set(
+	[
+		"password",
+		"newPassword",
+		"currentPassword",
+		"token",
+		"accessToken",
+		"refreshToken",
+		"idToken",
+		"secret",
+		"clientSecret",
+		"apiKey",
+		"authorization",
+		"cookie",
+		"setCookie",
+		"backupCodes",
+		"totpURI",
+		"connectionString",
+		"databaseUrl",
+	].map(normalizeKey),
+);
+
+/** Nested values below this depth are summarized */
+const MAX_DEPTH = 8;
+
+function normalizeKey(key: string) {
+	return key.replaceAll(/[-_]/g, "").toLowerCase();
+}
+
+export function isSecretKey(key: string) {
+	return SECRET_KEYS.has(normalizeKey(key));
+}
+
+/**
+ * Plain-data copy of `value` with secret keys masked. Errors become
+ * `{ name, message, stack }`, Headers and Maps become objects, and
+ * circular references are cut.
+ */
+export function redact(
+	value: unknown,
+	depth = 0,
+	seen = new WeakSet(),
+): unknown {
+	if (value === null || typeof value !== "object") {
+		return typeof value === "bigint" ? value.toString() : value;
+	}
+	if (value instanceof Date) return value.toISOString();
+	if (seen.has(value)) return "[circular]";
+	if (depth >= MAX_DEPTH) return Array.isArray(value) ? "[array]" : "[object]";
+	seen.add(value);
+
+	if (Array.isArray(value)) {
+		const copy = value.map((item) => redact(item, depth + 1, seen));
+		seen.delete(value);
+		return copy;
+	}
+
+	let entries: [string, unknown][];
+	if (value instanceof Error) {
+		entries = [
+			["name", value.name],
+			["message", value.message],
+			["stack", value.stack],
+			...Object.entries(value),
+		];
+		if (value.cause !== undefined) entries.push(["cause", value.cause]);
+	} else if (value instanceof Headers || value instanceof Map) {
+		entries = [...value.entries()];
+	} else {
+		entries = Object.entries(value);
+	}
+
+	const copy: Record<string, unknown> = {};
+	for (const [key, item] of entries) {
+		copy[key] =
+			isSecretKey(key) && item != null
+				? REDACTED
+				: redact(item, depth + 1, seen);
+	}
+	// Only ancestors count as circular; the same object may appear twice
+	seen.delete(value);
+	return copy;
+}
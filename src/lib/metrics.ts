@@ -0,0 +1,65 @@
+import { Counter, collectDefaultMetrics, Gauge, Registry } from "prom-client";
+import { countJobsByStatus } from "./jobs";
+import { logger } from "./logger";
+import { JOB_STATUSES } from "./validations";
+
+// =============================================================================
+// METRICS - Prometheus counters served at /api/metrics
+// =============================================================================
+// Counters are per process: each replica reports its own and Prometheus
+// sums them. Jobs run by a separate worker aren't counted here, but the
+// queue gauges read the database so they cover every worker.
+
+function createMetrics() {
+	const registry = new Registry();
+	collectDefaultMetrics({ register: registry });
+
+	return {
+		registry,
+		authEvents: new Counter({
+			name: "auth_events_total",
+			help: "Authentication events recorded in the security log",
+			labelNames: ["type", "method"] as const,
+			registers: [registry],
+		}),
+		signInFailures: new Counter({
+			name: "auth_sign_in_failures_total",
+			help: "Failed sign-in attempts",
+			labelNames: ["method", "reason"] as const,
+			registers: [registry],
+		}),
+		rateLimited: new Counter({
+			name: "auth_rate_limited_total",
+			help: "Auth requests refused by rate limits or account lockout",
+			labelNames: ["limit"] as const,
+			registers: [registry],
+		}),
+		jobs: new Gauge({
+			name: "jobs",
+			help: "Background jobs by status",
+			labelNames: ["status"] as const,
+			registers: [registry],
+			async collect() {
+				try {
+					const counts = await countJobsByStatus();
+					for (const status of JOB_STATUSES) {
+						this.set({ status }, counts[status] ?? 0);
+					}
+				} catch (error) {
+					// Still serve the other metrics while the database is down
+					logger.error("Failed to count jobs for metrics", { err: error });
+				}
+			},
+		}),
+	};
+}
+
+// One registry per process, even when modules are loaded twice (dev
+// reloads, instrumentation)
+const globalForMetrics = global as unknown as {
+	metrics: ReturnType<typeof createMetrics> | undefined;
+};
+
+globalForMetrics.metrics ??= createMetrics();
+
+export const metrics = globalForMetrics.metrics;
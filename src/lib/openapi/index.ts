@@ -0,0 +1,256 @@
+import { z } from "zod/v4";
+import {
+	apiErrorSchema,
+	userCursorListSchema,
+	userListSchema,
+	userSchema,
+} from "@/lib/validations";
+import { type AnyOperation, AUTH_PATH_PREFIX, OPERATIONS } from "./operations";
+
+export {
+	type AnyOperation,
+	AUTH_PATH_PREFIX,
+	defineOperation,
+	type HttpMethod,
+	OPERATIONS,
+	type Operation,
+	type OperationAuth,
+} from "./operations";
+
+// =============================================================================
+// OPENAPI - OpenAPI 3.1 document generated from the operation contracts
+// =============================================================================
+
+type JsonSchema = Record<string, unknown>;
+
+/** Schemas emitted once under components.schemas and referenced by name */
+const components = z.registry<{ id: string }>();
+components.add(userSchema, { id: "User" });
+components.add(userListSchema, { id: "UserList" });
+components.add(userCursorListSchema, { id: "UserCursorList" });
+components.add(apiErrorSchema, { id: "ApiError" });
+
+/** Error body returned by better-auth endpoints */
+const authErrorSchema = z.object({
+	code: z.string().optional(),
+	message: z.string(),
+	/** Seconds until a rate-limited request may be retried */
+	retryAfter: z.number().optional(),
+});
+components.add(authErrorSchema, { id: "AuthError" });
+
+const REF_PREFIX = "#/components/schemas/";
+
+/** Point `$defs` references at components.schemas */
+function rewriteRefs(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(rewriteRefs);
+	if (value === null || typeof value !== "object") return value;
+
+	return Object.fromEntries(
+		Object.entries(value).map(([key, child]) =>
+			key === "$ref" && typeof child === "string"
+				? [key, child.replace("#/$defs/", REF_PREFIX)]
+				: [key, rewriteRefs(child)],
+		),
+	);
+}
+
+/**
+ * JSON Schema for `schema`. Registered schemas it contains are added to
+ * `schemas` and replaced with a `$ref`.
+ */
+function toJsonSchema(
+	schema: z.ZodType,
+	io: "input" | "output",
+	schemas: Record<string, JsonSchema>,
+): JsonSchema {
+	const json = z.toJSONSchema(schema, {
+		metadata: components,
+		target: "draft-2020-12",
+		io,
+		unrepresentable: "any",
+		override: ({ zodSchema, jsonSchema }) => {
+			// Dates are serialized as ISO strings by Response.json()
+			if (zodSchema._zod.def.type === "date") {
+				jsonSchema.type = "string";
+				jsonSchema.format = "date-time";
+			}
+		},
+	}) as JsonSchema;
+	const defs = (json.$defs ?? {}) as Record<string, JsonSchema>;
+	// `id` is the registry metadata, copied onto the schema by toJSONSchema
+	delete json.$schema;
+	delete json.$defs;
+	delete json.id;
+
+	for (const [name, def] of Object.entries(defs)) {
+		delete def.id;
+		schemas[name] = rewriteRefs(def) as JsonSchema;
+	}
+
+	const registered = components.get(schema)?.id;
+	if (registered) {
+		schemas[registered] = rewriteRefs(json) as JsonSchema;
+		return { $ref: `${REF_PREFIX}${registered}` };
+	}
+	return rewriteRefs(json) as JsonSchema;
+}
+
+function parameters(
+	schema: z.ZodType | undefined,
+	location: "query" | "path",
+	schemas: Record<string, JsonSchema>,
+) {
+	if (!schema) return [];
+
+	const { properties = {}, required = [] } = toJsonSchema(
+		schema,
+		"input",
+		schemas,
+	) as { properties?: Record<string, JsonSchema>; required?: string[] };
+	return Object.entries(properties).map(([name, property]) => ({
+		name,
+		in: location,
+		required: location === "path" || required.includes(name),
+		schema: property,
+	}));
+}
+
+function errorResponse(description: string, schemaName: string) {
+	return {
+		description,
+		content: {
+			"application/json": { schema: { $ref: `${REF_PREFIX}${schemaName}` } },
+		},
+	};
+}
+
+function responses(
+	operation: AnyOperation,
+	schemas: Record<string, JsonSchema>,
+) {
+	const result: Record<string, unknown> = {
+		200: {
+			description: "Success",
+			content: {
+				"application/json": {
+					schema: toJsonSchema(operation.response, "output", schemas),
+				},
+			},
+		},
+	};
+
+	if (operation.path.startsWith(AUTH_PATH_PREFIX)) {
+		result[400] = errorResponse("Invalid request", "AuthError");
+		result[401] = errorResponse("Invalid credentials", "AuthError");
+		result[429] = errorResponse("Too many attempts", "AuthError");
+		return result;
+	}
+
+	if (operation.query || operation.params || operation.body) {
+		result[400] = errorResponse("Validation error", "ApiError");
+	}
+	if (operation.auth !== "public") {
+		result[401] = errorResponse("Not signed in", "ApiError");
+	}
+	if (operation.auth === "admin" || operation.scope) {
+		result[403] = errorResponse("Not allowed", "ApiError");
+	}
+	if (operation.params) {
+		result[404] = errorResponse("Not found", "ApiError");
+	}
+	if (operation.scope) {
+		result[429] = errorResponse("Too many API key requests", "ApiError");
+	}
+	return result;
+}
+
+function security(operation: AnyOperation) {
+	if (operation.auth === "public") return [];
+	// better-auth's own endpoints only accept the session cookie
+	if (operation.path.startsWith(AUTH_PATH_PREFIX)) {
+		return [{ sessionCookie: [] }];
+	}
+	// API keys are refused unless the operation names the scope they need
+	if (!operation.scope) return [{ sessionCookie: [] }];
+	return [{ sessionCookie: [] }, { apiKey: [operation.scope] }];
+}
+
+function buildDocument() {
+	const schemas: Record<string, JsonSchema> = {};
+	const paths: Record<string, Record<string, unknown>> = {};
+	// Referenced by errorResponse()
+	toJsonSchema(apiErrorSchema, "output", schemas);
+	toJsonSchema(authErrorSchema, "output", schemas);
+
+	for (const operation of OPERATIONS) {
+		const params = [
+			...parameters(operation.params, "path", schemas),
+			...parameters(operation.query, "query", schemas),
+		];
+		paths[operation.path] ??= {};
+		paths[operation.path][operation.method.toLowerCase()] = {
+			summary: operation.summary,
+			description:
+				[
+					operation.description,
+					operation.scope && `API keys need the \`${operation.scope}\` scope.`,
+				]
+					.filter(Boolean)
+					.join(" ") || undefined,
+			tags: [operation.tag],
+			security: security(operation),
+			parameters: params.length > 0 ? params : undefined,
+			requestBody: operation.body && {
+				required: true,
+				content: {
+					"application/json": {
+						schema: toJsonSchema(operation.body, "input", schemas),
+					},
+				},
+			},
+			responses: responses(operation, schemas),
+		};
+	}
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: "App API",
+			version: "1.0.0",
+			description:
+				"Endpoints under /api/auth are provided by better-auth; only the main flows are listed.",
+		},
+		tags: [{ name: "Users" }, { name: "Auth" }],
+		paths,
+		components: {
+			schemas,
+			securitySchemes: {
+				sessionCookie: {
+					type: "apiKey",
+					in: "cookie",
+					name: "better-auth.session_token",
+				},
+				apiKey: {
+					type: "http",
+					scheme: "bearer",
+					description:
+						"Personal API key from Account > API Keys, sent as `Authorization: Bearer <key>`",
+				},
+			},
+		},
+	};
+}
+
+export type OpenApiDocument = ReturnType<typeof buildDocument>;
+
+let document: OpenApiDocument | undefined;
+
+/**
+ * The OpenAPI 3.1 document for every operation in OPERATIONS.
+ * Used for: /api/openapi.json, the API docs page, scripts/check-openapi.ts
+ */
+export function getOpenApiDocument() {
+	document ??= buildDocument();
+	return document;
+}
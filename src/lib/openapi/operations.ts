@@ -0,0 +1,204 @@
+import { z } from "zod/v4";
+import {
+	type ApiKeyScope,
+	forgotPasswordSchema,
+	idParamSchema,
+	passwordSchema,
+	sessionUserSchema,
+	signInSchema,
+	signUpSchema,
+	twoFactorCodeSchema,
+	userCursorListSchema,
+	userListQuerySchema,
+	userListSchema,
+	userSchema,
+} from "@/lib/validations";
+
+// =============================================================================
+// API OPERATIONS - Contracts shared by route handlers and the OpenAPI spec
+// =============================================================================
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** Who may call an operation; enforced by `apiRoute` */
+export type OperationAuth = "public" | "user" | "admin";
+
+export interface Operation<
+	TQuery extends z.ZodType = z.ZodUndefined,
+	TParams extends z.ZodType = z.ZodUndefined,
+	TBody extends z.ZodType = z.ZodUndefined,
+	TResponse extends z.ZodType = z.ZodType,
+	TAuth extends OperationAuth = OperationAuth,
+> {
+	method: HttpMethod;
+	/** OpenAPI path, with `{param}` placeholders */
+	path: string;
+	summary: string;
+	description?: string;
+	tag: string;
+	auth: TAuth;
+	/** Scope an API key needs to call this operation */
+	scope?: ApiKeyScope;
+	query?: TQuery;
+	params?: TParams;
+	body?: TBody;
+	/** JSON body of the 200 response */
+	response: TResponse;
+}
+
+export type AnyOperation = Operation<
+	z.ZodType,
+	z.ZodType,
+	z.ZodType,
+	z.ZodType,
+	OperationAuth
+>;
+
+export function defineOperation<
+	TQuery extends z.ZodType = z.ZodUndefined,
+	TParams extends z.ZodType = z.ZodUndefined,
+	TBody extends z.ZodType = z.ZodUndefined,
+	TResponse extends z.ZodType = z.ZodType,
+	TAuth extends OperationAuth = OperationAuth,
+>(operation: Operation<TQuery, TParams, TBody, TResponse, TAuth>) {
+	return operation;
+}
+
+// -----------------------------------------------------------------------------
+// Users
+// -----------------------------------------------------------------------------
+
+export const listUsers = defineOperation({
+	method: "GET",
+	path: "/api/users",
+	summary: "List users",
+	description:
+		"Page/limit pagination with totals by default. Pass `cursor` (empty for the first page) to page by cursor and follow `meta.nextCursor`.",
+	tag: "Users",
+	auth: "admin",
+	scope: "users:read",
+	query: userListQuerySchema,
+	response: z.union([userListSchema, userCursorListSchema]),
+});
+
+export const getUser = defineOperation({
+	method: "GET",
+	path: "/api/users/{id}",
+	summary: "Get a user",
+	description: "Admins can read any user; other users only themselves.",
+	tag: "Users",
+	auth: "user",
+	scope: "users:read",
+	params: idParamSchema,
+	response: userSchema,
+});
+
+// -----------------------------------------------------------------------------
+// Auth - served by better-auth's catch-all route, so these only document it.
+// Responses are loose because better-auth returns more fields than listed.
+// -----------------------------------------------------------------------------
+
+const sessionResponseSchema = z.looseObject({
+	token: z.string().nullable(),
+	user: sessionUserSchema.loose(),
+});
+
+export const signUpEmail = defineOperation({
+	method: "POST",
+	path: "/api/auth/sign-up/email",
+	summary: "Sign up with email and password",
+	tag: "Auth",
+	auth: "public",
+	body: signUpSchema,
+	response: sessionResponseSchema,
+});
+
+export const signInEmail = defineOperation({
+	method: "POST",
+	path: "/api/auth/sign-in/email",
+	summary: "Sign in with email and password",
+	description:
+		"Sets the session cookie. Accounts with two-factor authentication get `twoFactorRedirect: true` instead and must call verify-totp.",
+	tag: "Auth",
+	auth: "public",
+	body: signInSchema.extend({ rememberMe: z.boolean().optional() }),
+	response: z.union([
+		sessionResponseSchema.extend({ redirect: z.boolean() }),
+		z.looseObject({ twoFactorRedirect: z.literal(true) }),
+	]),
+});
+
+export const verifyTotp = defineOperation({
+	method: "POST",
+	path: "/api/auth/two-factor/verify-totp",
+	summary: "Complete sign-in with an authenticator code",
+	tag: "Auth",
+	auth: "public",
+	body: twoFactorCodeSchema,
+	response: sessionResponseSchema,
+});
+
+export const signOut = defineOperation({
+	method: "POST",
+	path: "/api/auth/sign-out",
+	summary: "Sign out",
+	tag: "Auth",
+	auth: "user",
+	response: z.object({ success: z.boolean() }),
+});
+
+export const getSession = defineOperation({
+	method: "GET",
+	path: "/api/auth/get-session",
+	summary: "Current session",
+	description: "Returns null when signed out.",
+	tag: "Auth",
+	auth: "public",
+	response: z
+		.looseObject({
+			session: z.looseObject({
+				id: z.string(),
+				expiresAt: z.date(),
+				activeOrganizationId: z.string().nullable().optional(),
+			}),
+			user: sessionUserSchema.loose(),
+		})
+		.nullable(),
+});
+
+export const requestPasswordReset = defineOperation({
+	method: "POST",
+	path: "/api/auth/request-password-reset",
+	summary: "Email a password reset link",
+	description: "Succeeds whether or not the email has an account.",
+	tag: "Auth",
+	auth: "public",
+	body: forgotPasswordSchema.extend({ redirectTo: z.string().optional() }),
+	response: z.object({ status: z.boolean(), message: z.string() }),
+});
+
+export const resetPassword = defineOperation({
+	method: "POST",
+	path: "/api/auth/reset-password",
+	summary: "Set a new password from a reset link",
+	tag: "Auth",
+	auth: "public",
+	body: z.object({ newPassword: passwordSchema, token: z.string() }),
+	response: z.object({ status: z.boolean() }),
+});
+
+/** Every documented operation, in the order they appear in the spec */
+export const OPERATIONS = [
+	listUsers,
+	getUser,
+	signUpEmail,
+	signInEmail,
+	verifyTotp,
+	signOut,
+	getSession,
+	requestPasswordReset,
+	resetPassword,
+] as AnyOperation[];
+
+/** Operations under this prefix are handled by better-auth */
+export const AUTH_PATH_PREFIX = "/api/auth/";
@@ -0,0 +1,25 @@
+import { createAccessControl } from "better-auth/plugins/access";
+import {
+	adminAc,
+	defaultStatements,
+	userAc,
+} from "better-auth/plugins/admin/access";
+import type { Role } from "./validations";
+
+// =============================================================================
+// PERMISSIONS - Resources and actions each role may perform
+// =============================================================================
+// Shared by the server and client admin plugins. Add app resources to
+// `statements` and grant them per role; check with
+// auth.api.userHasPermission or authClient.admin.checkRolePermission.
+
+const statements = {
+	...defaultStatements,
+} as const;
+
+export const ac = createAccessControl(statements);
+
+export const roles = {
+	user: ac.newRole({ ...userAc.statements }),
+	admin: ac.newRole({ ...adminAc.statements }),
+} satisfies Record<Role, unknown>;
@@ -1,20 +1,43 @@
 import { PrismaPg } from "@prisma/adapter-pg";
 import { PrismaClient } from "@/generated/prisma/client";
+import { env } from "./env";
+import { logger } from "./logger";
 
-if (!process.env.DATABASE_URL) {
-	throw new Error("DATABASE_URL environment variable is not set");
-}
+const log = logger.child({ module: "prisma" });
+
+function createPrismaClient() {
+	const adapter = new PrismaPg({
+		connectionString: env.DATABASE_URL,
+	});
+	const client = new PrismaClient({
+		adapter,
+		log: [
+			{ emit: "event", level: "query" },
+			{ emit: "event", level: "warn" },
+			{ emit: "event", level: "error" },
+		],
+	});
 
-const adapter = new PrismaPg({
-	connectionString: process.env.DATABASE_URL,
-});
+	// Params are left out: they carry password hashes, tokens and user data
+	client.$on("query", ({ query, duration }) => {
+		if (duration >= env.PRISMA_SLOW_QUERY_MS) {
+			log.warn("Slow query", { query, duration });
+		} else {
+			log.debug("Query", { query, duration });
+		}
+	});
+	client.$on("warn", ({ message }) => log.warn(message));
+	client.$on("error", ({ message }) => log.error(message));
+
+	return client;
+}
 
 const globalForPrisma = global as unknown as {
-	prisma: PrismaClient;
+	prisma: ReturnType<typeof createPrismaClient>;
 };
 
-const prisma = globalForPrisma.prisma || new PrismaClient({ adapter });
+const prisma = globalForPrisma.prisma || createPrismaClient();
 
-if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
+if (env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
 
 export { prisma };
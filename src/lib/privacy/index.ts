@@ -0,0 +1,377 @@
+import { strToU8, zipSync } from "fflate";
+import { queueTemplate, sendTemplate } from "../email";
+import { env } from "../env";
+import { enqueueJob, type JobContext } from "../jobs";
+import { logger } from "../logger";
+import { prisma } from "../prisma";
+import { getKeyFromUrl, getStorage } from "../storage";
+import type { DataExportFormat } from "../validations";
+import { emitWebhookEvent } from "../webhooks";
+import { collectUserData, type UserData } from "./sections";
+
+export type { ExportSection, UserData } from "./sections";
+export { collectUserData, EXPORT_SECTIONS } from "./sections";
+
+// =============================================================================
+// PRIVACY - Data exports and account deletion (Account > Privacy)
+// =============================================================================
+// Exports: requestDataExport() stores a pending DataExport and queues a
+// "build-data-export" job, which writes the archive to storage under
+// exports/ (never served by /api/uploads) and emails a download link.
+// Archives are deleted after DATA_EXPORT_TTL_MS.
+//
+// Deletion: scheduleAccountDeletion() stores an AccountDeletion and queues a
+// "delete-account" job for ACCOUNT_DELETION_GRACE_DAYS later. Until then the
+// user can cancel; afterwards the job deletes or anonymizes the account
+// depending on ACCOUNT_DELETION_MODE.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long a finished archive can be downloaded */
+export const DATA_EXPORT_TTL_MS = 7 * DAY_MS;
+
+/** Exports shown on the privacy page */
+const LISTED_EXPORTS = 10;
+
+/** Stored errors are cut to this length */
+const MAX_ERROR_LENGTH = 500;
+
+const ARCHIVE_TYPES: Record<DataExportFormat, string> = {
+	json: "application/json",
+	zip: "application/zip",
+};
+
+// =============================================================================
+// DATA EXPORTS
+// =============================================================================
+
+/**
+ * Queue an export of everything stored about the user. Returns null
+ * while an earlier export is still being built.
+ */
+export async function requestDataExport(
+	userId: string,
+	format: DataExportFormat,
+) {
+	const pending = await prisma.dataExport.count({
+		where: { userId, status: "pending" },
+	});
+	if (pending > 0) return null;
+
+	const created = await prisma.dataExport.create({
+		data: { userId, format },
+	});
+	await enqueueJob("build-data-export", { exportId: created.id });
+	return created;
+}
+
+/**
+ * A user's most recent exports, newest first.
+ */
+export async function listDataExports(userId: string) {
+	return prisma.dataExport.findMany({
+		where: { userId },
+		orderBy: { createdAt: "desc" },
+		take: LISTED_EXPORTS,
+	});
+}
+
+/**
+ * The user's export with this ID if its archive can still be downloaded.
+ */
+export async function getDownloadableExport(userId: string, exportId: string) {
+	return prisma.dataExport.findFirst({
+		where: {
+			id: exportId,
+			userId,
+			status: "ready",
+			expiresAt: { gt: new Date() },
+		},
+	});
+}
+
+/**
+ * Where an export's archive is downloaded from; the route checks that the
+ * signed-in user owns it.
+ */
+export function getDataExportUrl(exportId: string) {
+	return `/api/account/data-exports/${exportId}`;
+}
+
+/**
+ * Archive `data` as one JSON document, or as a ZIP with one JSON file
+ * per section.
+ */
+export function buildArchive(
+	format: DataExportFormat,
+	data: UserData,
+	exportedAt = new Date(),
+) {
+	const json = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+	if (format === "json") {
+		return json({ exportedAt, ...data });
+	}
+	const files: Record<string, Uint8Array> = {
+		"export.json": json({ exportedAt, sections: Object.keys(data) }),
+	};
+	for (const [section, value] of Object.entries(data)) {
+		files[`${section}.json`] = json(value);
+	}
+	return zipSync(files);
+}
+
+/**
+ * Collect the user's data, store the archive and email a download link.
+ * Marks the export failed on the last attempt.
+ * Used for: the "build-data-export" job
+ */
+export async function buildDataExport(
+	exportId: string,
+	{ retryAt }: Pick<JobContext, "retryAt">,
+) {
+	const dataExport = await prisma.dataExport.findUnique({
+		where: { id: exportId },
+		include: { user: { select: { id: true, name: true, email: true } } },
+	});
+	// Deleted along with its user, or already built
+	if (!dataExport || dataExport.status !== "pending") return;
+
+	const { user } = dataExport;
+	const format = dataExport.format as DataExportFormat;
+	const key = `exports/${user.id}/${dataExport.id}.${format}`;
+	try {
+		const body = buildArchive(format, await collectUserData(user));
+		await getStorage().put(key, body, ARCHIVE_TYPES[format]);
+
+		const now = new Date();
+		const expiresAt = new Date(now.getTime() + DATA_EXPORT_TTL_MS);
+		await prisma.dataExport.update({
+			where: { id: dataExport.id },
+			data: {
+				status: "ready",
+				storageKey: key,
+				size: body.byteLength,
+				lastError: null,
+				completedAt: now,
+				expiresAt,
+			},
+		});
+		await queueTemplate("dataExportReady", user.email, {
+			name: user.name,
+			url: `${env.BETTER_AUTH_URL}${getDataExportUrl(dataExport.id)}`,
+			expiresAt,
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		await prisma.dataExport.update({
+			where: { id: dataExport.id },
+			data: {
+				lastError: message.slice(0, MAX_ERROR_LENGTH),
+				...(retryAt ? {} : { status: "failed" }),
+			},
+		});
+		throw error;
+	}
+}
+
+/**
+ * Delete archives past their expiry and mark their exports expired.
+ * Used for: the "expire-data-exports" cron job
+ */
+export async function expireDataExports(now = new Date()) {
+	const expired = await prisma.dataExport.findMany({
+		where: { status: "ready", expiresAt: { lte: now } },
+		select: { id: true, storageKey: true },
+	});
+	for (const { id, storageKey } of expired) {
+		if (storageKey) await getStorage().delete(storageKey);
+		await prisma.dataExport.update({
+			where: { id },
+			data: { status: "expired", storageKey: null },
+		});
+	}
+	logger.info("Expired data exports", { count: expired.length });
+}
+
+// =============================================================================
+// ACCOUNT DELETION
+// =============================================================================
+
+/**
+ * Stands in for a deleted user's email in rows that outlive the account;
+ * the .invalid domain can never receive mail.
+ */
+export function deletedUserEmail(userId: string) {
+	return `deleted-${userId}@deleted.invalid`;
+}
+
+const DELETED_USER_NAME = "Deleted user";
+
+/**
+ * Whether the user has a password to confirm a deletion with.
+ */
+export async function hasPassword(userId: string) {
+	const count = await prisma.account.count({
+		where: { userId, providerId: "credential", password: { not: null } },
+	});
+	return count > 0;
+}
+
+/**
+ * The user's pending deletion request, or null.
+ */
+export async function getAccountDeletion(userId: string) {
+	return prisma.accountDeletion.findUnique({ where: { userId } });
+}
+
+/**
+ * Schedule the account for deletion after the grace period and email a
+ * confirmation. Requesting again keeps the original date.
+ */
+export async function scheduleAccountDeletion(user: {
+	id: string;
+	name: string;
+	email: string;
+}) {
+	const existing = await getAccountDeletion(user.id);
+	if (existing) return existing;
+
+	const scheduledAt = new Date(
+		Date.now() + env.ACCOUNT_DELETION_GRACE_DAYS * DAY_MS,
+	);
+	const deletion = await prisma.accountDeletion.create({
+		data: { userId: user.id, scheduledAt },
+	});
+
+	await enqueueJob(
+		"delete-account",
+		{ userId: user.id },
+		{
+			runAt: scheduledAt,
+			key: `delete-account:${user.id}:${scheduledAt.toISOString()}`,
+		},
+	);
+	await queueTemplate("deletionScheduled", user.email, {
+		name: user.name,
+		scheduledAt,
+		url: `${env.BETTER_AUTH_URL}/account/privacy`,
+	});
+	return deletion;
+}
+
+/**
+ * Cancel a pending deletion. The queued job finds no request and does
+ * nothing. Returns false when there was nothing to cancel.
+ */
+export async function cancelAccountDeletion(userId: string) {
+	const { count } = await prisma.accountDeletion.deleteMany({
+		where: { userId },
+	});
+	return count > 0;
+}
+
+/**
+ * Remove stored files, then delete the user (related rows go with it via
+ * onDelete: Cascade) or, with ACCOUNT_DELETION_MODE="anonymize", keep the
+ * row under a placeholder name and email and delete everything that
+ * identifies them. Rows that mention the user without a foreign key
+ * (invitations to their email, failed sign-ins, the admin audit log,
+ * webhook deliveries about them and emails queued to them) are cleaned up
+ * in both modes. The goodbye email is sent directly rather than queued, so
+ * no job keeps their address afterwards.
+ * Used for: the "delete-account" job
+ */
+export async function deleteScheduledAccount(userId: string) {
+	const deletion = await prisma.accountDeletion.findUnique({
+		where: { userId },
+		include: { user: true },
+	});
+	// Canceled (and maybe requested again for a later date)
+	if (!deletion || deletion.scheduledAt > new Date()) return;
+
+	const { user } = deletion;
+	const exports = await prisma.dataExport.findMany({
+		where: { userId, storageKey: { not: null } },
+		select: { storageKey: true },
+	});
+	const keys = [
+		getKeyFromUrl(user.image),
+		...exports.map((dataExport) => dataExport.storageKey),
+	];
+	for (const key of keys) {
+		if (key) await getStorage().delete(key);
+	}
+
+	const placeholder = deletedUserEmail(userId);
+	const removal =
+		env.ACCOUNT_DELETION_MODE === "delete"
+			? [prisma.user.delete({ where: { id: userId } })]
+			: [
+					prisma.session.deleteMany({ where: { userId } }),
+					prisma.account.deleteMany({ where: { userId } }),
+					prisma.twoFactor.deleteMany({ where: { userId } }),
+					prisma.passkey.deleteMany({ where: { userId } }),
+					prisma.apiKey.deleteMany({ where: { userId } }),
+					prisma.member.deleteMany({ where: { userId } }),
+					prisma.dataExport.deleteMany({ where: { userId } }),
+					prisma.authEvent.updateMany({
+						where: { userId },
+						data: { email: null, ipAddress: null, userAgent: null },
+					}),
+					prisma.accountDeletion.delete({ where: { userId } }),
+					prisma.user.update({
+						where: { id: userId },
+						data: {
+							name: DELETED_USER_NAME,
+							email: placeholder,
+							emailVerified: false,
+							image: null,
+							twoFactorEnabled: false,
+							banned: true,
+							banReason: "Account deleted",
+							banExpires: null,
+						},
+					}),
+				];
+	await prisma.$transaction([
+		prisma.invitation.deleteMany({ where: { email: user.email } }),
+		prisma.authEvent.deleteMany({
+			where: { userId: null, email: user.email },
+		}),
+		prisma.adminAuditLog.updateMany({
+			where: { actorId: userId },
+			data: { actorEmail: placeholder },
+		}),
+		prisma.adminAuditLog.updateMany({
+			where: { targetId: userId },
+			data: { targetEmail: placeholder },
+		}),
+		prisma.webhookDelivery.deleteMany({
+			where: { payload: { path: ["data", "user", "id"], equals: userId } },
+		}),
+		prisma.job.deleteMany({
+			where: {
+				name: "send-email",
+				status: { not: "running" },
+				payload: { path: ["to"], equals: user.email },
+			},
+		}),
+		...removal,
+	]);
+
+	await emitWebhookEvent("user.deleted", { user: { id: user.id } });
+	try {
+		await sendTemplate("accountDeleted", user.email, { name: user.name });
+	} catch (error) {
+		// The account is gone either way; retrying would mean storing the address
+		logger.error("Failed to send the account deletion email", {
+			userId,
+			err: error,
+		});
+	}
+	logger.info("Deleted account", {
+		userId,
+		mode: env.ACCOUNT_DELETION_MODE,
+	});
+}
@@ -0,0 +1,20 @@
+import { z } from "zod/v4";
+import { defineJob } from "../jobs/define";
+import { buildDataExport, deleteScheduledAccount, expireDataExports } from ".";
+
+export const PRIVACY_JOBS = {
+	"build-data-export": defineJob({
+		schema: z.object({ exportId: z.string() }),
+		handler: ({ exportId }, context) => buildDataExport(exportId, context),
+		maxAttempts: 3,
+	}),
+	"expire-data-exports": defineJob({
+		schema: z.object({}),
+		handler: () => expireDataExports(),
+	}),
+	/** Runs when the grace period ends; does nothing if it was canceled */
+	"delete-account": defineJob({
+		schema: z.object({ userId: z.string() }),
+		handler: ({ userId }) => deleteScheduledAccount(userId),
+	}),
+};
@@ -0,0 +1,178 @@
+import { prisma } from "../prisma";
+
+interface ExportUser {
+	id: string;
+	email: string;
+}
+
+/**
+ * Everything a data export contains, one entry per file in a ZIP export
+ * (or key in a JSON one). Add a section when a model gains data that
+ * belongs to a user. Fields are selected one by one so that passwords,
+ * tokens, key hashes and 2FA secrets never end up in an archive.
+ */
+export const EXPORT_SECTIONS = {
+	profile: ({ id }: ExportUser) =>
+		prisma.user.findUniqueOrThrow({
+			where: { id },
+			select: {
+				id: true,
+				name: true,
+				email: true,
+				emailVerified: true,
+				image: true,
+				role: true,
+				twoFactorEnabled: true,
+				banned: true,
+				banReason: true,
+				banExpires: true,
+				createdAt: true,
+				updatedAt: true,
+			},
+		}),
+	accounts: ({ id }: ExportUser) =>
+		prisma.account.findMany({
+			where: { userId: id },
+			orderBy: { createdAt: "asc" },
+			select: {
+				providerId: true,
+				accountId: true,
+				scope: true,
+				createdAt: true,
+				updatedAt: true,
+			},
+		}),
+	sessions: ({ id }: ExportUser) =>
+		prisma.session.findMany({
+			where: { userId: id },
+			orderBy: { createdAt: "asc" },
+			select: {
+				ipAddress: true,
+				userAgent: true,
+				impersonatedBy: true,
+				createdAt: true,
+				updatedAt: true,
+				expiresAt: true,
+			},
+		}),
+	securityLog: ({ id }: ExportUser) =>
+		prisma.authEvent.findMany({
+			where: { userId: id },
+			orderBy: { createdAt: "asc" },
+			select: {
+				type: true,
+				email: true,
+				method: true,
+				ipAddress: true,
+				userAgent: true,
+				metadata: true,
+				createdAt: true,
+			},
+		}),
+	passkeys: ({ id }: ExportUser) =>
+		prisma.passkey.findMany({
+			where: { userId: id },
+			orderBy: { createdAt: "asc" },
+			select: {
+				name: true,
+				deviceType: true,
+				backedUp: true,
+				transports: true,
+				aaguid: true,
+				createdAt: true,
+			},
+		}),
+	apiKeys: ({ id }: ExportUser) =>
+		prisma.apiKey.findMany({
+			where: { userId: id },
+			orderBy: { createdAt: "asc" },
+			select: {
+				name: true,
+				start: true,
+				enabled: true,
+				permissions: true,
+				requestCount: true,
+				lastRequest: true,
+				expiresAt: true,
+				createdAt: true,
+			},
+		}),
+	organizations: ({ id }: ExportUser) =>
+		prisma.member.findMany({
+			where: { userId: id },
+			orderBy: { createdAt: "asc" },
+			select: {
+				role: true,
+				createdAt: true,
+				organization: { select: { name: true, slug: true } },
+			},
+		}),
+	invitationsSent: ({ id }: ExportUser) =>
+		prisma.invitation.findMany({
+			where: { inviterId: id },
+			orderBy: { createdAt: "asc" },
+			select: {
+				email: true,
+				role: true,
+				status: true,
+				expiresAt: true,
+				createdAt: true,
+				organization: { select: { name: true } },
+			},
+		}),
+	invitationsReceived: ({ email }: ExportUser) =>
+		prisma.invitation.findMany({
+			where: { email },
+			orderBy: { createdAt: "asc" },
+			select: {
+				role: true,
+				status: true,
+				expiresAt: true,
+				createdAt: true,
+				organization: { select: { name: true } },
+			},
+		}),
+	dataExports: ({ id }: ExportUser) =>
+		prisma.dataExport.findMany({
+			where: { userId: id },
+			orderBy: { createdAt: "asc" },
+			select: {
+				format: true,
+				status: true,
+				createdAt: true,
+				completedAt: true,
+				expiresAt: true,
+			},
+		}),
+	// What admins did to the account; who did it stays out of the archive
+	adminActions: ({ id }: ExportUser) =>
+		prisma.adminAuditLog.findMany({
+			where: { targetId: id },
+			orderBy: { createdAt: "asc" },
+			select: { action: true, details: true, createdAt: true },
+		}),
+	accountDeletion: ({ id }: ExportUser) =>
+		prisma.accountDeletion.findUnique({
+			where: { userId: id },
+			select: { scheduledAt: true, createdAt: true },
+		}),
+} satisfies Record<string, (user: ExportUser) => Promise<unknown>>;
+
+export type ExportSection = keyof typeof EXPORT_SECTIONS;
+
+export type UserData = {
+	[TSection in ExportSection]: Awaited<
+		ReturnType<(typeof EXPORT_SECTIONS)[TSection]>
+	>;
+};
+
+/**
+ * Run every section for `user`.
+ */
+export async function collectUserData(user: ExportUser) {
+	const data: Record<string, unknown> = {};
+	for (const [name, collect] of Object.entries(EXPORT_SECTIONS)) {
+		data[name] = await collect(user);
+	}
+	return data as UserData;
+}
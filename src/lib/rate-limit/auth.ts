@@ -0,0 +1,194 @@
+import { getSessionCookie } from "better-auth/cookies";
+import { getClientIp } from "../client-ip";
+import { metrics } from "../metrics";
+import { prisma } from "../prisma";
+import { formatDuration } from "../utils";
+import {
+	consume,
+	getRateLimitStore,
+	secondsUntil,
+	tooManyRequests,
+} from "./index";
+import type { RateLimitRule } from "./types";
+
+// =============================================================================
+// AUTH RATE LIMITS - Throttling and lockout for /api/auth POST requests
+// =============================================================================
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/** Per-IP limits by path (relative to /api/auth); first match wins */
+const IP_RULES: [prefix: string, rule: RateLimitRule][] = [
+	["/sign-in", { max: 10, windowMs: MINUTE }],
+	["/sign-up", { max: 5, windowMs: MINUTE }],
+	["/two-factor", { max: 10, windowMs: MINUTE }],
+	["/request-password-reset", { max: 3, windowMs: MINUTE }],
+	["/send-verification-email", { max: 3, windowMs: MINUTE }],
+	["/", { max: 100, windowMs: MINUTE }],
+];
+
+/** Per-account limits, keyed by the email in the request body */
+const ACCOUNT_RULES: Record<string, RateLimitRule> = {
+	"/request-password-reset": { max: 3, windowMs: HOUR },
+	"/send-verification-email": { max: 3, windowMs: HOUR },
+};
+
+/** Second-factor checks that complete a sign-in */
+const TWO_FACTOR_PATHS = [
+	"/two-factor/verify-totp",
+	"/two-factor/verify-backup-code",
+	"/two-factor/verify-otp",
+];
+
+/** Per-account limit on second-factor codes, across TWO_FACTOR_PATHS */
+const TWO_FACTOR_RULE: RateLimitRule = { max: 10, windowMs: 15 * MINUTE };
+
+/**
+ * Failed email sign-ins and second-factor codes per account before lockout
+ * starts. Each failure
+ * past the threshold doubles the lock, from 30 seconds up to an hour.
+ */
+const LOCKOUT = {
+	threshold: 5,
+	baseSeconds: 30,
+	maxSeconds: 60 * 60,
+	/** Failures older than this are forgotten */
+	windowMs: 24 * HOUR,
+};
+
+function lockoutSeconds(failures: number) {
+	if (failures < LOCKOUT.threshold) return 0;
+	return Math.min(
+		LOCKOUT.baseSeconds * 2 ** (failures - LOCKOUT.threshold),
+		LOCKOUT.maxSeconds,
+	);
+}
+
+async function readEmail(request: Request) {
+	try {
+		const body = await request.clone().json();
+		return typeof body?.email === "string"
+			? body.email.trim().toLowerCase()
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Email of the user a second-factor request is for. After the password
+ * step better-auth sets a signed "two_factor" cookie holding a verification
+ * identifier, whose value is the user's ID. Signed-in users (turning 2FA
+ * on) have no such cookie and get null.
+ */
+async function readTwoFactorEmail(request: Request) {
+	const cookie = getSessionCookie(request, { cookieName: "two_factor" });
+	if (!cookie) return null;
+	// "<identifier>.<signature>"; better-auth checks the signature itself
+	const [identifier] = cookie.split(".");
+	const verification = await prisma.verification.findFirst({
+		where: { identifier, expiresAt: { gt: new Date() } },
+		select: { value: true },
+	});
+	if (!verification) return null;
+	const user = await prisma.user.findUnique({
+		where: { id: verification.value },
+		select: { email: true },
+	});
+	return user?.email.toLowerCase() ?? null;
+}
+
+/**
+ * Whether a successful sign-in response started a session, rather than
+ * asking for a second factor.
+ */
+async function isSignedIn(response: Response) {
+	try {
+		const body = await response.clone().json();
+		return !body?.twoFactorRedirect;
+	} catch {
+		return true;
+	}
+}
+
+function limited(
+	limit: "ip" | "account" | "lockout",
+	retryAfter: number,
+	reason = "Too many requests",
+) {
+	metrics.rateLimited.inc({ limit });
+	return tooManyRequests(
+		retryAfter,
+		`${reason}. Try again in ${formatDuration(retryAfter)}.`,
+	);
+}
+
+/**
+ * Wrap the better-auth POST handler with per-IP and per-account rate
+ * limits, and lock accounts out after repeated failed email sign-ins or
+ * second-factor codes.
+ */
+export async function withAuthRateLimit(
+	request: Request,
+	handler: (request: Request) => Promise<Response>,
+) {
+	const path = new URL(request.url).pathname.replace(/^\/api\/auth/, "");
+	const ip = getClientIp(request.headers) ?? "unknown";
+
+	const ipRule = IP_RULES.find(([prefix]) => path.startsWith(prefix));
+	if (ipRule) {
+		const [prefix, rule] = ipRule;
+		const result = await consume(`auth:ip:${ip}:${prefix}`, rule);
+		if (!result.allowed) return limited("ip", result.retryAfter);
+	}
+
+	const accountRule = ACCOUNT_RULES[path];
+	const isEmailSignIn = path === "/sign-in/email";
+	const isTwoFactor = TWO_FACTOR_PATHS.includes(path);
+	const email = isTwoFactor
+		? await readTwoFactorEmail(request)
+		: accountRule || isEmailSignIn
+			? await readEmail(request)
+			: null;
+
+	if (email && accountRule) {
+		const result = await consume(`auth:account:${email}:${path}`, accountRule);
+		if (!result.allowed) return limited("account", result.retryAfter);
+	}
+
+	if (email && isTwoFactor) {
+		const result = await consume(
+			`auth:account:${email}:/two-factor`,
+			TWO_FACTOR_RULE,
+		);
+		if (!result.allowed) return limited("account", result.retryAfter);
+	}
+
+	if (!email || !(isEmailSignIn || isTwoFactor)) return handler(request);
+
+	const store = getRateLimitStore();
+	const failureKey = `auth:sign-in-failures:${email}`;
+	const failures = await store.get(failureKey);
+	if (failures) {
+		const lockedUntil = new Date(
+			failures.updatedAt.getTime() + lockoutSeconds(failures.count) * 1000,
+		);
+		if (lockedUntil > new Date()) {
+			return limited(
+				"lockout",
+				secondsUntil(lockedUntil),
+				"Too many failed sign-in attempts",
+			);
+		}
+	}
+
+	const response = await handler(request);
+	if (response.status === 401) {
+		await store.hit(failureKey, LOCKOUT.windowMs);
+	} else if (response.ok && failures && (await isSignedIn(response))) {
+		// A right password alone doesn't clear failed second-factor codes
+		await store.reset(failureKey);
+	}
+	return response;
+}
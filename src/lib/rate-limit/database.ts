@@ -0,0 +1,46 @@
+import { prisma } from "../prisma";
+import type { RateLimitEntry, RateLimitStore } from "./types";
+
+/**
+ * Database store - counters in the RateLimitBucket table.
+ * Used for: production, where several instances share one set of limits
+ */
+export function createDatabaseStore(): RateLimitStore {
+	return {
+		async hit(key, windowMs) {
+			// Times come from the app, not now(), to match how Prisma stores
+			// DateTime columns (UTC, without time zone)
+			const now = new Date();
+			const resetAt = new Date(now.getTime() + windowMs);
+
+			// Single upsert so concurrent hits can't both start a fresh window
+			const [entry] = await prisma.$queryRaw<RateLimitEntry[]>`
+				INSERT INTO "rateLimitBucket" ("key", "count", "resetAt", "updatedAt")
+				VALUES (${key}, 1, ${resetAt}, ${now})
+				ON CONFLICT ("key") DO UPDATE SET
+					"count" = CASE
+						WHEN "rateLimitBucket"."resetAt" <= ${now} THEN 1
+						ELSE "rateLimitBucket"."count" + 1
+					END,
+					"resetAt" = CASE
+						WHEN "rateLimitBucket"."resetAt" <= ${now} THEN EXCLUDED."resetAt"
+						ELSE "rateLimitBucket"."resetAt"
+					END,
+					"updatedAt" = EXCLUDED."updatedAt"
+				RETURNING "count", "resetAt", "updatedAt"
+			`;
+			return entry;
+		},
+
+		async get(key) {
+			return prisma.rateLimitBucket.findFirst({
+				where: { key, resetAt: { gt: new Date() } },
+				select: { count: true, resetAt: true, updatedAt: true },
+			});
+		},
+
+		async reset(key) {
+			await prisma.rateLimitBucket.deleteMany({ where: { key } });
+		},
+	};
+}
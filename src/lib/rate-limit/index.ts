@@ -0,0 +1,64 @@
+import { env } from "../env";
+import { createDatabaseStore } from "./database";
+import { createMemoryStore } from "./memory";
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from "./types";
+
+export type {
+	RateLimitEntry,
+	RateLimitResult,
+	RateLimitRule,
+	RateLimitStore,
+} from "./types";
+
+function createStore(): RateLimitStore {
+	// Instances behind a load balancer must share counters, so production
+	// defaults to "database"
+	switch (env.RATE_LIMIT_STORE) {
+		case "memory":
+			return createMemoryStore();
+		case "database":
+			return createDatabaseStore();
+	}
+}
+
+let store: RateLimitStore | undefined;
+
+export function getRateLimitStore() {
+	store ??= createStore();
+	return store;
+}
+
+/**
+ * Seconds from now until `date`, at least 1.
+ */
+export function secondsUntil(date: Date) {
+	return Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1);
+}
+
+/**
+ * Count a hit against `key` and report whether it is within `rule`.
+ */
+export async function consume(
+	key: string,
+	rule: RateLimitRule,
+): Promise<RateLimitResult> {
+	const entry = await getRateLimitStore().hit(key, rule.windowMs);
+	const allowed = entry.count <= rule.max;
+
+	return {
+		allowed,
+		remaining: Math.max(rule.max - entry.count, 0),
+		retryAfter: allowed ? 0 : secondsUntil(entry.resetAt),
+	};
+}
+
+/**
+ * JSON 429 response with a Retry-After header. `retryAfter` is also in the
+ * body so clients that can't read headers (better-auth's client) get it.
+ */
+export function tooManyRequests(retryAfter: number, message: string) {
+	return Response.json(
+		{ code: "TOO_MANY_REQUESTS", message, retryAfter },
+		{ status: 429, headers: { "Retry-After": String(retryAfter) } },
+	);
+}
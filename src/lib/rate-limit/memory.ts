@@ -0,0 +1,49 @@
+import type { RateLimitEntry, RateLimitStore } from "./types";
+
+// Keep counters across hot reloads, same as the Prisma client singleton
+const globalForRateLimit = global as unknown as {
+	rateLimitEntries: Map<string, RateLimitEntry> | undefined;
+};
+
+/**
+ * Memory store - counters in process memory.
+ * Used for: dev servers and tests (each process has its own counters)
+ */
+export function createMemoryStore(): RateLimitStore {
+	globalForRateLimit.rateLimitEntries ??= new Map();
+	const entries = globalForRateLimit.rateLimitEntries;
+
+	function current(key: string, now: Date) {
+		const entry = entries.get(key);
+		if (!entry) return null;
+		if (entry.resetAt <= now) {
+			entries.delete(key);
+			return null;
+		}
+		return entry;
+	}
+
+	return {
+		async hit(key, windowMs) {
+			const now = new Date();
+			const entry = current(key, now);
+			const next = entry
+				? { ...entry, count: entry.count + 1, updatedAt: now }
+				: {
+						count: 1,
+						resetAt: new Date(now.getTime() + windowMs),
+						updatedAt: now,
+					};
+			entries.set(key, next);
+			return next;
+		},
+
+		async get(key) {
+			return current(key, new Date());
+		},
+
+		async reset(key) {
+			entries.delete(key);
+		},
+	};
+}
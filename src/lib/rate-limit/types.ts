@@ -0,0 +1,37 @@
+/**
+ * Counter for one key within a fixed window.
+ */
+export interface RateLimitEntry {
+	count: number;
+	/** When the window ends and the count starts again from zero */
+	resetAt: Date;
+	/** Time of the most recent hit */
+	updatedAt: Date;
+}
+
+/**
+ * Where rate-limit counters live. Implementations must make `hit` atomic so
+ * concurrent requests can't slip past a limit.
+ */
+export interface RateLimitStore {
+	/** Count one hit, starting a new window of `windowMs` if the last expired */
+	hit(key: string, windowMs: number): Promise<RateLimitEntry>;
+	/** Current entry, or null if there is none or its window has ended */
+	get(key: string): Promise<RateLimitEntry | null>;
+	reset(key: string): Promise<void>;
+}
+
+/**
+ * At most `max` hits per `windowMs`.
+ */
+export interface RateLimitRule {
+	max: number;
+	windowMs: number;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	remaining: number;
+	/** Seconds until another attempt is allowed (0 when allowed) */
+	retryAfter: number;
+}
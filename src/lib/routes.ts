@@ -0,0 +1,52 @@
+// =============================================================================
+// ROUTE CONFIG - Which pages need a session, and where auth redirects go
+// =============================================================================
+
+export const routeConfig = {
+	/** Where signed-out visitors of protected routes are sent */
+	signIn: "/sign-in",
+	/** Default destination after sign-in when no callbackUrl is given */
+	afterSignIn: "/",
+	/** Route groups that require a session (matches the path and its children) */
+	protectedPrefixes: ["/account", "/admin", "/organization", "/invitations"],
+};
+
+/**
+ * Whether a pathname falls inside one of the protected route groups.
+ */
+export function isProtectedRoute(pathname: string) {
+	return routeConfig.protectedPrefixes.some(
+		(prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+	);
+}
+
+const INTERNAL_ORIGIN = "http://internal.invalid";
+
+/**
+ * Return `value` only if it is a same-origin relative path, else `fallback`.
+ * Guards callbackUrl against open redirects (//evil.com, /\evil.com,
+ * javascript:, absolute URLs).
+ */
+export function getSafeCallbackUrl(
+	value: string | null | undefined,
+	fallback = routeConfig.afterSignIn,
+) {
+	if (!value?.startsWith("/")) return fallback;
+
+	try {
+		const url = new URL(value, INTERNAL_ORIGIN);
+		if (url.origin !== INTERNAL_ORIGIN) return fallback;
+		return `${url.pathname}${url.search}${url.hash}`;
+	} catch {
+		return fallback;
+	}
+}
+
+/**
+ * Sign-in URL that returns the user to `callbackUrl` afterwards.
+ */
+export function buildSignInUrl(callbackUrl?: string) {
+	const safe = getSafeCallbackUrl(callbackUrl, "");
+	if (!safe) return routeConfig.signIn;
+	return `${routeConfig.signIn}?${new URLSearchParams({ callbackUrl: safe })}`;
+}
@@ -0,0 +1,297 @@
+import { hashPassword } from "better-auth/crypto";
+import type { Prisma } from "@/generated/prisma/client";
+import { prisma } from "../prisma";
+import type { AuthEventType, OrganizationRole, Role } from "../validations";
+import { createRandom, type Random, slugify } from "./random";
+
+export type { Random } from "./random";
+export { createRandom, SEED_REFERENCE_DATE, slugify } from "./random";
+
+// =============================================================================
+// SEED - Named data sets for local development and tests
+// =============================================================================
+// - "empty": no rows; with resetDatabase() gives a blank app
+// - "demo": an admin, a demo user and colleagues in two organizations
+// - "load": many generated users in organizations of 20, with security log
+//   history, for trying pagination, search and exports at volume
+// Rows are generated from a fixed seed per scenario and inserted with
+// skipDuplicates, so running a scenario again leaves its rows alone. Each
+// scenario uses its own email domain so they can share a database; a user
+// that signed up with one of the seeded emails makes seeding fail. Run with
+// `pnpm db:seed` (see prisma/seed.ts).
+
+export const SEED_SCENARIOS = ["empty", "demo", "load"] as const;
+
+export type SeedScenario = (typeof SEED_SCENARIOS)[number];
+
+/** Password of every seeded user; meets passwordSchema */
+export const SEED_PASSWORD = "Password123";
+
+export const DEMO_ADMIN_EMAIL = "admin@example.com";
+export const DEMO_USER_EMAIL = "user@example.com";
+export const LOAD_ADMIN_EMAIL = "admin@load.example.com";
+
+/** Users generated by "load" unless `users` is given */
+const DEFAULT_LOAD_USERS = 1000;
+
+const LOAD_ORGANIZATION_SIZE = 20;
+
+/** Rows per createMany; much larger inserts crash the embedded test database */
+const BATCH_SIZE = 100;
+
+export interface SeedOptions {
+	/** Users generated by the "load" scenario */
+	users?: number;
+}
+
+interface SeedData {
+	users: Prisma.UserCreateManyInput[];
+	accounts: Prisma.AccountCreateManyInput[];
+	organizations: Prisma.OrganizationCreateManyInput[];
+	members: Prisma.MemberCreateManyInput[];
+	authEvents: Prisma.AuthEventCreateManyInput[];
+}
+
+type SeededUser = Prisma.UserCreateManyInput & { id: string; createdAt: Date };
+
+// =============================================================================
+// BUILDING
+// =============================================================================
+
+/**
+ * Collects rows in memory; nothing is written until insert().
+ */
+function createBuilder(random: Random, passwordHash: string) {
+	const data: SeedData = {
+		users: [],
+		accounts: [],
+		organizations: [],
+		members: [],
+		authEvents: [],
+	};
+
+	function addAuthEvent(
+		user: SeededUser,
+		type: AuthEventType,
+		createdAt: Date,
+		metadata?: Prisma.InputJsonObject,
+	) {
+		data.authEvents.push({
+			id: random.id(),
+			type,
+			userId: user.id,
+			email: user.email,
+			method: type === "sign-out" ? null : "email",
+			ipAddress: random.ipAddress(),
+			userAgent: random.userAgent(),
+			metadata,
+			createdAt,
+		});
+	}
+
+	/**
+	 * A verified user with an email/password account, signed up some time in
+	 * the last year, and `signIns` sign-ins since.
+	 */
+	function addUser({
+		name,
+		email,
+		role = "user",
+		signIns = 3,
+	}: {
+		name: string;
+		email: string;
+		role?: Role;
+		signIns?: number;
+	}) {
+		const createdAt = random.pastDate(365);
+		const user: SeededUser = {
+			id: random.id(),
+			name,
+			email,
+			role,
+			emailVerified: true,
+			createdAt,
+			updatedAt: createdAt,
+		};
+		data.users.push(user);
+		data.accounts.push({
+			id: random.id(),
+			accountId: user.id,
+			providerId: "credential",
+			userId: user.id,
+			password: passwordHash,
+			createdAt,
+			updatedAt: createdAt,
+		});
+
+		addAuthEvent(user, "sign-up", createdAt);
+		for (let i = 0; i < signIns; i++) {
+			// Roughly one in five sign-ins follows a mistyped password
+			const signedInAt = random.dateAfter(createdAt);
+			if (random.next() < 0.2) {
+				addAuthEvent(user, "sign-in.failure", signedInAt, {
+					reason: "INVALID_EMAIL_OR_PASSWORD",
+				});
+			}
+			addAuthEvent(user, "sign-in.success", signedInAt);
+		}
+		return user;
+	}
+
+	/** A user with a generated name and an email made unique by `index` */
+	function addPerson(index: number, domain: string) {
+		const { firstName, lastName, name } = random.person();
+		return addUser({
+			name,
+			email: `${slugify(firstName)}.${slugify(lastName)}.${index}@${domain}`,
+		});
+	}
+
+	function addOrganization(
+		name: string,
+		members: (readonly [user: SeededUser, role: OrganizationRole])[],
+	) {
+		const createdAt = random.pastDate(180);
+		const organization = {
+			id: random.id(),
+			name,
+			slug: slugify(name),
+			createdAt,
+		};
+		data.organizations.push(organization);
+		for (const [user, role] of members) {
+			data.members.push({
+				id: random.id(),
+				organizationId: organization.id,
+				userId: user.id,
+				role,
+				createdAt,
+			});
+		}
+		return organization;
+	}
+
+	return { random, data, addUser, addPerson, addOrganization };
+}
+
+type Builder = ReturnType<typeof createBuilder>;
+
+function buildDemo({ addUser, addPerson, addOrganization }: Builder) {
+	const admin = addUser({
+		name: "Admin User",
+		email: DEMO_ADMIN_EMAIL,
+		role: "admin",
+	});
+	const user = addUser({ name: "Demo User", email: DEMO_USER_EMAIL });
+	const colleagues = Array.from({ length: 8 }, (_, i) =>
+		addPerson(i + 1, "example.com"),
+	);
+
+	addOrganization("Acme", [
+		[admin, "owner"],
+		[user, "admin"],
+		...colleagues
+			.slice(0, 5)
+			.map((colleague) => [colleague, "member"] as const),
+	]);
+	addOrganization("Globex", [
+		[user, "owner"],
+		...colleagues.slice(5).map((colleague) => [colleague, "member"] as const),
+	]);
+}
+
+function buildLoad(
+	{ random, addUser, addPerson, addOrganization }: Builder,
+	count: number,
+) {
+	addUser({ name: "Admin User", email: LOAD_ADMIN_EMAIL, role: "admin" });
+	const users = Array.from({ length: count }, (_, i) =>
+		addPerson(i + 1, "load.example.com"),
+	);
+
+	for (let i = 0; i < users.length; i += LOAD_ORGANIZATION_SIZE) {
+		const [owner, ...members] = users.slice(i, i + LOAD_ORGANIZATION_SIZE);
+		const number = i / LOAD_ORGANIZATION_SIZE + 1;
+		addOrganization(`${random.company()} ${number}`, [
+			[owner, "owner"],
+			...members.map((member) => [member, "member"] as const),
+		]);
+	}
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+async function inBatches<T>(
+	rows: T[],
+	write: (batch: T[]) => Promise<{ count: number }>,
+) {
+	let count = 0;
+	for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+		count += (await write(rows.slice(i, i + BATCH_SIZE))).count;
+	}
+	return count;
+}
+
+/** Parents before children; returns rows actually created */
+async function insert(data: SeedData) {
+	const skipDuplicates = true;
+	return {
+		users: await inBatches(data.users, (batch) =>
+			prisma.user.createMany({ data: batch, skipDuplicates }),
+		),
+		accounts: await inBatches(data.accounts, (batch) =>
+			prisma.account.createMany({ data: batch, skipDuplicates }),
+		),
+		organizations: await inBatches(data.organizations, (batch) =>
+			prisma.organization.createMany({ data: batch, skipDuplicates }),
+		),
+		members: await inBatches(data.members, (batch) =>
+			prisma.member.createMany({ data: batch, skipDuplicates }),
+		),
+		authEvents: await inBatches(data.authEvents, (batch) =>
+			prisma.authEvent.createMany({ data: batch, skipDuplicates }),
+		),
+	};
+}
+
+/**
+ * Insert a scenario's rows and return how many of each were created
+ * (0 for rows already there from an earlier run).
+ *
+ * @example
+ * await resetDatabase();
+ * await seedDatabase("demo");
+ * // sign in as DEMO_ADMIN_EMAIL with SEED_PASSWORD
+ */
+export async function seedDatabase(
+	scenario: SeedScenario,
+	{ users = DEFAULT_LOAD_USERS }: SeedOptions = {},
+) {
+	// One hash for everyone: scrypt is slow on purpose, and the salt makes
+	// each hash different anyway
+	const builder = createBuilder(
+		createRandom(SEED_SCENARIOS.indexOf(scenario)),
+		await hashPassword(SEED_PASSWORD),
+	);
+	if (scenario === "demo") buildDemo(builder);
+	if (scenario === "load") buildLoad(builder, users);
+	return insert(builder.data);
+}
+
+/**
+ * Empty every table except Prisma's migration history, keeping the schema.
+ * Used for: integration tests (before each test), reseeding a dev database
+ */
+export async function resetDatabase() {
+	const tables = await prisma.$queryRaw<{ tablename: string }[]>`
+		SELECT tablename FROM pg_tables
+		WHERE schemaname = 'public' AND tablename <> '_prisma_migrations'
+	`;
+	if (tables.length === 0) return;
+
+	const list = tables.map(({ tablename }) => `"${tablename}"`).join(", ");
+	await prisma.$executeRawUnsafe(`TRUNCATE TABLE ${list} CASCADE`);
+}
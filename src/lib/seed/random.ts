@@ -0,0 +1,156 @@
+// =============================================================================
+// RANDOM - Repeatable fake data for seeding
+// =============================================================================
+// Every value comes from one seeded generator, so a scenario produces the
+// same IDs, names, emails and dates on every run and seeding twice doesn't
+// create duplicates. Draw values in a fixed order: inserting a call in the
+// middle shifts everything generated after it.
+
+const FIRST_NAMES = [
+	"Ada",
+	"Alan",
+	"Barbara",
+	"Claude",
+	"Dennis",
+	"Donald",
+	"Edsger",
+	"Frances",
+	"Grace",
+	"Hedy",
+	"Ivan",
+	"John",
+	"Katherine",
+	"Ken",
+	"Linus",
+	"Margaret",
+	"Niklaus",
+	"Radia",
+	"Shafi",
+	"Tim",
+] as const;
+
+const LAST_NAMES = [
+	"Allen",
+	"Berners-Lee",
+	"Dijkstra",
+	"Goldwasser",
+	"Hamilton",
+	"Hopper",
+	"Johnson",
+	"Knuth",
+	"Lamarr",
+	"Liskov",
+	"Lovelace",
+	"McCarthy",
+	"Perlman",
+	"Ritchie",
+	"Shannon",
+	"Sutherland",
+	"Thompson",
+	"Torvalds",
+	"Turing",
+	"Wirth",
+] as const;
+
+const COMPANY_NAMES = [
+	"Acme",
+	"Globex",
+	"Initech",
+	"Hooli",
+	"Umbrella",
+	"Stark Industries",
+	"Wayne Enterprises",
+	"Wonka",
+	"Tyrell",
+	"Cyberdyne",
+] as const;
+
+const USER_AGENTS = [
+	"Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15",
+	"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
+	"Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0",
+	"Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1",
+] as const;
+
+/** Dates are spread over the days before this, not before today */
+export const SEED_REFERENCE_DATE = new Date("2025-01-01T00:00:00Z");
+
+const ID_ALPHABET =
+	"abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export type Random = ReturnType<typeof createRandom>;
+
+/**
+ * Generator for fake data that repeats for the same `seed`.
+ *
+ * @example
+ * const random = createRandom(1);
+ * const person = random.person(); // same name on every run
+ */
+export function createRandom(seed: number) {
+	let state = seed >>> 0;
+
+	/** Float in [0, 1) (mulberry32) */
+	function next() {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	}
+
+	/** Integer from `min` to `max`, inclusive */
+	function int(min: number, max: number) {
+		return min + Math.floor(next() * (max - min + 1));
+	}
+
+	function pick<T>(items: readonly T[]): T {
+		return items[int(0, items.length - 1)];
+	}
+
+	return {
+		next,
+		int,
+		pick,
+		/** Same shape as the IDs better-auth generates */
+		id() {
+			return Array.from({ length: 32 }, () => pick([...ID_ALPHABET])).join("");
+		},
+		/** Moment within the `days` before SEED_REFERENCE_DATE */
+		pastDate(days: number) {
+			return new Date(SEED_REFERENCE_DATE.getTime() - next() * days * DAY);
+		},
+		/** Moment between `date` and SEED_REFERENCE_DATE */
+		dateAfter(date: Date) {
+			const span = SEED_REFERENCE_DATE.getTime() - date.getTime();
+			return new Date(date.getTime() + next() * Math.max(span, 0));
+		},
+		person() {
+			const firstName = pick(FIRST_NAMES);
+			const lastName = pick(LAST_NAMES);
+			return { firstName, lastName, name: `${firstName} ${lastName}` };
+		},
+		company() {
+			return pick(COMPANY_NAMES);
+		},
+		/** Address in the documentation range 203.0.113.0/24 */
+		ipAddress() {
+			return `203.0.113.${int(1, 254)}`;
+		},
+		userAgent() {
+			return pick(USER_AGENTS);
+		},
+	};
+}
+
+/**
+ * Lowercase, hyphen-separated form of `value` for emails and slugs.
+ */
+export function slugify(value: string) {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+}
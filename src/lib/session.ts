@@ -0,0 +1,148 @@
+import { APIError } from "better-auth/api";
+import { headers } from "next/headers";
+import { forbidden, redirect } from "next/navigation";
+import { cache } from "react";
+import { getApiKeyScopes, getBearerToken } from "./api-keys";
+import { auth } from "./auth";
+import { buildSignInUrl } from "./routes";
+import {
+	type ApiKeyScope,
+	type Role,
+	type SessionUser,
+	sessionUserSchema,
+} from "./validations";
+
+/**
+ * better-auth session for this request (deduplicated per render), from the
+ * session cookie or an `Authorization: Bearer` API key; an invalid or
+ * expired key counts as signed out.
+ */
+const getRequestSession = cache(async () => {
+	const requestHeaders = await headers();
+	try {
+		return await auth.api.getSession({ headers: requestHeaders });
+	} catch (error) {
+		if (error instanceof APIError && getBearerToken(requestHeaders)) {
+			return null;
+		}
+		throw error;
+	}
+});
+
+/**
+ * The API key that authenticated this request with its scopes, or null
+ * when it used a session cookie (which may do anything the user can).
+ */
+export const getRequestApiKey = cache(async () => {
+	if (!getBearerToken(await headers())) return null;
+
+	const session = await getRequestSession();
+	if (!session) return null;
+	// Sessions created from API keys use the key's ID
+	const id = session.session.id;
+	return { id, scopes: await getApiKeyScopes(id) };
+});
+
+/**
+ * Whether this request may act as its user: always with a session cookie,
+ * and with an API key only if the key has `scope`.
+ */
+async function allowsApiKey(scope: ApiKeyScope | undefined) {
+	const apiKey = await getRequestApiKey();
+	return !apiKey || (!!scope && apiKey.scopes.includes(scope));
+}
+
+export interface UserOptions {
+	/**
+	 * Scope an API key needs to stand in for the session. Without one, API
+	 * keys are refused and the request counts as signed out.
+	 */
+	scope?: ApiKeyScope;
+}
+
+/**
+ * Current better-auth session from the session cookie; requests made with
+ * an API key get null.
+ * Used for: server components, route handlers, server actions
+ */
+export const getSession = cache(async () => {
+	if (!(await allowsApiKey(undefined))) return null;
+	return getRequestSession();
+});
+
+/**
+ * Current user, or null when signed out (or using an API key without
+ * `scope`).
+ */
+export async function getCurrentUser({
+	scope,
+}: UserOptions = {}): Promise<SessionUser | null> {
+	const session = await getRequestSession();
+	if (!session || !(await allowsApiKey(scope))) return null;
+
+	return sessionUserSchema.parse({
+		id: session.user.id,
+		name: session.user.name,
+		email: session.user.email,
+		image: session.user.image ?? null,
+		role: session.user.role,
+	});
+}
+
+/**
+ * Current user, or redirect to sign-in (returning to `callbackUrl` after).
+ */
+export async function requireUser(
+	callbackUrl?: string,
+	options?: UserOptions,
+): Promise<SessionUser> {
+	const user = await getCurrentUser(options);
+	if (!user) redirect(buildSignInUrl(callbackUrl));
+	return user;
+}
+
+/**
+ * Current user if they have one of `roles`; redirects to sign-in when signed
+ * out and renders app/forbidden.tsx (403) otherwise.
+ * Used for: admin pages, route handlers, server actions
+ */
+export async function requireRole(
+	roles: Role | Role[],
+	callbackUrl?: string,
+	options?: UserOptions,
+): Promise<SessionUser> {
+	const user = await requireUser(callbackUrl, options);
+	const allowed = Array.isArray(roles) ? roles : [roles];
+	if (!allowed.includes(user.role)) forbidden();
+	return user;
+}
+
+/**
+ * How recently the user must have signed in to confirm sensitive changes
+ * that have no password to ask for (creating an API key, deleting an
+ * account without a password).
+ */
+export const RECENT_SIGN_IN_MS = 10 * 60 * 1000;
+
+/**
+ * Whether `session` proves the user is at the keyboard: started by the
+ * user themselves (not an admin impersonating them) within
+ * RECENT_SIGN_IN_MS.
+ */
+export function isRecentSignIn(
+	session: { createdAt: Date; impersonatedBy?: string | null },
+	now = Date.now(),
+) {
+	return (
+		!session.impersonatedBy &&
+		now - session.createdAt.getTime() <= RECENT_SIGN_IN_MS
+	);
+}
+
+/**
+ * Whether this request's session cookie comes from a recent sign-in.
+ */
+export async function hasRecentSignIn() {
+	const session = await getSession();
+	return !!session && isRecentSignIn(session.session);
+}
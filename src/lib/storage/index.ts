@@ -0,0 +1,53 @@
+import { env } from "../env";
+import { createLocalDriver } from "./local";
+import type { StorageDriver } from "./types";
+
+export type { StorageDriver, StoredObject } from "./types";
+
+/** Files are served back through src/app/api/uploads/[...key]/route.ts */
+const PUBLIC_PREFIX = "/api/uploads/";
+
+/** Keys under these prefixes are only handed out after an ownership check */
+const PRIVATE_KEY_PREFIXES = ["exports/"];
+
+function createDriver(): StorageDriver {
+	switch (env.STORAGE_DRIVER) {
+		case "local":
+			return createLocalDriver(env.STORAGE_LOCAL_DIR);
+	}
+}
+
+let driver: StorageDriver | undefined;
+
+export function getStorage() {
+	driver ??= createDriver();
+	return driver;
+}
+
+/**
+ * Public URL for a stored key.
+ */
+export function getPublicUrl(key: string) {
+	return `${PUBLIC_PREFIX}${key}`;
+}
+
+/**
+ * Whether `key` may be served to anyone from PUBLIC_PREFIX. Keys with empty,
+ * "." or ".." segments are refused so they can't reach a private prefix.
+ */
+export function isPublicKey(key: string) {
+	const segments = key.split("/");
+	if (segments.some((segment) => ["", ".", ".."].includes(segment))) {
+		return false;
+	}
+	return !PRIVATE_KEY_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+/**
+ * Storage key for a URL produced by `getPublicUrl`, or null for
+ * external URLs (e.g. OAuth provider avatars).
+ */
+export function getKeyFromUrl(url: string | null | undefined) {
+	if (!url?.startsWith(PUBLIC_PREFIX)) return null;
+	return url.slice(PUBLIC_PREFIX.length);
+}
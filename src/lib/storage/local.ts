@@ -0,0 +1,53 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { StorageDriver } from "./types";
+
+const CONTENT_TYPES: Record<string, string> = {
+	".gif": "image/gif",
+	".jpg": "image/jpeg",
+	".json": "application/json",
+	".png": "image/png",
+	".webp": "image/webp",
+	".zip": "application/zip",
+};
+
+/**
+ * Local disk driver - files live under `dir`.
+ * Used for: development and single-replica deployments
+ */
+export function createLocalDriver(dir: string): StorageDriver {
+	const root = path.resolve(dir);
+
+	// Refuse keys that would escape the storage root (../, absolute paths)
+	function resolve(key: string) {
+		const filePath = path.resolve(root, key);
+		if (!filePath.startsWith(`${root}${path.sep}`)) {
+			throw new Error(`Invalid storage key "${key}"`);
+		}
+		return filePath;
+	}
+
+	return {
+		async put(key, body) {
+			const filePath = resolve(key);
+			await mkdir(path.dirname(filePath), { recursive: true });
+			await writeFile(filePath, body);
+		},
+
+		async get(key) {
+			const filePath = resolve(key);
+			const body = await readFile(filePath).catch(() => null);
+			if (!body) return null;
+
+			const extension = path.extname(filePath).toLowerCase();
+			return {
+				body,
+				contentType: CONTENT_TYPES[extension] ?? "application/octet-stream",
+			};
+		},
+
+		async delete(key) {
+			await rm(resolve(key), { force: true });
+		},
+	};
+}
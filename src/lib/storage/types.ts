@@ -0,0 +1,14 @@
+export interface StoredObject {
+	body: Uint8Array;
+	contentType: string;
+}
+
+/**
+ * A storage driver persists uploaded files under string keys
+ * (e.g. "avatars/<userId>/<file>.png"). Swap via STORAGE_DRIVER.
+ */
+export interface StorageDriver {
+	put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+	get(key: string): Promise<StoredObject | null>;
+	delete(key: string): Promise<void>;
+}
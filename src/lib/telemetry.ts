@@ -0,0 +1,53 @@
+import { AzureMonitorTraceExporter } from "@azure/monitor-opentelemetry-exporter";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { NodeSDK } from "@opentelemetry/sdk-node";
+import {
+	BatchSpanProcessor,
+	type SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { PrismaInstrumentation } from "@prisma/instrumentation";
+import { env } from "./env";
+
+// =============================================================================
+// TELEMETRY - OpenTelemetry traces for requests and Prisma queries
+// =============================================================================
+// Next.js creates spans for requests, rendering and route handlers once a
+// tracer is registered; PrismaInstrumentation adds one per query. Spans go
+// to an OTLP collector and/or Application Insights, whichever is configured.
+
+function spanProcessors() {
+	const processors: SpanProcessor[] = [];
+	// Also reads OTEL_EXPORTER_OTLP_HEADERS, e.g. for an API key
+	if (env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+		processors.push(new BatchSpanProcessor(new OTLPTraceExporter()));
+	}
+	// Set by infrastructure/modules/container-app.bicep
+	const connectionString = env.APPLICATIONINSIGHTS_CONNECTION_STRING;
+	if (connectionString) {
+		processors.push(
+			new BatchSpanProcessor(
+				new AzureMonitorTraceExporter({ connectionString }),
+			),
+		);
+	}
+	return processors;
+}
+
+/**
+ * Start tracing if an exporter is configured. Call once per process,
+ * before other work starts. Returns the SDK, whose `shutdown()` flushes
+ * buffered spans, or null when tracing is off.
+ * Used for: src/instrumentation.ts, scripts/worker.ts
+ */
+export function startTelemetry(serviceName = "next-template") {
+	const processors = spanProcessors();
+	if (processors.length === 0) return null;
+
+	const sdk = new NodeSDK({
+		serviceName: env.OTEL_SERVICE_NAME ?? serviceName,
+		spanProcessors: processors,
+		instrumentations: [new PrismaInstrumentation()],
+	});
+	sdk.start();
+	return sdk;
+}
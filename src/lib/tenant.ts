@@ -0,0 +1,121 @@
+import { headers } from "next/headers";
+import { forbidden, redirect } from "next/navigation";
+import { cache } from "react";
+import type { Prisma } from "@/generated/prisma/client";
+import { auth } from "./auth";
+import { prisma } from "./prisma";
+import { requireUser } from "./session";
+import type { OrganizationRole } from "./validations";
+
+// =============================================================================
+// TENANT - Active organization and organization-scoped database access
+// =============================================================================
+
+/** Models with an `organizationId` column that scoped clients filter on */
+const TENANT_MODELS = new Set<Prisma.ModelName>(["Member", "Invitation"]);
+
+/** Operations whose `where` gets the organization filter added */
+const FILTERED_OPERATIONS = new Set([
+	"findUnique",
+	"findUniqueOrThrow",
+	"findFirst",
+	"findFirstOrThrow",
+	"findMany",
+	"count",
+	"aggregate",
+	"groupBy",
+	"update",
+	"updateMany",
+	"updateManyAndReturn",
+	"delete",
+	"deleteMany",
+]);
+
+type ScopedArgs = {
+	where?: object;
+	data?: object | object[];
+	create?: object;
+};
+
+/**
+ * Prisma client that only sees rows belonging to `organizationId`.
+ * Reads, updates and deletes on tenant models are filtered, and creates
+ * have `organizationId` filled in. Other models pass through unchanged.
+ *
+ * @example
+ * const db = scopedPrisma(organizationId);
+ * await db.invitation.findMany({ where: { status: "pending" } });
+ */
+export function scopedPrisma(organizationId: string) {
+	return prisma.$extends({
+		name: "tenant",
+		query: {
+			$allModels: {
+				async $allOperations({ model, operation, args, query }) {
+					if (!TENANT_MODELS.has(model)) return query(args);
+
+					const scoped = args as ScopedArgs;
+					if (FILTERED_OPERATIONS.has(operation)) {
+						scoped.where = { ...scoped.where, organizationId };
+					} else if (operation === "create") {
+						scoped.data = { ...scoped.data, organizationId };
+					} else if (
+						operation === "createMany" ||
+						operation === "createManyAndReturn"
+					) {
+						const rows = Array.isArray(scoped.data)
+							? scoped.data
+							: [scoped.data];
+						scoped.data = rows.map((row) => ({ ...row, organizationId }));
+					} else if (operation === "upsert") {
+						scoped.where = { ...scoped.where, organizationId };
+						scoped.create = { ...scoped.create, organizationId };
+					}
+
+					return query(scoped as typeof args);
+				},
+			},
+		},
+	});
+}
+
+export type ScopedPrisma = ReturnType<typeof scopedPrisma>;
+
+/**
+ * Signed-in user's membership in their active organization, or null.
+ */
+export const getActiveMember = cache(async () => {
+	try {
+		return await auth.api.getActiveMember({ headers: await headers() });
+	} catch {
+		return null;
+	}
+});
+
+/**
+ * Current user, their active membership and a database client scoped to
+ * that organization. Redirects to sign-in when signed out and to
+ * /organization/new when no organization is active; renders
+ * app/forbidden.tsx when the member lacks one of `roles`.
+ * Used for: organization pages, route handlers, server actions
+ */
+export async function requireOrganization(
+	roles?: OrganizationRole | OrganizationRole[],
+	callbackUrl?: string,
+) {
+	const user = await requireUser(callbackUrl);
+	const member = await getActiveMember();
+	if (!member) redirect("/organization/new");
+
+	if (roles) {
+		const allowed = Array.isArray(roles) ? roles : [roles];
+		if (!allowed.includes(member.role as OrganizationRole)) forbidden();
+	}
+
+	return {
+		user,
+		member,
+		organizationId: member.organizationId,
+		db: scopedPrisma(member.organizationId),
+	};
+}
@@ -0,0 +1,41 @@
+export interface ParsedUserAgent {
+	browser: string;
+	os: string;
+	mobile: boolean;
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome claims Safari
+const BROWSERS: [RegExp, string][] = [
+	[/Edg(e|A|iOS)?\//, "Edge"],
+	[/OPR\/|Opera/, "Opera"],
+	[/SamsungBrowser\//, "Samsung Internet"],
+	[/Firefox\/|FxiOS\//, "Firefox"],
+	[/Chrome\/|CriOS\//, "Chrome"],
+	[/Version\/[\d.]+.*Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+	[/iPhone|iPad|iPod/, "iOS"],
+	[/Android/, "Android"],
+	[/CrOS/, "ChromeOS"],
+	[/Windows/, "Windows"],
+	[/Mac OS X|Macintosh/, "macOS"],
+	[/Linux/, "Linux"],
+];
+
+/**
+ * Best-effort browser/OS detection for display purposes only.
+ * Used for: the devices & sessions list
+ */
+export function parseUserAgent(
+	userAgent: string | null | undefined,
+): ParsedUserAgent {
+	const ua = userAgent ?? "";
+
+	return {
+		browser: BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown",
+		os:
+			OPERATING_SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown",
+		mobile: /Mobi|Android|iPhone|iPad/.test(ua),
+	};
+}
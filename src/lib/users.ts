@@ -0,0 +1,87 @@
+import type { Prisma } from "@/generated/prisma/client";
+import { cursorArgs, cursorPage, pageArgs, pageMeta, sortArgs } from "./api";
+import { prisma } from "./prisma";
+import {
+	type User,
+	type UserCursorList,
+	type UserList,
+	type UserListQuery,
+	userCursorListSchema,
+	userListSchema,
+	userSchema,
+} from "./validations";
+
+// =============================================================================
+// USERS - Queries behind the /api/users resource
+// =============================================================================
+
+/** Columns exposed by the API; see userSchema */
+const USER_SELECT = {
+	id: true,
+	name: true,
+	email: true,
+	emailVerified: true,
+	image: true,
+	role: true,
+	createdAt: true,
+	updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Users matching `q` (name or email) in `sort` order. Uses cursor
+ * pagination when `cursor` is set (empty for the first page), otherwise
+ * page/limit with totals.
+ */
+export async function queryUsers({
+	q,
+	sort,
+	cursor,
+	page,
+	limit,
+}: UserListQuery): Promise<UserList | UserCursorList> {
+	const where: Prisma.UserWhereInput = q
+		? {
+				OR: [
+					{ email: { contains: q, mode: "insensitive" } },
+					{ name: { contains: q, mode: "insensitive" } },
+				],
+			}
+		: {};
+	const orderBy = sortArgs(sort);
+
+	if (cursor !== undefined) {
+		const rows = await prisma.user.findMany({
+			where,
+			orderBy,
+			select: USER_SELECT,
+			...cursorArgs({ cursor, limit }),
+		});
+		return userCursorListSchema.parse(cursorPage(rows, limit));
+	}
+
+	const [users, total] = await Promise.all([
+		prisma.user.findMany({
+			where,
+			orderBy,
+			select: USER_SELECT,
+			...pageArgs({ page, limit }),
+		}),
+		prisma.user.count({ where }),
+	]);
+
+	return userListSchema.parse({
+		items: users,
+		meta: pageMeta({ page, limit }, total),
+	});
+}
+
+/**
+ * A single user; throws Prisma's not-found error (a 404 from API routes).
+ */
+export async function getUserById(id: string): Promise<User> {
+	const user = await prisma.user.findUniqueOrThrow({
+		where: { id },
+		select: USER_SELECT,
+	});
+	return userSchema.parse(user);
+}
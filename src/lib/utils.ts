@@ -4,3 +4,45 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
 	return twMerge(clsx(inputs));
 }
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+	["year", 365 * 24 * 60 * 60],
+	["month", 30 * 24 * 60 * 60],
+	["week", 7 * 24 * 60 * 60],
+	["day", 24 * 60 * 60],
+	["hour", 60 * 60],
+	["minute", 60],
+];
+
+/**
+ * "3 hours ago", "in 2 days", or "just now" for anything under a minute.
+ */
+export function formatRelativeTime(date: Date, now = new Date()) {
+	const seconds = Math.round((date.getTime() - now.getTime()) / 1000);
+	const formatter = new Intl.RelativeTimeFormat("en", { numeric: "auto" });
+
+	for (const [unit, unitSeconds] of RELATIVE_UNITS) {
+		if (Math.abs(seconds) >= unitSeconds) {
+			return formatter.format(Math.round(seconds / unitSeconds), unit);
+		}
+	}
+	return "just now";
+}
+
+/**
+ * "45 seconds", "5 minutes", "2 hours" - rounded up to the largest unit.
+ */
+export function formatDuration(seconds: number) {
+	const units: [string, number][] = [
+		["hour", 60 * 60],
+		["minute", 60],
+	];
+	for (const [unit, unitSeconds] of units) {
+		if (seconds >= unitSeconds) {
+			const count = Math.ceil(seconds / unitSeconds);
+			return `${count} ${unit}${count === 1 ? "" : "s"}`;
+		}
+	}
+	const count = Math.max(Math.ceil(seconds), 1);
+	return `${count} second${count === 1 ? "" : "s"}`;
+}
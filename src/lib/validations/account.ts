@@ -0,0 +1,89 @@
+import { z } from "zod/v4";
+import { nameSchema, passwordSchema } from "./auth";
+
+// =============================================================================
+// ACCOUNT SCHEMAS - Self-service account settings
+// =============================================================================
+
+/**
+ * Update Profile Schema
+ * Used for: profile form (client + server action)
+ */
+export const updateProfileSchema = z.object({
+	name: nameSchema,
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Avatar Schema
+ * Used for: avatar upload server action
+ */
+export const avatarSchema = z.object({
+	avatar: z
+		.file("Choose an image to upload")
+		.max(AVATAR_MAX_BYTES, "Image must be 2 MB or smaller")
+		.mime(
+			["image/png", "image/jpeg", "image/webp", "image/gif"],
+			"Image must be a PNG, JPEG, WebP or GIF",
+		),
+});
+
+export type AvatarInput = z.infer<typeof avatarSchema>;
+
+/**
+ * Change Email Schema
+ * Used for: email change form (a verification link goes to the new address)
+ */
+export const changeEmailSchema = z.object({
+	newEmail: z.email("Invalid email address"),
+});
+
+export type ChangeEmailInput = z.infer<typeof changeEmailSchema>;
+
+/**
+ * Change Password Schema
+ * Used for: password change form (requires the current password)
+ */
+export const changePasswordSchema = z
+	.object({
+		currentPassword: z.string().min(1, "Current password is required"),
+		newPassword: passwordSchema,
+		confirmPassword: z.string().min(1, "Please confirm your password"),
+	})
+	.refine((data) => data.newPassword === data.confirmPassword, {
+		message: "Passwords do not match",
+		path: ["confirmPassword"],
+	});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+
+/**
+ * Delete Account Schema
+ * Used for: scheduling account deletion (password + typed confirmation)
+ */
+export const deleteAccountSchema = z.object({
+	// Checked by the action: users without a password sign in again instead
+	password: z.string(),
+	confirmation: z
+		.string()
+		.refine((value) => value === "DELETE", 'Type "DELETE" to confirm'),
+});
+
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
+
+/**
+ * Passkey Name Schema
+ * Used for: naming a passkey when adding or renaming it
+ */
+export const passkeyNameSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "Name is required")
+		.max(50, "Name must be less than 50 characters"),
+});
+
+export type PasskeyNameInput = z.infer<typeof passkeyNameSchema>;
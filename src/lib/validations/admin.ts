@@ -0,0 +1,82 @@
+import { z } from "zod/v4";
+import { roleSchema, userSchema } from "./auth";
+import { paginatedResponseSchema } from "./common";
+
+// =============================================================================
+// ADMIN SCHEMAS - User management console
+// =============================================================================
+
+/**
+ * Admin User Schema (user row as seen by admins)
+ * Used for: /admin/users listing
+ */
+export const adminUserSchema = userSchema
+	.pick({
+		id: true,
+		name: true,
+		email: true,
+		emailVerified: true,
+		image: true,
+		role: true,
+		createdAt: true,
+	})
+	.extend({
+		banned: z.boolean(),
+		banReason: z.string().nullable(),
+		banExpires: z.date().nullable(),
+	});
+
+export type AdminUser = z.infer<typeof adminUserSchema>;
+
+export const adminUserListSchema = paginatedResponseSchema(adminUserSchema);
+
+export type AdminUserList = z.infer<typeof adminUserListSchema>;
+
+/**
+ * Set Role Schema
+ * Used for: changing a user's role
+ */
+export const setRoleSchema = z.object({
+	role: roleSchema,
+});
+
+export type SetRoleInput = z.infer<typeof setRoleSchema>;
+
+/**
+ * Ban User Schema
+ * Used for: banning a user, optionally for a limited time (form data)
+ */
+export const banUserSchema = z.object({
+	reason: z
+		.string()
+		.trim()
+		.max(200, "Reason must be less than 200 characters")
+		.transform((value) => value || undefined)
+		.optional(),
+	// Empty means the ban never expires
+	expiresInDays: z.preprocess(
+		(value) => (value === "" ? undefined : value),
+		z.coerce
+			.number()
+			.int("Enter a whole number of days")
+			.positive("Enter a positive number of days")
+			.optional(),
+	),
+});
+
+export type BanUserInput = z.infer<typeof banUserSchema>;
+
+/**
+ * Admin Audit Action Schema
+ * Used for: AdminAuditLog.action
+ */
+export const adminAuditActionSchema = z.enum([
+	"user.set-role",
+	"user.ban",
+	"user.unban",
+	"user.revoke-sessions",
+	"user.impersonate",
+	"user.stop-impersonating",
+]);
+
+export type AdminAuditAction = z.infer<typeof adminAuditActionSchema>;
@@ -0,0 +1,35 @@
+import { z } from "zod/v4";
+
+// =============================================================================
+// API KEY SCHEMAS - Personal API keys for scripts and CI
+// =============================================================================
+
+/**
+ * API Key Scopes
+ * Used for: limiting what a key can do; each API operation names the scope
+ * it needs (see src/lib/openapi/operations.ts)
+ */
+export const API_KEY_SCOPES = ["users:read"] as const;
+
+export const apiKeyScopeSchema = z.enum(API_KEY_SCOPES);
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+export const API_KEY_EXPIRY_OPTIONS = ["30", "90", "365", "never"] as const;
+
+/**
+ * Create API Key Schema
+ * Used for: creating a key from the account area
+ */
+export const createApiKeySchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "Name is required")
+		.max(32, "Name must be 32 characters or less"),
+	scopes: z.array(apiKeyScopeSchema).min(1, "Choose at least one scope"),
+	// Days until the key expires
+	expiresIn: z.enum(API_KEY_EXPIRY_OPTIONS),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
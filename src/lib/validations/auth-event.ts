@@ -0,0 +1,42 @@
+import { z } from "zod/v4";
+import { searchSchema } from "./common";
+
+// =============================================================================
+// AUTH EVENT SCHEMAS - Security log of authentication activity
+// =============================================================================
+
+/**
+ * Auth Event Type Schema
+ * Used for: AuthEvent.type
+ */
+export const AUTH_EVENT_TYPES = [
+	"sign-in.success",
+	"sign-in.failure",
+	"sign-up",
+	"sign-out",
+	"session.revoke",
+	"password.change",
+	"password.reset",
+] as const;
+
+export const authEventTypeSchema = z.enum(AUTH_EVENT_TYPES);
+
+export type AuthEventType = z.infer<typeof authEventTypeSchema>;
+
+/**
+ * Auth Event Filter Schema
+ * Used for: admin event log and its export (`q` matches email or IP)
+ */
+export const authEventFilterSchema = searchSchema.extend({
+	type: authEventTypeSchema.optional().catch(undefined),
+});
+
+export type AuthEventFilterInput = z.infer<typeof authEventFilterSchema>;
+
+/**
+ * Export Format Schema
+ * Used for: ?format= on export endpoints
+ */
+export const exportFormatSchema = z.enum(["csv", "json"]).default("csv");
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
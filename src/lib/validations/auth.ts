@@ -4,6 +4,26 @@ import { z } from "zod/v4";
 // AUTH SCHEMAS - Single source of truth for auth-related types
 // =============================================================================
 
+/**
+ * Password Schema
+ * Used for: any field that sets a new password (sign-up, reset)
+ */
+export const passwordSchema = z
+	.string()
+	.min(8, "Password must be at least 8 characters")
+	.regex(/[A-Z]/, "Password must contain at least one uppercase letter")
+	.regex(/[a-z]/, "Password must contain at least one lowercase letter")
+	.regex(/[0-9]/, "Password must contain at least one number");
+
+/**
+ * Name Schema
+ * Used for: display name on sign-up and profile editing
+ */
+export const nameSchema = z
+	.string()
+	.min(2, "Name must be at least 2 characters")
+	.max(100, "Name must be less than 100 characters");
+
 /**
  * Sign In Schema
  * Used for: sign-in form validation (client + server)
@@ -15,26 +35,99 @@ export const signInSchema = z.object({
 
 export type SignInInput = z.infer<typeof signInSchema>;
 
+/**
+ * Two-Factor Code Schema
+ * Used for: TOTP challenge after sign-in, confirming 2FA enrolment
+ */
+export const twoFactorCodeSchema = z.object({
+	code: z
+		.string()
+		.trim()
+		.regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+
+/**
+ * Backup Code Schema
+ * Used for: signing in with a recovery code instead of TOTP
+ */
+export const backupCodeSchema = z.object({
+	code: z.string().trim().min(1, "Enter one of your backup codes"),
+});
+
+export type BackupCodeInput = z.infer<typeof backupCodeSchema>;
+
+/**
+ * Password Confirmation Schema
+ * Used for: sensitive actions (enable/disable 2FA, regenerate backup codes)
+ */
+export const passwordConfirmationSchema = z.object({
+	password: z.string().min(1, "Password is required"),
+});
+
+export type PasswordConfirmationInput = z.infer<
+	typeof passwordConfirmationSchema
+>;
+
 /**
  * Sign Up Schema
  * Used for: sign-up form validation (client + server)
  */
 export const signUpSchema = z.object({
-	name: z
-		.string()
-		.min(2, "Name must be at least 2 characters")
-		.max(100, "Name must be less than 100 characters"),
+	name: nameSchema,
 	email: z.email("Invalid email address"),
-	password: z
-		.string()
-		.min(8, "Password must be at least 8 characters")
-		.regex(/[A-Z]/, "Password must contain at least one uppercase letter")
-		.regex(/[a-z]/, "Password must contain at least one lowercase letter")
-		.regex(/[0-9]/, "Password must contain at least one number"),
+	password: passwordSchema,
 });
 
 export type SignUpInput = z.infer<typeof signUpSchema>;
 
+/**
+ * Forgot Password Schema
+ * Used for: requesting a password reset link
+ */
+export const forgotPasswordSchema = z.object({
+	email: z.email("Invalid email address"),
+});
+
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+
+/**
+ * Reset Password Schema
+ * Used for: choosing a new password from a reset link
+ */
+export const resetPasswordSchema = z
+	.object({
+		password: passwordSchema,
+		confirmPassword: z.string().min(1, "Please confirm your password"),
+	})
+	.refine((data) => data.password === data.confirmPassword, {
+		message: "Passwords do not match",
+		path: ["confirmPassword"],
+	});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+
+/**
+ * Resend Verification Schema
+ * Used for: requesting a new email verification link
+ */
+export const resendVerificationSchema = z.object({
+	email: z.email("Invalid email address"),
+});
+
+export type ResendVerificationInput = z.infer<typeof resendVerificationSchema>;
+
+/**
+ * Role Schema
+ * Used for: user.role, role guards, admin role changes
+ */
+export const USER_ROLES = ["user", "admin"] as const;
+
+export const roleSchema = z.enum(USER_ROLES);
+
+export type Role = z.infer<typeof roleSchema>;
+
 /**
  * User Schema (public-safe user data)
  * Used for: API responses, frontend components
@@ -46,6 +139,7 @@ export const userSchema = z.object({
 	email: z.email(),
 	emailVerified: z.boolean(),
 	image: z.string().nullable(),
+	role: roleSchema,
 	createdAt: z.date(),
 	updatedAt: z.date(),
 });
@@ -61,6 +155,7 @@ export const sessionUserSchema = z.object({
 	name: z.string(),
 	email: z.email(),
 	image: z.string().nullable(),
+	role: roleSchema,
 });
 
 export type SessionUser = z.infer<typeof sessionUserSchema>;
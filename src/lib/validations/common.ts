@@ -30,6 +30,51 @@ export const paginatedResponseSchema = <T extends z.ZodType>(itemSchema: T) =>
 		}),
 	});
 
+/**
+ * Cursor pagination schema
+ * Used for: API endpoints paging through large or changing lists
+ * Note: an empty cursor starts from the first item
+ */
+export const cursorPaginationSchema = z.object({
+	cursor: z.string().optional(),
+	limit: paginationSchema.shape.limit,
+});
+
+export type CursorPaginationInput = z.infer<typeof cursorPaginationSchema>;
+
+/**
+ * Cursor-paginated response wrapper
+ * Used for: API responses with cursor pagination
+ */
+export const cursorPaginatedResponseSchema = <T extends z.ZodType>(
+	itemSchema: T,
+) =>
+	z.object({
+		items: z.array(itemSchema),
+		meta: z.object({
+			limit: z.number(),
+			/** Pass as `cursor` to get the next page; null on the last page */
+			nextCursor: z.string().nullable(),
+		}),
+	});
+
+/**
+ * Sort schema
+ * Used for: `?sort=name` (ascending) or `?sort=-createdAt` (descending)
+ */
+export const sortSchema = <T extends string>(
+	fields: readonly [T, ...T[]],
+	defaultSort: SortValue<T>,
+) =>
+	z
+		.enum([...fields, ...fields.map((field) => `-${field}`)] as [
+			string,
+			...string[],
+		])
+		.default(defaultSort) as unknown as z.ZodDefault<z.ZodType<SortValue<T>>>;
+
+export type SortValue<T extends string> = T | `-${T}`;
+
 /**
  * ID parameter schema
  * Used for: route params like /users/[id]
@@ -51,6 +96,21 @@ export const searchSchema = z.object({
 
 export type SearchInput = z.infer<typeof searchSchema>;
 
+/**
+ * API error schema
+ * Used for: the JSON body of every non-2xx API response
+ */
+export const apiErrorSchema = z.object({
+	error: z.object({
+		code: z.string(),
+		message: z.string(),
+		/** Field errors for VALIDATION_ERROR responses */
+		details: z.record(z.string(), z.array(z.string())).optional(),
+	}),
+});
+
+export type ApiErrorBody = z.infer<typeof apiErrorSchema>;
+
 /**
  * Action result schema (for server actions)
  * Used for: standardized server action responses
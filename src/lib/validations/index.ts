@@ -9,5 +9,14 @@
 //
 // =============================================================================
 
+export * from "./account";
+export * from "./admin";
+export * from "./api-key";
 export * from "./auth";
+export * from "./auth-event";
 export * from "./common";
+export * from "./job";
+export * from "./organization";
+export * from "./privacy";
+export * from "./user";
+export * from "./webhook";
@@ -0,0 +1,32 @@
+import { z } from "zod/v4";
+import { paginationSchema } from "./common";
+
+// =============================================================================
+// JOB SCHEMAS - Background job queue
+// =============================================================================
+
+/**
+ * Job Status Schema
+ * Used for: Job.status
+ */
+export const JOB_STATUSES = [
+	"queued",
+	"running",
+	"completed",
+	"failed",
+] as const;
+
+export const jobStatusSchema = z.enum(JOB_STATUSES);
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+/**
+ * Job Filter Schema
+ * Used for: admin job list (`name` is a job name such as "send-email")
+ */
+export const jobFilterSchema = paginationSchema.extend({
+	status: jobStatusSchema.optional().catch(undefined),
+	name: z.string().trim().min(1).optional().catch(undefined),
+});
+
+export type JobFilterInput = z.infer<typeof jobFilterSchema>;
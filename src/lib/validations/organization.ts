@@ -0,0 +1,59 @@
+import { z } from "zod/v4";
+
+// =============================================================================
+// ORGANIZATION SCHEMAS - Workspaces, members and invitations
+// =============================================================================
+
+/**
+ * Organization Role Schema
+ * Used for: member.role, invitation.role, per-organization guards
+ */
+export const ORGANIZATION_ROLES = ["owner", "admin", "member"] as const;
+
+export const organizationRoleSchema = z.enum(ORGANIZATION_ROLES);
+
+export type OrganizationRole = z.infer<typeof organizationRoleSchema>;
+
+/**
+ * Create Organization Schema
+ * Used for: creating a new organization
+ */
+export const createOrganizationSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(2, "Name must be at least 2 characters")
+		.max(50, "Name must be less than 50 characters"),
+	slug: z
+		.string()
+		.trim()
+		.min(2, "Slug must be at least 2 characters")
+		.max(50, "Slug must be less than 50 characters")
+		.regex(
+			/^[a-z0-9]+(-[a-z0-9]+)*$/,
+			"Use lowercase letters, numbers and single hyphens",
+		),
+});
+
+export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
+
+/**
+ * Invite Member Schema
+ * Used for: inviting someone to the active organization by email
+ */
+export const inviteMemberSchema = z.object({
+	email: z.email("Invalid email address"),
+	role: organizationRoleSchema,
+});
+
+export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
+
+/**
+ * Update Member Role Schema
+ * Used for: changing a member's role in the active organization
+ */
+export const updateMemberRoleSchema = z.object({
+	role: organizationRoleSchema,
+});
+
+export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
@@ -0,0 +1,40 @@
+import { z } from "zod/v4";
+
+// =============================================================================
+// PRIVACY SCHEMAS - Data exports and account deletion
+// =============================================================================
+
+/**
+ * Data Export Format Schema
+ * Used for: DataExport.format ("json" is one file, "zip" one file per section)
+ */
+export const DATA_EXPORT_FORMATS = ["json", "zip"] as const;
+
+export const dataExportFormatSchema = z.enum(DATA_EXPORT_FORMATS);
+
+export type DataExportFormat = z.infer<typeof dataExportFormatSchema>;
+
+/**
+ * Data Export Status Schema
+ * Used for: DataExport.status
+ */
+export const DATA_EXPORT_STATUSES = [
+	"pending",
+	"ready",
+	"failed",
+	"expired",
+] as const;
+
+export const dataExportStatusSchema = z.enum(DATA_EXPORT_STATUSES);
+
+export type DataExportStatus = z.infer<typeof dataExportStatusSchema>;
+
+/**
+ * Request Data Export Schema
+ * Used for: "Download my data" on the privacy page
+ */
+export const requestDataExportSchema = z.object({
+	format: dataExportFormatSchema,
+});
+
+export type RequestDataExportInput = z.infer<typeof requestDataExportSchema>;
@@ -0,0 +1,38 @@
+import type { z } from "zod/v4";
+import { userSchema } from "./auth";
+import {
+	cursorPaginatedResponseSchema,
+	cursorPaginationSchema,
+	paginatedResponseSchema,
+	searchSchema,
+	sortSchema,
+} from "./common";
+
+// =============================================================================
+// USER API SCHEMAS - /api/users
+// =============================================================================
+
+export const USER_SORT_FIELDS = ["createdAt", "name", "email"] as const;
+
+/**
+ * User List Query Schema
+ * Used for: GET /api/users (`cursor` switches to cursor pagination)
+ */
+export const userListQuerySchema = searchSchema.extend({
+	...cursorPaginationSchema.shape,
+	sort: sortSchema(USER_SORT_FIELDS, "-createdAt"),
+});
+
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+
+/**
+ * User List Schemas
+ * Used for: GET /api/users responses
+ */
+export const userListSchema = paginatedResponseSchema(userSchema);
+
+export type UserList = z.infer<typeof userListSchema>;
+
+export const userCursorListSchema = cursorPaginatedResponseSchema(userSchema);
+
+export type UserCursorList = z.infer<typeof userCursorListSchema>;
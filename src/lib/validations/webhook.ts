@@ -0,0 +1,68 @@
+import { z } from "zod/v4";
+import { paginationSchema } from "./common";
+
+// =============================================================================
+// WEBHOOK SCHEMAS - Outgoing webhooks for user lifecycle events
+// =============================================================================
+
+/**
+ * Webhook Event Schema
+ * Used for: WebhookDelivery.event, WebhookEndpoint.events
+ * Note: "ping" is only sent by the admin "Send test" button
+ */
+export const WEBHOOK_EVENTS = [
+	"user.created",
+	"user.email-verified",
+	"user.deleted",
+] as const;
+
+export const webhookEventSchema = z.enum(WEBHOOK_EVENTS);
+
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+/**
+ * Webhook Delivery Status Schema
+ * Used for: WebhookDelivery.status
+ */
+export const WEBHOOK_DELIVERY_STATUSES = [
+	"pending",
+	"delivered",
+	"failed",
+] as const;
+
+export const webhookDeliveryStatusSchema = z.enum(WEBHOOK_DELIVERY_STATUSES);
+
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+
+/**
+ * Create Webhook Endpoint Schema
+ * Used for: registering an endpoint from the admin console
+ */
+export const createWebhookEndpointSchema = z.object({
+	url: z.url({
+		protocol: /^https?$/,
+		message: "Enter an http:// or https:// URL",
+	}),
+	description: z
+		.string()
+		.trim()
+		.max(100, "Description must be 100 characters or less")
+		.optional(),
+	events: z.array(webhookEventSchema).min(1, "Choose at least one event"),
+});
+
+export type CreateWebhookEndpointInput = z.infer<
+	typeof createWebhookEndpointSchema
+>;
+
+/**
+ * Webhook Delivery Filter Schema
+ * Used for: an endpoint's delivery log in the admin console
+ */
+export const webhookDeliveryFilterSchema = paginationSchema.extend({
+	status: webhookDeliveryStatusSchema.optional().catch(undefined),
+});
+
+export type WebhookDeliveryFilterInput = z.infer<
+	typeof webhookDeliveryFilterSchema
+>;
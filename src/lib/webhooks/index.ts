@@ -0,0 +1,264 @@
+import { randomUUID } from "node:crypto";
+import type { Prisma } from "@/generated/prisma/client";
+import { enqueueJob, type JobContext } from "../jobs";
+import { prisma } from "../prisma";
+import type { WebhookDeliveryFilterInput, WebhookEvent } from "../validations";
+import { signWebhook } from "./signature";
+
+export { createWebhookSecret, signWebhook, verifyWebhook } from "./signature";
+
+// =============================================================================
+// WEBHOOKS - Event fan-out and delivery
+// =============================================================================
+// emitWebhookEvent() stores one WebhookDelivery row per subscribed endpoint
+// and queues a "deliver-webhook" job for each. The job sends the request
+// and records the outcome; the queue retries failures with backoff.
+
+/** Events plus "ping", which is only sent from the admin console */
+export type WebhookEventType = WebhookEvent | "ping";
+
+/** Attempts before a delivery is marked "failed" */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/** Delay before the first retry; doubles with each attempt */
+const RETRY_BASE_MS = 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/** Stored response bodies and errors are cut to this length */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Delay after failed attempt number `attempts`: 1, 2, 4 ... 64 minutes.
+ */
+export function retryDelay(attempts: number) {
+	return RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+/**
+ * Body sent to endpoints. `id` is shared by every delivery of the event,
+ * so receivers can use it to drop duplicates.
+ */
+function buildPayload(type: WebhookEventType, data: Prisma.InputJsonObject) {
+	return {
+		id: `evt_${randomUUID().replaceAll("-", "")}`,
+		type,
+		createdAt: new Date().toISOString(),
+		data,
+	};
+}
+
+async function queueDeliveries(
+	deliveries: Prisma.WebhookDeliveryCreateManyInput[],
+) {
+	if (deliveries.length === 0) return;
+
+	const created = await prisma.webhookDelivery.createManyAndReturn({
+		data: deliveries,
+		select: { id: true },
+	});
+	for (const { id } of created) {
+		await enqueueJob("deliver-webhook", { deliveryId: id });
+	}
+}
+
+async function enqueue(
+	endpointIds: string[],
+	type: WebhookEventType,
+	data: Prisma.InputJsonObject,
+) {
+	const payload = buildPayload(type, data);
+	await queueDeliveries(
+		endpointIds.map((endpointId) => ({
+			endpointId,
+			eventId: payload.id,
+			event: type,
+			payload,
+		})),
+	);
+}
+
+/**
+ * Queue `event` for every enabled endpoint subscribed to it. Delivery
+ * happens in the background, so this only waits for the database insert.
+ *
+ * @example
+ * await emitWebhookEvent("user.created", { user: webhookUser(user) });
+ */
+export async function emitWebhookEvent(
+	event: WebhookEvent,
+	data: Prisma.InputJsonObject,
+) {
+	const endpoints = await prisma.webhookEndpoint.findMany({
+		where: { enabled: true, events: { has: event } },
+		select: { id: true },
+	});
+	await enqueue(
+		endpoints.map((endpoint) => endpoint.id),
+		event,
+		data,
+	);
+}
+
+/**
+ * Queue a "ping" event for one endpoint, whatever its subscriptions.
+ */
+export async function sendTestWebhook(endpointId: string) {
+	await enqueue([endpointId], "ping", { message: "Test event" });
+}
+
+/**
+ * Queue a fresh copy of an earlier delivery, keeping its event ID.
+ */
+export async function redeliverWebhook(deliveryId: string) {
+	const { endpointId, eventId, event, payload } =
+		await prisma.webhookDelivery.findUniqueOrThrow({
+			where: { id: deliveryId },
+		});
+	await queueDeliveries([
+		{
+			endpointId,
+			eventId,
+			event,
+			payload: payload as Prisma.InputJsonValue,
+		},
+	]);
+}
+
+/**
+ * User fields included in user.* events.
+ */
+export function webhookUser(user: {
+	id: string;
+	email: string;
+	name: string;
+	emailVerified: boolean;
+	createdAt: Date;
+}) {
+	return {
+		id: user.id,
+		email: user.email,
+		name: user.name,
+		emailVerified: user.emailVerified,
+		createdAt: user.createdAt.toISOString(),
+	};
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+/**
+ * POST a delivery's payload once and record the outcome. Any 2xx response
+ * counts as delivered; redirects are not followed. Throws on failure so
+ * the job is retried at `retryAt`.
+ * Used for: the "deliver-webhook" job
+ */
+export async function attemptWebhookDelivery(
+	deliveryId: string,
+	{ attempt, retryAt }: Pick<JobContext, "attempt" | "retryAt">,
+) {
+	const delivery = await prisma.webhookDelivery.findUnique({
+		where: { id: deliveryId },
+		include: { endpoint: true },
+	});
+	// Deleted along with its endpoint, or already sent
+	if (!delivery || delivery.status !== "pending") return;
+
+	const { endpoint } = delivery;
+	if (!endpoint.enabled) {
+		await prisma.webhookDelivery.update({
+			where: { id: delivery.id },
+			data: { status: "failed", lastError: "Endpoint is disabled" },
+		});
+		return;
+	}
+
+	const now = new Date();
+	const body = JSON.stringify(delivery.payload);
+	let responseStatus: number | null = null;
+	let error: string | null = null;
+	try {
+		const response = await fetch(endpoint.url, {
+			method: "POST",
+			headers: {
+				"content-type": "application/json",
+				"user-agent": "App-Webhooks/1.0",
+				...signWebhook(endpoint.secret, delivery.eventId, body),
+			},
+			body,
+			redirect: "manual",
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+		responseStatus = response.status;
+		if (!response.ok) {
+			const text = await response.text().catch(() => "");
+			error = text.slice(0, MAX_ERROR_LENGTH) || `HTTP ${response.status}`;
+		}
+	} catch (cause) {
+		error = (cause instanceof Error ? cause.message : String(cause)).slice(
+			0,
+			MAX_ERROR_LENGTH,
+		);
+	}
+
+	await prisma.webhookDelivery.update({
+		where: { id: delivery.id },
+		data: {
+			attempts: attempt,
+			lastAttemptAt: now,
+			responseStatus,
+			lastError: error,
+			...(!error
+				? { status: "delivered", deliveredAt: now }
+				: retryAt
+					? { nextAttemptAt: retryAt }
+					: { status: "failed" }),
+		},
+	});
+	if (error) throw new Error(`Webhook delivery failed: ${error}`);
+}
+
+// =============================================================================
+// ADMIN QUERIES
+// =============================================================================
+
+/**
+ * All endpoints, newest first, with their latest delivery.
+ */
+export async function listWebhookEndpoints() {
+	return prisma.webhookEndpoint.findMany({
+		orderBy: { createdAt: "desc" },
+		include: {
+			deliveries: {
+				orderBy: { createdAt: "desc" },
+				take: 1,
+				select: { status: true, createdAt: true },
+			},
+		},
+	});
+}
+
+/**
+ * An endpoint's deliveries matching `status`, newest first.
+ */
+export async function listWebhookDeliveries(
+	endpointId: string,
+	{ status, page, limit }: WebhookDeliveryFilterInput,
+) {
+	const where: Prisma.WebhookDeliveryWhereInput = { endpointId, status };
+	const [items, total] = await Promise.all([
+		prisma.webhookDelivery.findMany({
+			where,
+			orderBy: { createdAt: "desc" },
+			skip: (page - 1) * limit,
+			take: limit,
+		}),
+		prisma.webhookDelivery.count({ where }),
+	]);
+
+	return {
+		items,
+		meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+	};
+}
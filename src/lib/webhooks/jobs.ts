@@ -0,0 +1,13 @@
+import { z } from "zod/v4";
+import { defineJob } from "../jobs/define";
+import { attemptWebhookDelivery, MAX_DELIVERY_ATTEMPTS, retryDelay } from ".";
+
+export const WEBHOOK_JOBS = {
+	"deliver-webhook": defineJob({
+		schema: z.object({ deliveryId: z.string() }),
+		handler: ({ deliveryId }, context) =>
+			attemptWebhookDelivery(deliveryId, context),
+		maxAttempts: MAX_DELIVERY_ATTEMPTS,
+		backoff: retryDelay,
+	}),
+};
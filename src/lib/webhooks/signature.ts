@@ -0,0 +1,73 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// =============================================================================
+// SIGNATURES - HMAC-SHA256 signing in the Standard Webhooks format
+// =============================================================================
+// https://www.standardwebhooks.com: the signed content is
+// "<webhook-id>.<webhook-timestamp>.<body>" and the signature header is
+// "v1,<base64 HMAC>". Receivers can use any Standard Webhooks library.
+
+const SECRET_PREFIX = "whsec_";
+
+/** Seconds a receiver should accept a timestamp for, either way */
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * New endpoint secret: "whsec_" followed by 24 random bytes in base64.
+ */
+export function createWebhookSecret() {
+	return `${SECRET_PREFIX}${randomBytes(24).toString("base64")}`;
+}
+
+function hmac(secret: string, id: string, timestamp: number, body: string) {
+	const key = Buffer.from(secret.slice(SECRET_PREFIX.length), "base64");
+	return createHmac("sha256", key)
+		.update(`${id}.${timestamp}.${body}`)
+		.digest("base64");
+}
+
+/**
+ * Headers for a delivery of `body` with message ID `id`.
+ */
+export function signWebhook(
+	secret: string,
+	id: string,
+	body: string,
+	timestamp = Math.floor(Date.now() / 1000),
+) {
+	return {
+		"webhook-id": id,
+		"webhook-timestamp": String(timestamp),
+		"webhook-signature": `v1,${hmac(secret, id, timestamp, body)}`,
+	};
+}
+
+/**
+ * Check a received webhook. False when the signature doesn't match or the
+ * timestamp is too old (or too far ahead) to rule out a replay.
+ * Used for: scripts/webhook-receiver.ts, apps that receive our webhooks
+ */
+export function verifyWebhook(
+	secret: string,
+	headers: Headers,
+	body: string,
+	toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+) {
+	const id = headers.get("webhook-id");
+	const timestamp = Number(headers.get("webhook-timestamp"));
+	const signatures = headers.get("webhook-signature");
+	if (!id || !Number.isInteger(timestamp) || !signatures) return false;
+	if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+	const expected = Buffer.from(hmac(secret, id, timestamp, body));
+	// Several space-separated signatures are sent while a secret is rotated
+	return signatures.split(" ").some((signature) => {
+		const [version, value = ""] = signature.split(",");
+		const actual = Buffer.from(value);
+		return (
+			version === "v1" &&
+			actual.length === expected.length &&
+			timingSafeEqual(actual, expected)
+		);
+	});
+}
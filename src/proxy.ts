@@ -0,0 +1,39 @@
+import { getSessionCookie } from "better-auth/cookies";
+import { type NextRequest, NextResponse } from "next/server";
+import { REQUEST_ID_HEADER, requestIdFrom } from "@/lib/logger/context";
+import { buildSignInUrl, isProtectedRoute } from "@/lib/routes";
+
+/**
+ * Optimistic route guard: only checks that a session cookie exists.
+ * Pages must still validate the session with `requireUser()`.
+ *
+ * Also gives every request an `x-request-id` (kept from the caller or
+ * generated), which route handlers and server actions log with and which
+ * is echoed on the response.
+ */
+export function proxy(request: NextRequest) {
+	const { pathname, search } = request.nextUrl;
+	const requestId = requestIdFrom(request.headers);
+
+	let response: NextResponse;
+	if (
+		pathname.startsWith("/api/") ||
+		!isProtectedRoute(pathname) ||
+		getSessionCookie(request)
+	) {
+		const headers = new Headers(request.headers);
+		headers.set(REQUEST_ID_HEADER, requestId);
+		response = NextResponse.next({ request: { headers } });
+	} else {
+		response = NextResponse.redirect(
+			new URL(buildSignInUrl(`${pathname}${search}`), request.url),
+		);
+	}
+
+	response.headers.set(REQUEST_ID_HEADER, requestId);
+	return response;
+}
+
+export const config = {
+	matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
@@ -0,0 +1,46 @@
+import { GET, POST } from "@/app/api/auth/[...all]/route";
+import { SESSION_COOKIE } from "../factories";
+
+const ORIGIN = "http://localhost:3000";
+
+/**
+ * Call the auth route handler the way the browser client does: a GET
+ * without `body`, otherwise a JSON POST.
+ *
+ * @example
+ * const response = await authRequest("/sign-in/email", { body: { email, password } });
+ */
+export function authRequest(
+	path: string,
+	{ body, cookie }: { body?: object; cookie?: string } = {},
+) {
+	const headers = new Headers({
+		origin: ORIGIN,
+		"x-forwarded-for": "10.0.0.1",
+	});
+	if (cookie) headers.set("cookie", cookie);
+	if (!body) return GET(new Request(`${ORIGIN}/api/auth${path}`, { headers }));
+
+	headers.set("content-type", "application/json");
+	return POST(
+		new Request(`${ORIGIN}/api/auth${path}`, {
+			method: "POST",
+			headers,
+			body: JSON.stringify(body),
+		}),
+	);
+}
+
+/** Cookie header carrying the session cookie a response set */
+export function sessionCookieFrom(response: Response) {
+	const setCookie = response.headers
+		.getSetCookie()
+		.find((cookie) => cookie.startsWith(`${SESSION_COOKIE}=`));
+	return setCookie?.split(";")[0];
+}
+
+/** The session `cookie` authenticates, or null */
+export async function getSession(cookie: string) {
+	const response = await authRequest("/get-session", { cookie });
+	return (await response.json()) as { user: { email: string } } | null;
+}
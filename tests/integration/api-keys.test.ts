@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod/v4";
+import { createApiKey } from "@/app/account/api-keys/actions";
+import { apiRoute } from "@/lib/api";
+import { API_KEY_RULE } from "@/lib/api/auth";
+import { scopesToPermissions } from "@/lib/api-keys";
+import { auth } from "@/lib/auth";
+import { defineOperation } from "@/lib/openapi/operations";
+import { prisma } from "@/lib/prisma";
+import { consume } from "@/lib/rate-limit";
+import { getCurrentUser, getSession, RECENT_SIGN_IN_MS } from "@/lib/session";
+import type { ApiKeyScope, CreateApiKeyInput } from "@/lib/validations";
+import { createSession, createUser } from "../factories";
+
+// Session helpers read the request's headers through next/headers, which
+// needs Next's request scope; hand them these instead
+const request = vi.hoisted(() => ({ headers: new Headers() }));
+vi.mock("next/headers", () => ({ headers: async () => request.headers }));
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+const ORIGIN = "http://localhost:3000";
+
+const readThings = defineOperation({
+	method: "GET",
+	path: "/api/things",
+	summary: "Test operation",
+	tag: "Tests",
+	auth: "user",
+	scope: "users:read",
+	response: z.object({ id: z.string() }),
+});
+
+/** A key for a new user with `scopes`, sent as the request's Bearer token */
+async function useApiKey(scopes: ApiKeyScope[]) {
+	const { user } = await createUser();
+	const created = await auth.api.createApiKey({
+		body: { userId: user.id, permissions: scopesToPermissions(scopes) },
+	});
+	request.headers = new Headers({ authorization: `Bearer ${created.key}` });
+	return { user, apiKeyId: created.id };
+}
+
+beforeEach(() => {
+	request.headers = new Headers();
+});
+
+describe("API keys in session helpers", () => {
+	it("are refused unless the caller asks for a scope the key has", async () => {
+		await useApiKey([]);
+
+		expect(await getSession()).toBeNull();
+		expect(await getCurrentUser()).toBeNull();
+		expect(await getCurrentUser({ scope: "users:read" })).toBeNull();
+
+		await useApiKey(["users:read"]);
+		expect(await getCurrentUser()).toBeNull();
+		expect(await getCurrentUser({ scope: "users:read" })).not.toBeNull();
+	});
+
+	it("answer an operation without the key's scope with a 403", async () => {
+		await useApiKey([]);
+		const route = apiRoute(readThings, async ({ user }) => ({ id: user.id }));
+
+		const response = await route(new Request(`${ORIGIN}/api/things`), {
+			params: Promise.resolve({}),
+		});
+
+		expect(response.status).toBe(403);
+	});
+
+	it("answer requests over the per-key limit with a 429", async () => {
+		const { user, apiKeyId } = await useApiKey(["users:read"]);
+		const route = apiRoute(readThings, async ({ user }) => ({ id: user.id }));
+		const call = () =>
+			route(new Request(`${ORIGIN}/api/things`), {
+				params: Promise.resolve({}),
+			});
+
+		const allowed = await call();
+		expect(await allowed.json()).toEqual({ id: user.id });
+		for (let hit = 1; hit < API_KEY_RULE.max; hit += 1) {
+			await consume(`api-key:${apiKeyId}`, API_KEY_RULE);
+		}
+
+		const limited = await call();
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get("Retry-After")).toBeTruthy();
+	});
+});
+
+describe("createApiKey", () => {
+	it("needs a recent sign-in", async () => {
+		const { user } = await createUser();
+		const { cookie } = await createSession(user, {
+			createdAt: new Date(Date.now() - RECENT_SIGN_IN_MS - 60_000),
+		});
+		request.headers = new Headers({ cookie });
+
+		const input: CreateApiKeyInput = {
+			name: "CI",
+			scopes: ["users:read"],
+			expiresIn: "30",
+		};
+		expect(await createApiKey(input)).toEqual({
+			success: false,
+			message: "Sign in again to confirm it's you, then create the key",
+		});
+
+		request.headers = new Headers({
+			cookie: (await createSession(user)).cookie,
+		});
+		expect(await createApiKey(input)).toMatchObject({ success: true });
+		expect(await prisma.apiKey.count({ where: { userId: user.id } })).toBe(1);
+	});
+
+	it("is refused while impersonating", async () => {
+		const { user } = await createUser();
+		const { user: admin } = await createUser({ role: "admin" });
+		const { cookie } = await createSession(user, { impersonatedBy: admin.id });
+		request.headers = new Headers({ cookie });
+
+		const result = await createApiKey({
+			name: "Backdoor",
+			scopes: ["users:read"],
+			expiresIn: "never",
+		});
+
+		expect(result).toEqual({
+			success: false,
+			message: "API keys can't be created while impersonating",
+		});
+		expect(await prisma.apiKey.count({ where: { userId: user.id } })).toBe(0);
+	});
+});
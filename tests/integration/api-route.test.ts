@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod/v4";
+import { apiRoute } from "@/lib/api";
+import { defineOperation } from "@/lib/openapi/operations";
+
+// Route handlers read the request's headers through next/headers, which
+// needs Next's request scope; hand them the request's headers instead
+const request = vi.hoisted(() => ({ headers: new Headers() }));
+vi.mock("next/headers", () => ({ headers: async () => request.headers }));
+
+const ORIGIN = "http://localhost:3000";
+
+const getThing = defineOperation({
+	method: "GET",
+	path: "/api/things",
+	summary: "Test operation",
+	tag: "Tests",
+	auth: "public",
+	query: z.object({ limit: z.coerce.number().int().positive().optional() }),
+	response: z.object({ id: z.string() }),
+});
+
+/** Call `route` the way Next.js would, with no params */
+function call(route: ReturnType<typeof apiRoute>, path: string) {
+	const incoming = new Request(`${ORIGIN}${path}`, {
+		headers: request.headers,
+	});
+	return route(incoming, { params: Promise.resolve({}) });
+}
+
+beforeEach(() => {
+	request.headers = new Headers();
+});
+
+describe("apiRoute", () => {
+	it("answers invalid input with a 400", async () => {
+		const route = apiRoute(getThing, async () => ({ id: "1" }));
+
+		const response = await call(route, "/api/things?limit=-1");
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			error: { code: "VALIDATION_ERROR" },
+		});
+	});
+
+	it("answers a response that breaks its schema with a 500", async () => {
+		// e.g. a row whose column no longer matches the contract
+		const route = apiRoute(getThing, async () => JSON.parse('{ "id": 1 }'));
+
+		const response = await call(route, "/api/things");
+
+		expect(response.status).toBe(500);
+		expect(await response.json()).toMatchObject({
+			error: { code: "INTERNAL_ERROR" },
+		});
+	});
+});
@@ -0,0 +1,229 @@
+import { createEmailVerificationToken } from "better-auth/api";
+import { afterEach, describe, expect, it } from "vitest";
+import { listOutbox } from "@/lib/email";
+import { env } from "@/lib/env";
+import { JOBS } from "@/lib/jobs/registry";
+import { prisma } from "@/lib/prisma";
+import {
+	createSession,
+	createTwoFactorChallenge,
+	createUser,
+	TEST_PASSWORD,
+} from "../factories";
+import { authRequest, getSession, sessionCookieFrom } from "../helpers/auth";
+
+describe("sign-up", () => {
+	it("creates the user and signs them in", async () => {
+		const response = await authRequest("/sign-up/email", {
+			body: {
+				name: "Ada Lovelace",
+				email: "ada@example.com",
+				password: TEST_PASSWORD,
+			},
+		});
+
+		expect(response.status).toBe(200);
+		const user = await prisma.user.findUniqueOrThrow({
+			where: { email: "ada@example.com" },
+			include: { accounts: true },
+		});
+		expect(user.name).toBe("Ada Lovelace");
+		expect(user.accounts).toMatchObject([{ providerId: "credential" }]);
+		expect(user.accounts[0].password).not.toBe(TEST_PASSWORD);
+
+		const cookie = sessionCookieFrom(response);
+		expect(cookie).toBeDefined();
+		expect(await getSession(cookie ?? "")).toMatchObject({
+			user: { email: "ada@example.com" },
+		});
+		expect(
+			await prisma.authEvent.count({
+				where: { userId: user.id, type: "sign-up" },
+			}),
+		).toBe(1);
+	});
+
+	it("rejects an email that is already registered", async () => {
+		const { user } = await createUser();
+
+		const response = await authRequest("/sign-up/email", {
+			body: { name: "Someone", email: user.email, password: TEST_PASSWORD },
+		});
+
+		expect(response.status).toBe(422);
+		expect(await prisma.user.count()).toBe(1);
+	});
+});
+
+describe("sign-in", () => {
+	it("starts a session with the right password", async () => {
+		const { user, password } = await createUser();
+
+		const response = await authRequest("/sign-in/email", {
+			body: { email: user.email, password },
+		});
+
+		expect(response.status).toBe(200);
+		const cookie = sessionCookieFrom(response);
+		expect(await getSession(cookie ?? "")).toMatchObject({
+			user: { email: user.email },
+		});
+		expect(await prisma.session.count({ where: { userId: user.id } })).toBe(1);
+		expect(
+			await prisma.authEvent.findFirst({
+				where: { userId: user.id, type: "sign-in.success" },
+			}),
+		).toMatchObject({ method: "email" });
+	});
+
+	it("rejects a wrong password and logs the failure", async () => {
+		const { user } = await createUser();
+
+		const response = await authRequest("/sign-in/email", {
+			body: { email: user.email, password: "Wrong-password1" },
+		});
+
+		expect(response.status).toBe(401);
+		expect(sessionCookieFrom(response)).toBeUndefined();
+		expect(await prisma.session.count()).toBe(0);
+		expect(
+			await prisma.authEvent.count({
+				where: { userId: user.id, type: "sign-in.failure" },
+			}),
+		).toBe(1);
+	});
+});
+
+describe("two-factor sign-in", () => {
+	it("counts wrong codes toward the account's lockout", async () => {
+		const { user, password } = await createUser();
+		const { cookie } = await createTwoFactorChallenge(user);
+		const verify = () =>
+			authRequest("/two-factor/verify-totp", {
+				body: { code: "000000" },
+				cookie,
+			});
+
+		for (let attempt = 1; attempt <= 5; attempt += 1) {
+			expect((await verify()).status).toBe(401);
+		}
+
+		expect((await verify()).status).toBe(429);
+		const signIn = await authRequest("/sign-in/email", {
+			body: { email: user.email, password },
+		});
+		expect(signIn.status).toBe(429);
+		expect(sessionCookieFrom(signIn)).toBeUndefined();
+	});
+});
+
+describe("sign-out", () => {
+	it("ends the session", async () => {
+		const { user } = await createUser();
+		const { session, cookie } = await createSession(user);
+		expect(await getSession(cookie)).toMatchObject({
+			user: { email: user.email },
+		});
+
+		const response = await authRequest("/sign-out", { body: {}, cookie });
+
+		expect(response.status).toBe(200);
+		expect(
+			await prisma.session.findUnique({ where: { id: session.id } }),
+		).toBeNull();
+		expect(await getSession(cookie)).toBeNull();
+		expect(
+			await prisma.authEvent.count({
+				where: { userId: user.id, type: "sign-out" },
+			}),
+		).toBe(1);
+	});
+});
+
+describe("password reset", () => {
+	it("queues the template and renders the link when the job runs", async () => {
+		const { user } = await createUser();
+
+		await authRequest("/request-password-reset", {
+			body: { email: user.email, redirectTo: "/reset-password" },
+		});
+
+		const job = await prisma.job.findFirstOrThrow({
+			where: { name: "send-email" },
+		});
+		expect(job.payload).toMatchObject({
+			template: "resetPassword",
+			to: user.email,
+		});
+		expect(job.payload).not.toHaveProperty("html");
+
+		await JOBS["send-email"].handler(
+			JOBS["send-email"].schema.parse(job.payload),
+			{
+				jobId: job.id,
+				attempt: 1,
+				maxAttempts: 1,
+				retryAt: null,
+			},
+		);
+		const [sent] = (await listOutbox()).filter(
+			(email) => email.to === user.email,
+		);
+		expect(sent.subject).toBe("Reset your password");
+		expect(sent.text).toContain("/reset-password");
+	});
+});
+
+describe("ADMIN_EMAILS", () => {
+	const adminEmails = env.ADMIN_EMAILS;
+
+	afterEach(() => {
+		env.ADMIN_EMAILS = adminEmails;
+	});
+
+	it("grants the admin role only once the email is verified", async () => {
+		env.ADMIN_EMAILS = ["boss@example.com"];
+		await authRequest("/sign-up/email", {
+			body: {
+				name: "Boss",
+				email: "boss@example.com",
+				password: TEST_PASSWORD,
+			},
+		});
+		const where = { email: "boss@example.com" };
+		expect(await prisma.user.findUniqueOrThrow({ where })).toMatchObject({
+			role: "user",
+		});
+
+		const token = await createEmailVerificationToken(
+			env.BETTER_AUTH_SECRET,
+			"boss@example.com",
+		);
+		await authRequest(`/verify-email?token=${token}`);
+
+		expect(await prisma.user.findUniqueOrThrow({ where })).toMatchObject({
+			emailVerified: true,
+			role: "admin",
+		});
+	});
+
+	it("lets admins demote a listed user", async () => {
+		env.ADMIN_EMAILS = ["boss@example.com"];
+		const { user } = await createUser({
+			email: "boss@example.com",
+			role: "admin",
+		});
+		const { user: admin } = await createUser({ role: "admin" });
+		const { cookie } = await createSession(admin);
+
+		const response = await authRequest("/admin/set-role", {
+			body: { userId: user.id, role: "user" },
+			cookie,
+		});
+
+		expect(response.status).toBe(200);
+		expect(
+			await prisma.user.findUniqueOrThrow({ where: { id: user.id } }),
+		).toMatchObject({ role: "user" });
+	});
+});
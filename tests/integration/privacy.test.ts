@@ -0,0 +1,281 @@
+import { strFromU8, unzipSync } from "fflate";
+import { afterEach, describe, expect, it } from "vitest";
+import { GET as getUpload } from "@/app/api/uploads/[...key]/route";
+import { listOutbox, type TemplateName } from "@/lib/email";
+import { env } from "@/lib/env";
+import { prisma } from "@/lib/prisma";
+import {
+	buildDataExport,
+	cancelAccountDeletion,
+	deletedUserEmail,
+	deleteScheduledAccount,
+	hasPassword,
+	requestDataExport,
+	scheduleAccountDeletion,
+} from "@/lib/privacy";
+import { getStorage } from "@/lib/storage";
+import {
+	createWebhookSecret,
+	emitWebhookEvent,
+	webhookUser,
+} from "@/lib/webhooks";
+import { createSession, createUser } from "../factories";
+
+/** Build a requested export the way the worker would on its last attempt */
+async function buildExport(userId: string, format: "json" | "zip") {
+	const requested = await requestDataExport(userId, format);
+	if (!requested) throw new Error("Export was not requested");
+	await buildDataExport(requested.id, { retryAt: null });
+	return prisma.dataExport.findUniqueOrThrow({ where: { id: requested.id } });
+}
+
+/** Queued emails using `template` */
+async function queuedEmails(template: TemplateName) {
+	const jobs = await prisma.job.findMany({ where: { name: "send-email" } });
+	return jobs.filter(
+		(job) => (job.payload as { template: string }).template === template,
+	);
+}
+
+/** Move a scheduled deletion into the past so the job will run it */
+async function makeDeletionDue(userId: string) {
+	await prisma.accountDeletion.update({
+		where: { userId },
+		data: { scheduledAt: new Date(Date.now() - 1000) },
+	});
+}
+
+describe("data exports", () => {
+	it("archives the user's data without secrets", async () => {
+		const { user } = await createUser();
+		const { session } = await createSession(user, { ipAddress: "10.0.0.1" });
+
+		const dataExport = await buildExport(user.id, "zip");
+
+		expect(dataExport).toMatchObject({ status: "ready", format: "zip" });
+		const stored = await getStorage().get(dataExport.storageKey ?? "");
+		const files = unzipSync(stored?.body ?? new Uint8Array());
+		expect(Object.keys(files)).toEqual(
+			expect.arrayContaining([
+				"profile.json",
+				"accounts.json",
+				"sessions.json",
+			]),
+		);
+		expect(JSON.parse(strFromU8(files["profile.json"]))).toMatchObject({
+			id: user.id,
+			email: user.email,
+		});
+		expect(JSON.parse(strFromU8(files["sessions.json"]))).toEqual([
+			expect.objectContaining({ ipAddress: "10.0.0.1" }),
+		]);
+
+		const { password } = await prisma.account.findFirstOrThrow({
+			where: { userId: user.id },
+		});
+		const archive = Object.values(files)
+			.map((file) => strFromU8(file))
+			.join("\n");
+		expect(archive).not.toContain(session.token);
+		expect(archive).not.toContain(password);
+		expect(await queuedEmails("dataExportReady")).toHaveLength(1);
+	});
+
+	it("writes a single JSON document for the json format", async () => {
+		const { user } = await createUser();
+		const { user: admin } = await createUser({ role: "admin" });
+		await prisma.adminAuditLog.create({
+			data: {
+				action: "user.ban",
+				actorId: admin.id,
+				actorEmail: admin.email,
+				targetId: user.id,
+				targetEmail: user.email,
+				details: { reason: "Spam" },
+			},
+		});
+
+		const dataExport = await buildExport(user.id, "json");
+
+		const stored = await getStorage().get(dataExport.storageKey ?? "");
+		const archive = JSON.parse(strFromU8(stored?.body ?? new Uint8Array()));
+		expect(archive.profile.email).toBe(user.email);
+		expect(archive.accounts).toEqual([
+			expect.not.objectContaining({ password: expect.anything() }),
+		]);
+		expect(archive.adminActions).toEqual([
+			expect.objectContaining({
+				action: "user.ban",
+				details: { reason: "Spam" },
+			}),
+		]);
+		expect(JSON.stringify(archive)).not.toContain(admin.email);
+	});
+
+	it("allows one pending export at a time", async () => {
+		const { user } = await createUser();
+
+		expect(await requestDataExport(user.id, "json")).not.toBeNull();
+		expect(await requestDataExport(user.id, "zip")).toBeNull();
+	});
+
+	it("never serves archives from the public uploads route", async () => {
+		const { user } = await createUser();
+		const dataExport = await buildExport(user.id, "json");
+		const key = dataExport.storageKey ?? "";
+
+		const response = await getUpload(
+			new Request(`http://localhost:3000/api/uploads/${key}`),
+			{ params: Promise.resolve({ key: key.split("/") }) },
+		);
+
+		expect(response.status).toBe(404);
+	});
+});
+
+describe("account deletion", () => {
+	const mode = env.ACCOUNT_DELETION_MODE;
+
+	afterEach(() => {
+		env.ACCOUNT_DELETION_MODE = mode;
+	});
+
+	it("schedules deletion after the grace period and emails the user", async () => {
+		const { user } = await createUser();
+
+		const deletion = await scheduleAccountDeletion(user);
+
+		const graceMs = env.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000;
+		expect(deletion.scheduledAt.getTime()).toBeGreaterThan(
+			Date.now() + graceMs - 60_000,
+		);
+		const job = await prisma.job.findFirstOrThrow({
+			where: { name: "delete-account" },
+		});
+		expect(job.runAt).toEqual(deletion.scheduledAt);
+		expect(await queuedEmails("deletionScheduled")).toHaveLength(1);
+
+		// Not due yet
+		await deleteScheduledAccount(user.id);
+		expect(await prisma.user.count({ where: { id: user.id } })).toBe(1);
+	});
+
+	it("knows which users have a password to confirm with", async () => {
+		const { user } = await createUser();
+		const { user: oauthUser } = await createUser();
+		await prisma.account.updateMany({
+			where: { userId: oauthUser.id },
+			data: { providerId: "github", password: null },
+		});
+
+		expect(await hasPassword(user.id)).toBe(true);
+		expect(await hasPassword(oauthUser.id)).toBe(false);
+	});
+
+	it("does nothing once the request is canceled", async () => {
+		const { user } = await createUser();
+		await scheduleAccountDeletion(user);
+		await makeDeletionDue(user.id);
+
+		expect(await cancelAccountDeletion(user.id)).toBe(true);
+		await deleteScheduledAccount(user.id);
+
+		expect(await prisma.user.count({ where: { id: user.id } })).toBe(1);
+	});
+
+	it("deletes the user and everything that mentions them", async () => {
+		const { user } = await createUser();
+		const { user: admin } = await createUser({ role: "admin" });
+		await createSession(user);
+		await buildExport(user.id, "json");
+		const endpoint = await prisma.webhookEndpoint.create({
+			data: {
+				url: "https://hooks.example.com",
+				secret: createWebhookSecret(),
+				events: ["user.created", "user.deleted"],
+			},
+		});
+		await emitWebhookEvent("user.created", { user: webhookUser(user) });
+		await prisma.authEvent.create({
+			data: { type: "sign-in.failure", email: user.email },
+		});
+		await prisma.adminAuditLog.create({
+			data: {
+				action: "user.ban",
+				actorId: admin.id,
+				actorEmail: admin.email,
+				targetId: user.id,
+				targetEmail: user.email,
+			},
+		});
+		await scheduleAccountDeletion(user);
+		await makeDeletionDue(user.id);
+
+		await deleteScheduledAccount(user.id);
+
+		expect(await prisma.user.count({ where: { id: user.id } })).toBe(0);
+		expect(await prisma.session.count({ where: { userId: user.id } })).toBe(0);
+		expect(await prisma.dataExport.count({ where: { userId: user.id } })).toBe(
+			0,
+		);
+		expect(await prisma.authEvent.count({ where: { email: user.email } })).toBe(
+			0,
+		);
+		expect(
+			await prisma.adminAuditLog.findFirstOrThrow({
+				where: { targetId: user.id },
+			}),
+		).toMatchObject({ targetEmail: deletedUserEmail(user.id) });
+		const deliveries = await prisma.webhookDelivery.findMany({
+			where: { endpointId: endpoint.id },
+		});
+		expect(deliveries.map((delivery) => delivery.event)).toEqual([
+			"user.deleted",
+		]);
+		expect(JSON.stringify(deliveries)).not.toContain(user.email);
+		const jobs = await prisma.job.findMany({ where: { name: "send-email" } });
+		expect(JSON.stringify(jobs)).not.toContain(user.email);
+		const sent = (await listOutbox()).filter(
+			(email) => email.to === user.email,
+		);
+		expect(sent).toEqual([
+			expect.objectContaining({
+				subject: expect.stringContaining("account has been deleted"),
+			}),
+		]);
+	});
+
+	it("keeps an anonymized user row in anonymize mode", async () => {
+		env.ACCOUNT_DELETION_MODE = "anonymize";
+		const { user } = await createUser();
+		await createSession(user);
+		await prisma.authEvent.create({
+			data: {
+				type: "sign-in.success",
+				userId: user.id,
+				email: user.email,
+				ipAddress: "10.0.0.1",
+			},
+		});
+		await scheduleAccountDeletion(user);
+		await makeDeletionDue(user.id);
+
+		await deleteScheduledAccount(user.id);
+
+		expect(
+			await prisma.user.findUniqueOrThrow({ where: { id: user.id } }),
+		).toMatchObject({
+			name: "Deleted user",
+			email: deletedUserEmail(user.id),
+			banned: true,
+		});
+		expect(await prisma.session.count({ where: { userId: user.id } })).toBe(0);
+		expect(await prisma.account.count({ where: { userId: user.id } })).toBe(0);
+		expect(
+			await prisma.authEvent.findFirstOrThrow({ where: { userId: user.id } }),
+		).toMatchObject({ email: null, ipAddress: null });
+		expect(
+			await prisma.accountDeletion.count({ where: { userId: user.id } }),
+		).toBe(0);
+	});
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import {
+	DEMO_ADMIN_EMAIL,
+	DEMO_USER_EMAIL,
+	SEED_PASSWORD,
+	seedDatabase,
+} from "@/lib/seed";
+import { authRequest, sessionCookieFrom } from "../helpers/auth";
+
+describe("seedDatabase", () => {
+	it("leaves the database empty for the empty scenario", async () => {
+		await seedDatabase("empty");
+
+		expect(await prisma.user.count()).toBe(0);
+	});
+
+	it("creates demo users who can sign in with the seed password", async () => {
+		await seedDatabase("demo");
+
+		const admin = await prisma.user.findUniqueOrThrow({
+			where: { email: DEMO_ADMIN_EMAIL },
+		});
+		expect(admin.role).toBe("admin");
+		expect(
+			await prisma.member.count({
+				where: { user: { email: DEMO_USER_EMAIL } },
+			}),
+		).toBe(2);
+
+		const response = await authRequest("/sign-in/email", {
+			body: { email: DEMO_USER_EMAIL, password: SEED_PASSWORD },
+		});
+		expect(response.status).toBe(200);
+		expect(sessionCookieFrom(response)).toBeDefined();
+	});
+
+	it("generates the same rows every time and skips existing ones", async () => {
+		await seedDatabase("demo");
+		const first = await prisma.user.findMany({
+			orderBy: { email: "asc" },
+			select: { id: true, email: true, createdAt: true },
+		});
+
+		const again = await seedDatabase("demo");
+
+		expect(again.users).toBe(0);
+		expect(again.authEvents).toBe(0);
+		expect(
+			await prisma.user.findMany({
+				orderBy: { email: "asc" },
+				select: { id: true, email: true, createdAt: true },
+			}),
+		).toEqual(first);
+	});
+
+	it("puts load users in organizations alongside the demo data", async () => {
+		await seedDatabase("demo");
+		const demoUsers = await prisma.user.count();
+
+		const created = await seedDatabase("load", { users: 45 });
+
+		expect(created).toMatchObject({ users: 46, organizations: 3, members: 45 });
+		expect(await prisma.user.count()).toBe(demoUsers + 46);
+	});
+});
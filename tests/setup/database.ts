@@ -0,0 +1,75 @@
+import { execFile } from "node:child_process";
+import { createServer } from "node:net";
+import { promisify } from "node:util";
+import { unstable_startServer } from "@prisma/dev";
+import type { TestProject } from "vitest/node";
+
+// =============================================================================
+// TEST DATABASE - One throwaway PostgreSQL per `pnpm test` run
+// =============================================================================
+// Uses TEST_DATABASE_URL when set (e.g. a "next_template_test" database on
+// the docker-compose service), otherwise starts an embedded PostgreSQL that
+// lives in memory and is gone when the run ends. Either way the schema is
+// dropped and recreated from prisma/schema.prisma first.
+
+declare module "vitest" {
+	export interface ProvidedContext {
+		databaseUrl: string;
+	}
+}
+
+/** A port nothing is listening on right now */
+function freePort() {
+	return new Promise<number>((resolve, reject) => {
+		const server = createServer();
+		server.once("error", reject);
+		server.listen(0, () => {
+			const address = server.address();
+			server.close(() =>
+				typeof address === "object" && address
+					? resolve(address.port)
+					: reject(new Error("Could not find a free port")),
+			);
+		});
+	});
+}
+
+async function startEmbeddedDatabase() {
+	const server = await unstable_startServer({
+		name: `test-${process.pid}`,
+		persistenceMode: "stateless",
+		port: await freePort(),
+		databasePort: await freePort(),
+		shadowDatabasePort: await freePort(),
+	});
+	return { url: server.database.connectionString, close: () => server.close() };
+}
+
+/**
+ * Drop everything in the database and push the current schema. Async on
+ * purpose: the embedded database answers from this process's event loop.
+ */
+async function resetSchema(url: string) {
+	await promisify(execFile)(
+		"pnpm",
+		["exec", "prisma", "db", "push", "--force-reset", "--accept-data-loss"],
+		{ env: { ...process.env, DATABASE_URL: url } },
+	);
+}
+
+export default async function setup(project: TestProject) {
+	const external = process.env.TEST_DATABASE_URL;
+	const database = external
+		? { url: external, close: async () => {} }
+		: await startEmbeddedDatabase();
+
+	try {
+		await resetSchema(database.url);
+	} catch (error) {
+		await database.close();
+		throw error;
+	}
+	project.provide("databaseUrl", database.url);
+
+	return database.close;
+}
@@ -0,0 +1,16 @@
+import { afterAll, beforeEach, inject } from "vitest";
+
+// Runs before each integration test file imports anything from src, so
+// src/lib/env.ts sees the database started by tests/setup/database.ts
+process.env.DATABASE_URL = inject("databaseUrl");
+
+const { resetDatabase } = await import("@/lib/seed");
+const { prisma } = await import("@/lib/prisma");
+
+beforeEach(async () => {
+	await resetDatabase();
+});
+
+afterAll(async () => {
+	await prisma.$disconnect();
+});
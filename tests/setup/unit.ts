@@ -0,0 +1,7 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// Vitest runs without globals, so Testing Library can't register this itself
+afterEach(() => {
+	cleanup();
+});
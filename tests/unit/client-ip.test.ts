@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { getClientIp } from "@/lib/client-ip";
+
+function forwardedFor(value: string) {
+	return new Headers({ "x-forwarded-for": value });
+}
+
+describe("getClientIp", () => {
+	it("takes the entry added by the trusted proxy, not the client's", () => {
+		const headers = forwardedFor("1.2.3.4, 203.0.113.7");
+
+		expect(getClientIp(headers, 1)).toBe("203.0.113.7");
+	});
+
+	it("counts back one entry per trusted proxy", () => {
+		const headers = forwardedFor("1.2.3.4, 203.0.113.7, 10.0.0.2");
+
+		expect(getClientIp(headers, 2)).toBe("203.0.113.7");
+	});
+
+	it("ignores the header when no proxy is trusted", () => {
+		expect(getClientIp(forwardedFor("203.0.113.7"), 0)).toBeNull();
+	});
+
+	it("returns null without the header", () => {
+		expect(getClientIp(new Headers(), 1)).toBeNull();
+	});
+});
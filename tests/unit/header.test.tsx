@@ -0,0 +1,132 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Header } from "@/components/header";
+
+const router = vi.hoisted(() => ({ push: vi.fn(), refresh: vi.fn() }));
+const authClient = vi.hoisted(() => ({
+	useSession: vi.fn(),
+	useListOrganizations: vi.fn(() => ({ data: null })),
+	signOut: vi.fn(async () => ({})),
+	revokeSessions: vi.fn(async () => ({})),
+}));
+
+vi.mock("next/navigation", () => ({ useRouter: () => router }));
+vi.mock("@/lib/auth-client", () => ({ authClient }));
+// Server action imported by ImpersonationBanner
+vi.mock("@/app/admin/users/actions", () => ({ stopImpersonating: vi.fn() }));
+
+function mockSession(
+	user: { email?: string; role?: string } | null,
+	session: { impersonatedBy?: string; activeOrganizationId?: string } = {},
+) {
+	authClient.useSession.mockReturnValue({
+		isPending: false,
+		data: user && {
+			user: { email: "ada@example.com", role: "user", ...user },
+			session: { impersonatedBy: null, activeOrganizationId: null, ...session },
+		},
+	});
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+describe("Header", () => {
+	it("renders no auth links while the session is loading", () => {
+		authClient.useSession.mockReturnValue({ isPending: true, data: null });
+
+		render(<Header />);
+
+		expect(screen.queryByRole("link", { name: "Sign In" })).toBeNull();
+		expect(screen.queryByRole("button", { name: "Sign Out" })).toBeNull();
+	});
+
+	it("links to sign-in and sign-up when signed out", () => {
+		mockSession(null);
+
+		render(<Header />);
+
+		expect(
+			screen.getByRole("link", { name: "Sign In" }).getAttribute("href"),
+		).toBe("/sign-in");
+		expect(
+			screen.getByRole("link", { name: "Sign Up" }).getAttribute("href"),
+		).toBe("/sign-up");
+		expect(screen.queryByRole("button", { name: "Sign Out" })).toBeNull();
+	});
+
+	it("shows the account link and sign-out buttons when signed in", () => {
+		mockSession({ email: "ada@example.com" });
+
+		render(<Header />);
+
+		expect(
+			screen
+				.getByRole("link", { name: "ada@example.com" })
+				.getAttribute("href"),
+		).toBe("/account");
+		expect(screen.getByRole("button", { name: "Sign Out" })).toBeDefined();
+		expect(
+			screen.getByRole("button", { name: "Sign Out Everywhere" }),
+		).toBeDefined();
+		expect(screen.queryByRole("link", { name: "Sign In" })).toBeNull();
+		expect(screen.queryByRole("link", { name: "Admin" })).toBeNull();
+		expect(screen.queryByRole("link", { name: "Members" })).toBeNull();
+	});
+
+	it("links admins to the admin console", () => {
+		mockSession({ role: "admin" });
+
+		render(<Header />);
+
+		expect(
+			screen.getByRole("link", { name: "Admin" }).getAttribute("href"),
+		).toBe("/admin");
+	});
+
+	it("links to members when an organization is active", () => {
+		mockSession({}, { activeOrganizationId: "org_1" });
+
+		render(<Header />);
+
+		expect(
+			screen.getByRole("link", { name: "Members" }).getAttribute("href"),
+		).toBe("/organization");
+	});
+
+	it("shows the impersonation banner while impersonating", () => {
+		mockSession({ email: "ada@example.com" }, { impersonatedBy: "admin_1" });
+
+		render(<Header />);
+
+		expect(
+			screen.getByText(
+				"You are signed in as ada@example.com by impersonation.",
+			),
+		).toBeDefined();
+	});
+
+	it("signs out and returns home", async () => {
+		mockSession({});
+		render(<Header />);
+
+		fireEvent.click(screen.getByRole("button", { name: "Sign Out" }));
+
+		await waitFor(() => expect(router.push).toHaveBeenCalledWith("/"));
+		expect(authClient.signOut).toHaveBeenCalledOnce();
+		expect(authClient.revokeSessions).not.toHaveBeenCalled();
+	});
+
+	it("revokes every session before signing out everywhere", async () => {
+		mockSession({});
+		render(<Header />);
+
+		fireEvent.click(
+			screen.getByRole("button", { name: "Sign Out Everywhere" }),
+		);
+
+		await waitFor(() => expect(authClient.signOut).toHaveBeenCalledOnce());
+		expect(authClient.revokeSessions).toHaveBeenCalledOnce();
+	});
+});
@@ -0,0 +1,127 @@
+import { act, renderHook } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useAuthForm } from "@/lib/hooks/use-auth-form";
+import { signInSchema, signUpSchema } from "@/lib/validations";
+
+const router = vi.hoisted(() => ({ push: vi.fn(), refresh: vi.fn() }));
+
+vi.mock("next/navigation", () => ({ useRouter: () => router }));
+
+const submitEvent = { preventDefault: () => {} } as React.FormEvent;
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+describe("useAuthForm with signInSchema", () => {
+	function renderSignIn(onSubmit = vi.fn(async () => ({}))) {
+		const { result } = renderHook(() =>
+			useAuthForm({
+				schema: signInSchema,
+				initialData: { email: "", password: "" },
+				onSubmit,
+			}),
+		);
+		return { result, onSubmit };
+	}
+
+	it("reports every invalid field on submit without calling onSubmit", async () => {
+		const { result, onSubmit } = renderSignIn();
+
+		await act(() => result.current.handleSubmit(submitEvent));
+
+		expect(result.current.errors).toEqual({
+			email: "Invalid email address",
+			password: "Password is required",
+		});
+		expect(onSubmit).not.toHaveBeenCalled();
+	});
+
+	it("doesn't validate while typing", () => {
+		const { result } = renderSignIn();
+
+		act(() => result.current.handleChange("email", "not-an-email"));
+
+		expect(result.current.formData.email).toBe("not-an-email");
+		expect(result.current.errors).toEqual({});
+	});
+
+	it("clears a field's error once it is edited", async () => {
+		const { result } = renderSignIn();
+		await act(() => result.current.handleSubmit(submitEvent));
+
+		act(() => result.current.handleChange("email", "ada@example.com"));
+
+		expect(result.current.errors.email).toBeUndefined();
+		expect(result.current.errors.password).toBe("Password is required");
+	});
+
+	it("submits valid data and redirects", async () => {
+		const { result, onSubmit } = renderSignIn();
+		act(() => {
+			result.current.handleChange("email", "ada@example.com");
+			result.current.handleChange("password", "anything");
+		});
+
+		await act(() => result.current.handleSubmit(submitEvent));
+
+		expect(onSubmit).toHaveBeenCalledWith({
+			email: "ada@example.com",
+			password: "anything",
+		});
+		expect(router.push).toHaveBeenCalledWith("/");
+	});
+
+	it("shows the error returned by onSubmit and stays on the page", async () => {
+		const { result } = renderSignIn(
+			vi.fn(async () => ({ error: { status: 429, retryAfter: 60 } })),
+		);
+		act(() => {
+			result.current.handleChange("email", "ada@example.com");
+			result.current.handleChange("password", "anything");
+		});
+
+		await act(() => result.current.handleSubmit(submitEvent));
+
+		expect(result.current.submitError).toMatch(/^Too many attempts/);
+		expect(result.current.loading).toBe(false);
+		expect(router.push).not.toHaveBeenCalled();
+	});
+});
+
+describe("useAuthForm with signUpSchema", () => {
+	function renderSignUp(password: string) {
+		const onSubmit = vi.fn(async () => ({}));
+		const { result } = renderHook(() =>
+			useAuthForm({
+				schema: signUpSchema,
+				initialData: { name: "Ada", email: "ada@example.com", password },
+				onSubmit,
+			}),
+		);
+		return { result, onSubmit };
+	}
+
+	it.each([
+		["short", "Password must be at least 8 characters"],
+		["lowercase1", "Password must contain at least one uppercase letter"],
+		["UPPERCASE1", "Password must contain at least one lowercase letter"],
+		["NoDigitsHere", "Password must contain at least one number"],
+	])("rejects the password %j", async (password, message) => {
+		const { result, onSubmit } = renderSignUp(password);
+
+		await act(() => result.current.handleSubmit(submitEvent));
+
+		expect(result.current.errors.password).toBe(message);
+		expect(onSubmit).not.toHaveBeenCalled();
+	});
+
+	it("accepts a strong password", async () => {
+		const { result, onSubmit } = renderSignUp("Password123");
+
+		await act(() => result.current.handleSubmit(submitEvent));
+
+		expect(result.current.errors).toEqual({});
+		expect(onSubmit).toHaveBeenCalledOnce();
+	});
+});
@@ -0,0 +1,52 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod/v4";
+import {
+	SUBMIT_FAILED_MESSAGE,
+	type UseZodFormOptions,
+	useZodForm,
+} from "@/lib/hooks/use-zod-form";
+
+const schema = z.object({ name: z.string().min(1, "Name is required") });
+
+function renderForm(
+	onSubmit: UseZodFormOptions<typeof schema>["onSubmit"],
+	onSuccess = vi.fn(),
+) {
+	const { result } = renderHook(() =>
+		useZodForm({ schema, initialData: { name: "Ada" }, onSubmit, onSuccess }),
+	);
+	return { result, onSuccess };
+}
+
+describe("useZodForm", () => {
+	it("shows a form-level error when onSubmit throws", async () => {
+		const { result, onSuccess } = renderForm(async () => {
+			throw new Error("Failed to fetch");
+		});
+
+		let submitted: boolean | undefined;
+		await act(async () => {
+			submitted = await result.current.handleSubmit();
+		});
+
+		expect(submitted).toBe(false);
+		expect(result.current.submitError).toBe(SUBMIT_FAILED_MESSAGE);
+		expect(result.current.submitting).toBe(false);
+		expect(onSuccess).not.toHaveBeenCalled();
+	});
+
+	it("clears that error on the next successful submit", async () => {
+		const onSubmit = vi
+			.fn<UseZodFormOptions<typeof schema>["onSubmit"]>()
+			.mockRejectedValueOnce(new Error("Failed to fetch"))
+			.mockResolvedValueOnce(undefined);
+		const { result, onSuccess } = renderForm(onSubmit);
+
+		await act(() => result.current.handleSubmit());
+		await act(() => result.current.handleSubmit());
+
+		expect(result.current.submitError).toBe("");
+		expect(onSuccess).toHaveBeenCalledWith({ name: "Ada" });
+	});
+});
@@ -0,0 +1,45 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Two projects: "unit" renders client components in jsdom with no database,
+// "integration" runs route handlers against a throwaway PostgreSQL that
+// tests/setup/database.ts creates and resets once per run.
+export default defineConfig({
+	resolve: {
+		tsconfigPaths: true,
+	},
+	test: {
+		env: {
+			BETTER_AUTH_SECRET: "test-secret-at-least-32-characters-long",
+			BETTER_AUTH_URL: "http://localhost:3000",
+			EMAIL_TRANSPORT: "memory",
+			LOG_LEVEL: "error",
+			STORAGE_LOCAL_DIR: join(tmpdir(), "app-test-uploads"),
+		},
+		projects: [
+			{
+				extends: true,
+				test: {
+					name: "unit",
+					environment: "jsdom",
+					include: ["tests/unit/**/*.test.{ts,tsx}"],
+					setupFiles: ["tests/setup/unit.ts"],
+				},
+			},
+			{
+				extends: true,
+				test: {
+					name: "integration",
+					environment: "node",
+					include: ["tests/integration/**/*.test.ts"],
+					globalSetup: ["tests/setup/database.ts"],
+					setupFiles: ["tests/setup/integration.ts"],
+					// Files share one database, so run them one after another
+					fileParallelism: false,
+					hookTimeout: 30_000,
+				},
+			},
+		],
+	},
+});